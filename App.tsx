@@ -5,20 +5,40 @@ import {
   Settings, RefreshCw, Activity, Calendar, TrendingUp, 
   Radio, LayoutDashboard, SlidersHorizontal, ChevronDown,
   Zap, Clock, Layers, History, Maximize2, Minimize2, Eye, EyeOff, BarChart2, BoxSelect,
-  ArrowRightLeft
+  ArrowRightLeft, Grid3x3, Bell
 } from 'lucide-react';
 import { 
-  fetchDailyCandles, subscribeToTicker, 
-  fetchTopSymbols, fetchScreenerMetrics, subscribeToAllMarketTicker 
+  fetchScreenerMetrics, fetchDeltaHistory, fetchSessionTrades, fetchSessionHistory, streamTradesSince, getExchangeAdapter, EXCHANGE_ADAPTERS, DEFAULT_EXCHANGE, ExchangeId 
 } from './services/marketData';
-import { calculateProfile, isInSession, findOrderBlocks } from './utils/analytics';
-import { calculateAttentionScore, calculateZScore, detectSignal, generateSparkline } from './utils/screenerUtils';
+import { BaselineService } from './services/baselineService';
+import { MarketRecorder, withRecorder } from './services/marketRecorder';
+import { SessionHistoryService } from './services/sessionHistory';
+import { calculateProfile, isInSession, getSessionBounds, resolveResetOptions } from './utils/analytics';
+import { findMultiTimeframeOrderBlocks } from './utils/orderBlocks';
+import { calculateMarketStructure } from './utils/marketStructure';
+import { calculateAttentionScore, calculateZScore, detectSignal } from './utils/screenerUtils';
+import { DeltaTracker } from './utils/deltaTracker';
+import { SparklineStore } from './utils/sparklines';
+import { intervalToMs, floorToInterval } from './utils/time';
+import { FootprintBuilder } from './utils/footprint';
+import { TradeProfileBuilder } from './utils/tradeProfile';
+import { calculateDevelopingProfile, calculateCompositeProfile } from './utils/profileSeries';
+import { calculateTpoProfile, TPO_PERIOD_MS } from './utils/tpo';
+import { calculateNamedSessions, DEFAULT_SESSIONS } from './utils/sessions';
+import { calculateAnchoredVwaps, loadVwapAnchors, saveVwapAnchors, VWAP_ANCHOR_COLORS } from './utils/vwap';
+import { loadDrawings, saveDrawings } from './utils/drawings';
+import { loadWatchlists, saveWatchlists, toggleWatchlistSymbol, moveWatchlistSymbol, parseWatchlists, mergeWatchlists, serializeWatchlists } from './utils/watchlists';
+import { HFTGridState, loadHftGrid, saveHftGrid, saveHftLayout } from './utils/hftLayouts';
+import { AlertEngine, loadAlertRules, saveAlertRules } from './utils/alertEngine';
+import { deliverAlerts } from './services/alertDelivery';
+import { WebhookDispatcher, loadWebhookDestinations, saveWebhookDestinations } from './services/webhookService';
 import ProfileChart from './components/ProfileChart';
 import MarketScreener from './components/MarketScreener';
 import HFTEngine from './components/HFTEngine'; 
 import OrderFlowDashboard from './components/OrderFlowDashboard';
 import { SessionIntelligence } from './components/SessionIntelligence';
-import { Candle, SessionConfig, ConnectionStatus, ProfileMetrics, ScreenerRow, Timeframe, ScreenerTimeframe, OrderBlock, SignalType } from './types';
+import AlertCenter from './components/AlertCenter';
+import { Candle, SessionConfig, ConnectionStatus, ProfileMetrics, ScreenerRow, Timeframe, ScreenerTimeframe, OrderBlock, SignalType, TickerSnapshot, FootprintBar, ProfileSource, Trade, DevelopingProfilePoint, SessionDefinition, VwapAnchor, VwapAnchorKind, ResetPolicy, DrawingLine, AlertRule, AlertEvent, PersistentEvent, AuctionContext, WebhookDestination, WebhookDelivery, Watchlist } from './types';
 
 // Initial Config
 const DEFAULT_CONFIG: SessionConfig = {
@@ -26,19 +46,86 @@ const DEFAULT_CONFIG: SessionConfig = {
   startTime: '00:00', // UTC
   endTime: '23:59',   // UTC
   tickSize: 10.0,
+  sessions: DEFAULT_SESSIONS,
+  resetPolicy: 'session',
+};
+
+const RESET_POLICY_LABELS: Record<ResetPolicy, string> = {
+  session: 'Session open',
+  daily: 'Daily (00:00 UTC)',
+  weekly: 'Weekly (Mon)',
+  monthly: 'Monthly',
+  anchor: 'From anchor',
+  none: 'Never',
 };
 
 type ViewMode = 'screener' | 'hft' | 'orderflow';
 
+// Footprint covers the most recent bars only: every bar means pulling its aggTrades over REST
+const FOOTPRINT_BARS = 48;
+// Footprint & trade profile refresh rate while trades stream in
+const TRADE_FEED_PUBLISH_MS = 500;
+
+// Composite profiles: previous sessions are loaded at this resolution
+const COMPOSITE_TIMEFRAME: Timeframe = '15m';
+const COMPOSITE_DAY_OPTIONS = [1, 2, 3, 5, 10, 20];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Sessions scanned for naked POCs, poor highs/lows and single prints
+const PRIOR_SESSION_LOOKBACK = 10;
+
+const VWAP_ANCHORS_STORAGE_KEY = 'vwapAnchors';
+const DRAWINGS_STORAGE_KEY = 'chartDrawings';
+const ALERT_RULES_STORAGE_KEY = 'alertRules';
+const ALERT_LOG_LIMIT = 200;
+const WEBHOOKS_STORAGE_KEY = 'webhookDestinations';
+const WATCHLISTS_STORAGE_KEY = 'watchlists';
+const HFT_GRID_STORAGE_KEY = 'hftGrid';
+
+// Order blocks: up to two of these above the chart timeframe are projected onto it
+const ORDER_BLOCK_HTFS: Timeframe[] = ['1h', '4h', '1d'];
+const ORDER_BLOCK_HTF_COUNT = 2;
+const ORDER_BLOCK_HTF_BARS = 200;
+const ORDER_BLOCK_REFRESH_MS = 5 * 60 * 1000;
+
 export default function App() {
   const [config, setConfig] = useState<SessionConfig>(DEFAULT_CONFIG);
+  const [exchangeId, setExchangeId] = useState<ExchangeId>(DEFAULT_EXCHANGE);
+  const adapter = useMemo(() => getExchangeAdapter(exchangeId), [exchangeId]);
   const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
+  const [radarStatus, setRadarStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
   const [candles, setCandles] = useState<Candle[]>([]);
   const [filteredCandles, setFilteredCandles] = useState<Candle[]>([]);
   const [metrics, setMetrics] = useState<ProfileMetrics | null>(null);
+  const [developingProfile, setDevelopingProfile] = useState<DevelopingProfilePoint[]>([]);
+
+  // Composite profile over the last N sessions (1 = off)
+  const [compositeDays, setCompositeDays] = useState(1);
+  const [compositeHistory, setCompositeHistory] = useState<Candle[]>([]);
   
   // Analytics
-  const [orderBlocks, setOrderBlocks] = useState<OrderBlock[]>([]);
+  // Higher-timeframe candles for order blocks, keyed by interval
+  const [htfCandles, setHtfCandles] = useState<Partial<Record<Timeframe, Candle[]>>>({});
+
+  // Anchored VWAPs per symbol, kept across symbol switches and reloads
+  const [vwapAnchors, setVwapAnchors] = useState<Record<string, VwapAnchor[]>>(() => loadVwapAnchors(VWAP_ANCHORS_STORAGE_KEY));
+
+  // Chart drawings per symbol
+  const [drawings, setDrawings] = useState<Record<string, DrawingLine[]>>(() => loadDrawings(DRAWINGS_STORAGE_KEY));
+
+  // Alert rules (persisted) and the in-app log of fired alerts (newest first)
+  const alertEngine = useMemo(() => new AlertEngine(), []);
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadAlertRules(ALERT_RULES_STORAGE_KEY));
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>([]);
+  const [unreadAlerts, setUnreadAlerts] = useState(0);
+  const [showAlerts, setShowAlerts] = useState(false);
+  // Chart symbol whose candles are loaded; chart alerts (levels, auction) wait for it to match config.symbol
+  const chartAlertSymbolRef = useRef<string | null>(null);
+
+  // Outbound webhooks for fired alerts
+  const webhooks = useMemo(() => new WebhookDispatcher(), []);
+  const [webhookDestinations, setWebhookDestinations] = useState<WebhookDestination[]>(() => loadWebhookDestinations(WEBHOOKS_STORAGE_KEY));
+  const [webhookLog, setWebhookLog] = useState<WebhookDelivery[]>([]);
   
   // Timeframe State for CHART
   const [timeframe, setTimeframe] = useState<Timeframe>('15m');
@@ -54,8 +141,13 @@ export default function App() {
   const knownSymbolsRef = useRef<Set<string>>(new Set());
   const [screenerData, setScreenerData] = useState<ScreenerRow[]>([]);
   
-  // Favorites State (Watchlist)
-  const [favorites, setFavorites] = useState<Set<string>>(new Set(['BTCUSDT', 'ETHUSDT']));
+  // Named watchlists (radar tabs), persisted
+  const [watchlists, setWatchlists] = useState<Watchlist[]>(() => loadWatchlists(WATCHLISTS_STORAGE_KEY));
+  const [activeListId, setActiveListId] = useState<string | null>(null); // Radar tab, null = All
+  const [favoriteListId, setFavoriteListId] = useState<string | null>(null); // Row dots on All: last list opened
+
+  // HFT Engine grid and its saved layouts, persisted
+  const [hftGrid, setHftGrid] = useState<HFTGridState>(() => loadHftGrid(HFT_GRID_STORAGE_KEY));
 
   // Signal Persistence Tracking
   const signalStartMap = useRef<Map<string, { type: SignalType, startTime: number }>>(new Map());
@@ -64,11 +156,44 @@ export default function App() {
   const [isChartFullscreen, setIsChartFullscreen] = useState(false);
   const [chartIndicators, setChartIndicators] = useState({
     volume: true,
-    orderBlocks: true
+    orderBlocks: true,
+    footprint: false
   });
+  const [footprintBars, setFootprintBars] = useState<FootprintBar[]>([]);
+
+  // Volume profile source: candle approximation or exact aggTrades
+  const [profileSource, setProfileSource] = useState<ProfileSource>('candles');
+  const [tradeProfile, setTradeProfile] = useState<ProfileMetrics | null>(null);
+  const [tradeProfileFrom, setTradeProfileFrom] = useState<number | null>(null); // Oldest trade in it
   
+  // Rolling per-symbol baselines (volume / delta / funding), persisted per venue
+  const baselines = useMemo(() => new BaselineService(`baselines:${adapter.id}`), [adapter]);
+
+  // Per-symbol 1m delta fed by the multiplexed kline stream
+  const deltaTracker = useMemo(() => new DeltaTracker(baselines), [baselines]);
+
+  // Completed session profiles (previous VA, naked POCs...), persisted per venue
+  const sessionHistory = useMemo(() => new SessionHistoryService(`sessions:${adapter.id}`), [adapter]);
+  const [sessionHistoryVersion, setSessionHistoryVersion] = useState(0);
+
+  // IndexedDB recorder for the chart & order flow streams (replay, backtests, session review)
+  const recorder = useMemo(() => new MarketRecorder(`recorder:${adapter.id}`), [adapter]);
+  const recordingAdapter = useMemo(() => withRecorder(adapter, recorder), [adapter, recorder]);
+
+  useEffect(() => {
+    const flush = () => { recorder.flush(); };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      recorder.dispose();
+    };
+  }, [recorder]);
+
+  // Per-symbol close series behind each row's sparkline (one point per screener bar)
+  const sparklineStoreRef = useRef(new SparklineStore(intervalToMs(screenerTimeframe)));
+
   // Buffering Ref for Screener Updates (Optimized Rendering)
-  const screenerUpdateBuffer = useRef<Map<string, { price: number; chg24h: number; vol24h: number }>>(new Map());
+  const screenerUpdateBuffer = useRef<Map<string, TickerSnapshot>>(new Map());
 
   // Date Selection State (YYYY-MM-DD)
   const [selectedDate, setSelectedDate] = useState<string>(() => {
@@ -82,15 +207,15 @@ export default function App() {
   // --- Pipeline: Data Enrichment Logic ---
   // Caps confidence/score if the symbol is not yet ACTIVE
   const enrichRowData = useCallback((row: ScreenerRow): ScreenerRow => {
-      // 1. Calculate Z-Scores
-      const volMean = row.vol24h / 1440; 
-      const volZ = calculateZScore(row.tfVolume, volMean, volMean * 0.5); 
-      
-      const fundingMean = 0.01; 
-      const fundingZ = calculateZScore(row.fundingRate * 100, fundingMean, 0.01);
+      // 1. Calculate Z-Scores against the symbol's own history (0 until the baseline has enough samples)
+      const volStats = baselines.stats(row.symbol, `volume:${screenerTimeframe}`);
+      const volZ = volStats ? calculateZScore(row.tfVolume, volStats.center, volStats.scale) : 0;
 
-      // 2. Simulate Delta 
-      const delta1m = row.vol24h * 0.0001 * (row.tfChange > 0 ? 1 : -1) * Math.random() * 5; 
+      const fundingStats = baselines.stats(row.symbol, 'funding');
+      const fundingZ = fundingStats ? calculateZScore(row.fundingRate, fundingStats.center, fundingStats.scale) : 0;
+
+      // 2. Real 1m taker delta vs. its rolling per-symbol baseline
+      const { delta1m, deltaZScore } = deltaTracker.get(row.symbol);
 
       // 3. Detect Signals
       const { type, confidence } = detectSignal(row.tfChange, volZ, delta1m, row.trendStrength);
@@ -112,12 +237,9 @@ export default function App() {
           // No signal, clear history
           if (existing) signalStartMap.current.delete(row.symbol);
       }
-      
-      // Override for Demo purposes (random duration if 0 to show UI)
-      if (type !== 'NONE' && duration === 0) duration = Math.floor(Math.random() * 10); 
 
       // 5. Calculate Attention Score
-      let attention = calculateAttentionScore(volZ, row.tfChange, row.fundingRate, 0, type !== 'NONE');
+      let attention = calculateAttentionScore(volZ, row.tfChange, row.fundingRate, deltaZScore, type !== 'NONE');
 
       // --- WARM UP DAMPENING ---
       let effectiveConfidence = confidence;
@@ -136,19 +258,18 @@ export default function App() {
           volZScore: volZ,
           fundingZScore: fundingZ,
           delta1m: delta1m,
-          deltaZScore: 0,
+          deltaZScore: deltaZScore,
           ofSignal: type,
           signalConfidence: effectiveConfidence,
           activeDuration: duration,
-          attentionScore: attention,
-          sparkline: row.sparkline.length > 0 ? row.sparkline : generateSparkline(row.price, 0.005)
+          attentionScore: attention
       };
-  }, []);
+  }, [baselines, deltaTracker, screenerTimeframe]);
 
   // --- Pipeline: Discovery & Onboarding ---
   const discoverAndOnboard = useCallback(async () => {
       // 1. Discover: Fetch Top Liquid Symbols
-      const topSymbols = await fetchTopSymbols(100);
+      const topSymbols = await adapter.fetchTopSymbols(100);
       
       // 2. Filter: Find New Candidates
       const newCandidates = topSymbols.filter(s => !knownSymbolsRef.current.has(s));
@@ -177,7 +298,12 @@ export default function App() {
 
       // 4. Warm Up: Fetch Metrics for NEW symbols only
       // We don't want to re-fetch existing 'ACTIVE' symbols here, they are live via WebSocket
-      const freshMetrics = await fetchScreenerMetrics(newCandidates, screenerTimeframe);
+      const [freshMetrics, deltaHistory] = await Promise.all([
+          fetchScreenerMetrics(adapter, newCandidates, screenerTimeframe, baselines),
+          fetchDeltaHistory(adapter, newCandidates)
+      ]);
+      deltaHistory.forEach((history, symbol) => deltaTracker.seed(symbol, history));
+      freshMetrics.forEach(m => sparklineStoreRef.current.seed(m.symbol, m.sparkline));
 
       setScreenerData(prev => {
           return prev.map(row => {
@@ -205,9 +331,17 @@ export default function App() {
           );
       }, 5000); // 5 second warm-up
 
-  }, [screenerTimeframe, enrichRowData]);
+  }, [adapter, baselines, deltaTracker, screenerTimeframe, enrichRowData]);
 
 
+  // --- Venue Switch: Drop symbols discovered on the previous exchange ---
+  useEffect(() => {
+    knownSymbolsRef.current.clear();
+    screenerUpdateBuffer.current.clear();
+    sparklineStoreRef.current.clear();
+    setScreenerData([]);
+  }, [adapter]);
+
   // --- Initialization Effect ---
   useEffect(() => {
     discoverAndOnboard();
@@ -224,7 +358,9 @@ export default function App() {
      
      const refreshMetrics = async () => {
         const symbolsToRefresh = Array.from(knownSymbolsRef.current) as string[];
-        const freshMetrics = await fetchScreenerMetrics(symbolsToRefresh, screenerTimeframe);
+        sparklineStoreRef.current.setInterval(intervalToMs(screenerTimeframe));
+        const freshMetrics = await fetchScreenerMetrics(adapter, symbolsToRefresh, screenerTimeframe, baselines);
+        freshMetrics.forEach(m => sparklineStoreRef.current.seed(m.symbol, m.sparkline));
         
         setScreenerData(prev => {
            return prev.map(existingRow => {
@@ -245,46 +381,58 @@ export default function App() {
         });
      };
      refreshMetrics();
-  }, [screenerTimeframe, enrichRowData]); // Re-run when TF changes
+  }, [adapter, baselines, screenerTimeframe, enrichRowData]); // Re-run when TF changes
 
   // --- Real-time Updates ---
   useEffect(() => {
     // Subscribe to ALL market tickers. 
     // This pushes data for all symbols, but we only update rows that exist in our state.
-    const unsubscribe = subscribeToAllMarketTicker((updateMap) => {
+    const unsubscribe = adapter.subscribeToAllMarketTicker((updateMap) => {
       updateMap.forEach((val, key) => {
          screenerUpdateBuffer.current.set(key, val);
       });
-    });
+    }, setRadarStatus);
 
+    return unsubscribe;
+  }, [adapter]); // Re-subscribe only when the venue changes
+
+  // --- Buffered Flush (500ms) ---
+  useEffect(() => {
     const flushInterval = setInterval(() => {
-       if (screenerUpdateBuffer.current.size > 0) {
-          const updates: Map<string, { price: number; chg24h: number; vol24h: number }> = new Map(screenerUpdateBuffer.current);
-          screenerUpdateBuffer.current.clear();
-          
-          setScreenerData((prevRows) => {
-             return prevRows.map(row => {
-                const update = updates.get(row.symbol);
-                if (update) {
-                   // Update live data regardless of status (even warming symbols need price)
-                   return {
-                      ...row,
-                      price: update.price,
-                      chg24h: update.chg24h,
-                      vol24h: update.vol24h
-                   };
-                }
-                return row;
-             });
+       const updates: Map<string, TickerSnapshot> = new Map(screenerUpdateBuffer.current);
+       screenerUpdateBuffer.current.clear();
+
+       setScreenerData((prevRows) => {
+          return prevRows.map(row => {
+             const update = updates.get(row.symbol);
+             // Update live data regardless of status (even warming symbols need price)
+             const live = update ? {
+                ...row,
+                price: update.price,
+                chg24h: update.chg24h,
+                vol24h: update.vol24h,
+                sparkline: sparklineStoreRef.current.update(row.symbol, update.price) ?? row.sparkline
+             } : row;
+             // Re-run the pipeline so delta-driven signals track the live order flow
+             return live.status === 'INITIALIZING' ? live : enrichRowData(live);
           });
-       }
+       });
     }, 500);
 
-    return () => {
-      unsubscribe();
-      clearInterval(flushInterval);
-    };
-  }, []); // Run once on mount
+    return () => clearInterval(flushInterval);
+  }, [enrichRowData]);
+
+  // --- Live 1m Delta: one multiplexed kline_1m stream for every radar symbol ---
+  // Keyed on the symbol set so price ticks don't resubscribe
+  const radarSymbolsKey = useMemo(() => screenerData.map(r => r.symbol).sort().join(','), [screenerData]);
+
+  useEffect(() => {
+    if (!radarSymbolsKey) return;
+    const unsubscribe = adapter.subscribeToKlines(radarSymbolsKey.split(','), '1m', (symbol, candle) => {
+      deltaTracker.update(symbol, candle);
+    });
+    return unsubscribe;
+  }, [adapter, deltaTracker, radarSymbolsKey]);
 
   // --- Layout Resize ---
   useEffect(() => {
@@ -306,6 +454,9 @@ export default function App() {
     return selectedDate === today;
   }, [selectedDate]);
 
+  // Live chart stream dropped and is being re-established (candles are backfilled on return)
+  const isFeedDegraded = isLive && (status === ConnectionStatus.RECONNECTING || status === ConnectionStatus.ERROR);
+
   // --- Chart Data Loading (Existing Logic) ---
   useEffect(() => {
     if (viewMode === 'orderflow' || viewMode === 'hft') return;
@@ -331,7 +482,7 @@ export default function App() {
       const fetchEnd = (isLive || isLongTermMode) ? now : endOfDay;
 
       try {
-        const history = await fetchDailyCandles(config.symbol, startTimestamp, fetchEnd, timeframe);
+        const history = await adapter.fetchDailyCandles(config.symbol, startTimestamp, fetchEnd, timeframe);
         if (isActive) {
           setCandles(history);
           if (!isLive && !isLongTermMode) setStatus(ConnectionStatus.DISCONNECTED);
@@ -341,7 +492,7 @@ export default function App() {
       }
 
       if (isLive && isActive && !isLongTermMode) {
-        unsubscribe = subscribeToTicker(config.symbol, (newCandle) => {
+        unsubscribe = recordingAdapter.subscribeToTicker(config.symbol, (newCandle) => {
             setCandles((prev) => {
               const last = prev[prev.length - 1];
               if (last && last.timestamp === newCandle.timestamp) {
@@ -359,17 +510,85 @@ export default function App() {
 
     loadData();
     return () => { isActive = false; if (unsubscribe) unsubscribe(); };
-  }, [config.symbol, selectedDate, isLive, timeframe, isLongTermMode, viewMode]);
+  }, [adapter, recordingAdapter, config.symbol, selectedDate, isLive, timeframe, isLongTermMode, viewMode]);
+
+  // --- Trade Feed (aggTrades → footprint bars & trade-based profile) ---
+  useEffect(() => {
+    setFootprintBars([]);
+    setTradeProfile(null);
+    setTradeProfileFrom(null);
+    const wantFootprint = chartIndicators.footprint;
+    const wantProfile = profileSource === 'trades';
+    if ((!wantFootprint && !wantProfile) || viewMode !== 'screener' || isLongTermMode) return;
+
+    const intervalMs = intervalToMs(timeframe);
+    const dayStart = new Date(`${selectedDate}T00:00:00Z`).getTime();
+    const dayEnd = new Date(`${selectedDate}T23:59:59.999Z`).getTime();
+    const windowEnd = isLive ? Date.now() : dayEnd;
+    // The oldest footprint bar may be partial when its history exceeds the REST trade cap
+    const footprintFrom = Math.max(dayStart, floorToInterval(windowEnd, intervalMs) - (FOOTPRINT_BARS - 1) * intervalMs);
+    const session = getSessionBounds(selectedDate, config.startTime, config.endTime);
+
+    const footprint = wantFootprint ? new FootprintBuilder(intervalMs, config.tickSize) : null;
+    const profile = wantProfile ? new TradeProfileBuilder(config.tickSize) : null;
+    const from = Math.min(wantFootprint ? footprintFrom : Infinity, wantProfile ? session.start : Infinity);
+
+    let dirty = false;
+    const ingest = (trades: Trade[]) => {
+      footprint?.addTrades(trades.filter(t => t.time >= footprintFrom));
+      profile?.addTrades(trades.filter(t => isInSession(t.time, config.startTime, config.endTime) && t.time <= session.end));
+      dirty = true;
+    };
+    const publish = () => {
+      if (!dirty) return;
+      dirty = false;
+      if (footprint) setFootprintBars(footprint.getBars());
+      if (profile && !profile.isEmpty) {
+        setTradeProfile(profile.getProfile());
+        setTradeProfileFrom(profile.startTime);
+      }
+    };
+
+    if (!isLive) {
+      let isActive = true;
+      fetchSessionTrades(adapter, config.symbol, from, dayEnd, recorder)
+        .then(trades => {
+          if (!isActive) return;
+          ingest(trades);
+          publish();
+        })
+        .catch(e => console.error('Trade history error', e));
+      return () => { isActive = false; };
+    }
+
+    const unsubscribe = streamTradesSince(recordingAdapter, config.symbol, from, ingest, undefined, recorder);
+    const timer = setInterval(publish, TRADE_FEED_PUBLISH_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(timer);
+    };
+  }, [adapter, recordingAdapter, recorder, config.symbol, config.tickSize, config.startTime, config.endTime, timeframe, selectedDate, isLive, isLongTermMode, viewMode, chartIndicators.footprint, profileSource]);
+
+  // Trade-based profile replaces the candle one once it has data
+  const activeProfile = profileSource === 'trades' && tradeProfile ? tradeProfile : metrics;
+  const profileSourceNote = useMemo(() => {
+    if (profileSource !== 'trades') return undefined;
+    if (!tradeProfile || tradeProfileFrom === null) return 'Loading trades…';
+    // History hit the REST cap: the profile starts after the session does
+    const { start } = getSessionBounds(selectedDate, config.startTime, config.endTime);
+    if (tradeProfileFrom - start > 60 * 1000) {
+      return `Trades since ${new Date(tradeProfileFrom).toISOString().slice(11, 16)} UTC`;
+    }
+    return undefined;
+  }, [profileSource, tradeProfile, tradeProfileFrom, selectedDate, config.startTime, config.endTime]);
 
   // --- Analytics Calculation ---
   useEffect(() => {
     if (candles.length === 0) {
       setMetrics(null);
-      setOrderBlocks([]);
       return;
     }
-    const blocks = findOrderBlocks(candles);
-    setOrderBlocks(blocks);
 
     let targetCandles = candles;
     if (!isLongTermMode) {
@@ -381,13 +600,246 @@ export default function App() {
     if (isLongTermMode) usedTickSize = config.tickSize * 10;
     const profile = calculateProfile(targetCandles, usedTickSize);
     setMetrics(profile);
+    setDevelopingProfile(calculateDevelopingProfile(targetCandles, usedTickSize));
   }, [candles, config, isLongTermMode]);
 
+  // --- Order Blocks (chart timeframe + higher timeframes) ---
+  const orderBlockHtfs = useMemo(
+    () => ORDER_BLOCK_HTFS.filter(tf => intervalToMs(tf) > intervalToMs(timeframe)).slice(0, ORDER_BLOCK_HTF_COUNT),
+    [timeframe]
+  );
+
+  useEffect(() => {
+    setHtfCandles({});
+    if (viewMode !== 'screener' || orderBlockHtfs.length === 0) return;
+    let isActive = true;
+
+    const load = async () => {
+      const end = isLive || isLongTermMode ? Date.now() : new Date(`${selectedDate}T23:59:59.999Z`).getTime();
+      const results = await Promise.all(orderBlockHtfs.map(async tf => {
+        try {
+          const history = await adapter.fetchDailyCandles(config.symbol, end - ORDER_BLOCK_HTF_BARS * intervalToMs(tf), end, tf);
+          return [tf, history] as const;
+        } catch (e) {
+          console.error(`Order block history error (${tf})`, e);
+          return [tf, []] as const;
+        }
+      }));
+      if (isActive) setHtfCandles(Object.fromEntries(results));
+    };
+
+    load();
+    // Higher timeframes move slowly; a periodic refresh keeps live lifecycles current
+    const timer = isLive ? setInterval(load, ORDER_BLOCK_REFRESH_MS) : null;
+    return () => {
+      isActive = false;
+      if (timer) clearInterval(timer);
+    };
+  }, [adapter, config.symbol, selectedDate, isLive, isLongTermMode, viewMode, orderBlockHtfs]);
+
+  const orderBlocks = useMemo<OrderBlock[]>(() => findMultiTimeframeOrderBlocks([
+    { timeframe, candles },
+    ...orderBlockHtfs.map(tf => ({ timeframe: tf, candles: htfCandles[tf] || [] })),
+  ]), [candles, timeframe, htfCandles, orderBlockHtfs]);
+
+  // --- Market Structure ---
+  const marketStructure = useMemo(() => calculateMarketStructure(filteredCandles), [filteredCandles]);
+
+  // --- Prior Session Levels ---
+  useEffect(() => {
+    if (isLongTermMode || viewMode !== 'screener') return;
+    let isActive = true;
+    fetchSessionHistory(adapter, sessionHistory, config, selectedDate, PRIOR_SESSION_LOOKBACK)
+      .then(() => {
+        if (isActive) setSessionHistoryVersion(v => v + 1);
+      })
+      .catch(e => console.error('Session history error', e));
+    return () => { isActive = false; };
+  }, [adapter, sessionHistory, config.symbol, config.startTime, config.endTime, config.tickSize, selectedDate, isLongTermMode, viewMode]);
+
+  const priorLevels = useMemo(() => {
+    if (isLongTermMode) return null;
+    return sessionHistory.getPriorLevels(config.symbol, config, selectedDate, config.tickSize, PRIOR_SESSION_LOOKBACK, filteredCandles);
+  }, [sessionHistory, sessionHistoryVersion, config.symbol, config.startTime, config.endTime, config.tickSize, selectedDate, isLongTermMode, filteredCandles]);
+
+  // TPO letters need candles no coarser than a bracket
+  const tpoProfile = useMemo(() => {
+    if (isLongTermMode || intervalToMs(timeframe) > TPO_PERIOD_MS) return null;
+    return calculateTpoProfile(filteredCandles, config.tickSize);
+  }, [filteredCandles, config.tickSize, timeframe, isLongTermMode]);
+
+  // VWAP / CVD restart where the profile window does
+  const resetOptions = useMemo(
+    () => resolveResetOptions(config, isLongTermMode),
+    [config.resetPolicy, config.startTime, config.resetAnchor, isLongTermMode]
+  );
+
+  // --- Anchored VWAPs ---
+  useEffect(() => {
+    saveVwapAnchors(VWAP_ANCHORS_STORAGE_KEY, vwapAnchors);
+  }, [vwapAnchors]);
+
+  const symbolAnchors = useMemo(() => vwapAnchors[config.symbol] || [], [vwapAnchors, config.symbol]);
+  const anchoredVwaps = useMemo(
+    () => calculateAnchoredVwaps(filteredCandles, symbolAnchors, orderBlocks),
+    [filteredCandles, symbolAnchors, orderBlocks]
+  );
+
+  const handleAddVwapAnchor = useCallback((kind: VwapAnchorKind, time: number | null) => {
+    setVwapAnchors(prev => {
+      const current = prev[config.symbol] || [];
+      const anchor: VwapAnchor = {
+        id: `${kind}-${Date.now()}`,
+        kind,
+        time,
+        color: VWAP_ANCHOR_COLORS[current.length % VWAP_ANCHOR_COLORS.length],
+      };
+      return { ...prev, [config.symbol]: [...current, anchor] };
+    });
+  }, [config.symbol]);
+
+  const handleRemoveVwapAnchor = useCallback((id: string) => {
+    setVwapAnchors(prev => ({ ...prev, [config.symbol]: (prev[config.symbol] || []).filter(a => a.id !== id) }));
+  }, [config.symbol]);
+
+  // --- Drawings ---
+  useEffect(() => {
+    saveDrawings(DRAWINGS_STORAGE_KEY, drawings);
+  }, [drawings]);
+
+  const symbolDrawings = useMemo(() => drawings[config.symbol] || [], [drawings, config.symbol]);
+  const handleDrawingsChange = useCallback((next: DrawingLine[]) => {
+    setDrawings(prev => ({ ...prev, [config.symbol]: next }));
+  }, [config.symbol]);
+
+  // --- Alerts ---
+  useEffect(() => {
+    saveAlertRules(ALERT_RULES_STORAGE_KEY, alertRules);
+  }, [alertRules]);
+
+  const handleFiredAlerts = useCallback((fired: AlertEvent[]) => {
+    if (fired.length === 0) return;
+    deliverAlerts(fired, alertRules);
+    webhooks.dispatch(fired, alertRules);
+    setAlertLog(prev => [...[...fired].reverse(), ...prev].slice(0, ALERT_LOG_LIMIT));
+    if (!showAlerts) setUnreadAlerts(n => n + fired.length);
+  }, [alertRules, showAlerts, webhooks]);
+
+  useEffect(() => {
+    handleFiredAlerts(alertEngine.evaluateRows(alertRules, screenerData));
+  }, [alertEngine, alertRules, screenerData, handleFiredAlerts]);
+
+  // Profile level touches on the live chart symbol
+  useEffect(() => {
+    // Candles are cleared on every symbol switch, so an empty set marks the new symbol as loaded next
+    if (filteredCandles.length === 0) {
+      chartAlertSymbolRef.current = config.symbol;
+      return;
+    }
+    if (!isLive || isLongTermMode || !activeProfile || chartAlertSymbolRef.current !== config.symbol) return;
+    const lastClose = filteredCandles[filteredCandles.length - 1].close;
+    handleFiredAlerts(alertEngine.evaluateLevels(alertRules, config.symbol, lastClose, activeProfile, config.tickSize));
+  }, [alertEngine, alertRules, filteredCandles, activeProfile, config.symbol, config.tickSize, isLive, isLongTermMode, handleFiredAlerts]);
+
+  const handleAuctionModeChange = useCallback((context: AuctionContext, price: number) => {
+    if (!isLive || isLongTermMode || chartAlertSymbolRef.current !== config.symbol) return;
+    handleFiredAlerts(alertEngine.evaluateAuction(alertRules, config.symbol, context, price));
+  }, [alertEngine, alertRules, config.symbol, isLive, isLongTermMode, handleFiredAlerts]);
+
+  // Auction modes only compare against what the chart saw last; leaving the symbol resets that
+  useEffect(() => {
+    const symbol = config.symbol;
+    return () => alertEngine.forgetAuction(symbol);
+  }, [alertEngine, config.symbol, viewMode, isLive, isLongTermMode]);
+
+  const handleFlowEvents = useCallback((symbol: string, events: PersistentEvent[]) => {
+    handleFiredAlerts(alertEngine.evaluateEvents(alertRules, symbol, events));
+  }, [alertEngine, alertRules, handleFiredAlerts]);
+
+  const handleAddAlertRule = useCallback((rule: AlertRule) => {
+    setAlertRules(prev => [...prev, rule]);
+  }, []);
+
+  const handleUpdateAlertRule = useCallback((id: string, patch: Partial<AlertRule>) => {
+    // A re-enabled rule starts clean instead of inheriting a stale trigger state
+    if (patch.enabled !== undefined) alertEngine.forgetRule(id);
+    setAlertRules(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  }, [alertEngine]);
+
+  const handleRemoveAlertRule = useCallback((id: string) => {
+    alertEngine.forgetRule(id);
+    setAlertRules(prev => prev.filter(r => r.id !== id));
+  }, [alertEngine]);
+
+  useEffect(() => {
+    saveWebhookDestinations(WEBHOOKS_STORAGE_KEY, webhookDestinations);
+    webhooks.setDestinations(webhookDestinations);
+  }, [webhooks, webhookDestinations]);
+
+  useEffect(() => {
+    const unsubscribe = webhooks.subscribe(setWebhookLog);
+    return () => {
+      unsubscribe();
+      webhooks.dispose();
+    };
+  }, [webhooks]);
+
+  const handleAddWebhook = useCallback((destination: WebhookDestination) => {
+    setWebhookDestinations(prev => [...prev, destination]);
+  }, []);
+
+  const handleUpdateWebhook = useCallback((id: string, patch: Partial<WebhookDestination>) => {
+    setWebhookDestinations(prev => prev.map(d => d.id === id ? { ...d, ...patch } : d));
+  }, []);
+
+  const handleRemoveWebhook = useCallback((id: string) => {
+    setWebhookDestinations(prev => prev.filter(d => d.id !== id));
+  }, []);
+
+  const handleTestWebhook = useCallback((destination: WebhookDestination) => {
+    webhooks.test(destination);
+  }, [webhooks]);
+
+  const radarSymbols = useMemo(() => radarSymbolsKey ? radarSymbolsKey.split(',') : [], [radarSymbolsKey]);
+
+  // Asia / London / NY profiles within the selected day
+  const namedSessions = useMemo(() => {
+    if (isLongTermMode || timeframe === '1d') return [];
+    return calculateNamedSessions(candles, config.sessions, config.tickSize, selectedDate);
+  }, [candles, config.sessions, config.tickSize, selectedDate, timeframe, isLongTermMode]);
+
+  // --- Composite Profile (previous sessions + today's) ---
+  useEffect(() => {
+    setCompositeHistory([]);
+    if (compositeDays <= 1 || isLongTermMode || viewMode !== 'screener') return;
+    let isActive = true;
+
+    const dayStart = new Date(`${selectedDate}T00:00:00Z`).getTime();
+    const from = dayStart - (compositeDays - 1) * DAY_MS;
+    adapter.fetchDailyCandles(config.symbol, from, dayStart - 1, COMPOSITE_TIMEFRAME)
+      .then(history => {
+        if (isActive) setCompositeHistory(history);
+      })
+      .catch(e => console.error('Composite history error', e));
+
+    return () => { isActive = false; };
+  }, [adapter, config.symbol, selectedDate, compositeDays, isLongTermMode, viewMode]);
+
+  const compositeProfile = useMemo(() => {
+    if (compositeDays <= 1 || compositeHistory.length === 0) return null;
+    const prior = compositeHistory.filter(c => isInSession(c.timestamp, config.startTime, config.endTime));
+    return calculateCompositeProfile([...prior, ...filteredCandles], config.tickSize, compositeDays);
+  }, [compositeHistory, filteredCandles, compositeDays, config.startTime, config.endTime, config.tickSize]);
+
   const handleConfigChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setConfig((prev) => ({ ...prev, [name]: name === 'tickSize' ? parseFloat(value) : value }));
   };
 
+  const handleSessionChange = (id: string, patch: Partial<SessionDefinition>) => {
+    setConfig(prev => ({ ...prev, sessions: prev.sessions.map(s => s.id === id ? { ...s, ...patch } : s) }));
+  };
+
   const handleSymbolSelect = (symbol: string) => {
     setConfig(prev => ({ ...prev, symbol }));
     if (!isChartFullscreen) window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -404,12 +856,70 @@ export default function App() {
     }
   };
 
+  // --- Watchlists ---
+  const favoriteList = watchlists.find(l => l.id === (activeListId ?? favoriteListId)) || watchlists[0];
+  const favorites = useMemo(() => new Set(favoriteList ? favoriteList.symbols : []), [favoriteList]);
+
+  useEffect(() => {
+    saveWatchlists(WATCHLISTS_STORAGE_KEY, watchlists);
+  }, [watchlists]);
+
+  const updateWatchlist = (id: string, update: (list: Watchlist) => Watchlist) => {
+    setWatchlists(prev => prev.map(l => l.id === id ? update(l) : l));
+  };
+
   const toggleFavorite = (symbol: string) => {
-    setFavorites(prev => {
-      const next = new Set(prev);
-      if (next.has(symbol)) next.delete(symbol); else next.add(symbol);
-      return next;
-    });
+    if (favoriteList) updateWatchlist(favoriteList.id, l => toggleWatchlistSymbol(l, symbol));
+  };
+
+  const handleSelectList = (id: string | null) => {
+    setActiveListId(id);
+    if (id) setFavoriteListId(id);
+  };
+
+  const handleCreateList = (name: string) => {
+    const id = `list-${Date.now()}`;
+    setWatchlists(prev => [...prev, { id, name, symbols: [] }]);
+    handleSelectList(id);
+  };
+
+  const handleDeleteList = (id: string) => {
+    setWatchlists(prev => prev.length > 1 ? prev.filter(l => l.id !== id) : prev);
+    if (activeListId === id) setActiveListId(null);
+    if (favoriteListId === id) setFavoriteListId(null);
+  };
+
+  const handleImportLists = async (file: File) => {
+    try {
+      const imported = parseWatchlists(await file.text());
+      setWatchlists(prev => mergeWatchlists(prev, imported));
+    } catch (e) {
+      window.alert(`Watchlist import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleExportLists = () => {
+    const blob = new Blob([serializeWatchlists(watchlists)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `watchlists-${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // --- HFT Grid ---
+  useEffect(() => {
+    saveHftGrid(HFT_GRID_STORAGE_KEY, hftGrid);
+  }, [hftGrid]);
+
+  const handleSaveHftLayout = (name: string) => {
+    setHftGrid(prev => ({ ...prev, layouts: saveHftLayout(prev.layouts, name, prev.symbols) }));
+  };
+
+  const handleOpenOrderFlow = (symbol: string) => {
+    handleSymbolSelect(symbol);
+    setViewMode('orderflow');
   };
 
   const chartTimeframes: Timeframe[] = ['5m', '15m', '1h', '4h', '1d'];
@@ -438,9 +948,15 @@ export default function App() {
           </div>
           
           <div className="flex items-center gap-4">
-              <div className={`px-3 py-1.5 rounded-full border flex items-center gap-2 text-[10px] font-bold uppercase tracking-wide transition-all ${isLive ? 'bg-green-900/10 border-green-800 text-green-400 shadow-[0_0_10px_rgba(34,197,94,0.1)]' : 'bg-yellow-900/10 border-yellow-800 text-yellow-400'}`}>
+              <button onClick={() => { setShowAlerts(v => !v); setUnreadAlerts(0); }} className={`relative flex items-center justify-center w-[34px] h-[34px] rounded-full border transition-colors ${showAlerts ? 'bg-yellow-900/20 border-yellow-700 text-yellow-400' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`} title="Alerts">
+                  <Bell size={14} />
+                  {unreadAlerts > 0 && (
+                      <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-600 text-white text-[9px] font-bold flex items-center justify-center">{unreadAlerts > 99 ? '99+' : unreadAlerts}</span>
+                  )}
+              </button>
+              <div className={`px-3 py-1.5 rounded-full border flex items-center gap-2 text-[10px] font-bold uppercase tracking-wide transition-all ${isFeedDegraded ? 'bg-orange-900/10 border-orange-800 text-orange-400' : isLive ? 'bg-green-900/10 border-green-800 text-green-400 shadow-[0_0_10px_rgba(34,197,94,0.1)]' : 'bg-yellow-900/10 border-yellow-800 text-yellow-400'}`}>
                   {isLive ? <Radio size={12} className={isLive ? "animate-pulse" : ""} /> : <Calendar size={12} />}
-                  {isLive ? 'Live Feed' : 'Historical Data'}
+                  {isFeedDegraded ? 'Reconnecting' : isLive ? 'Live Feed' : 'Historical Data'}
               </div>
           </div>
         </header>
@@ -465,6 +981,8 @@ export default function App() {
                         <button onClick={() => setChartIndicators(p => ({...p, volume: !p.volume}))} className={`px-2 h-full rounded flex items-center gap-1 text-[10px] font-bold ${chartIndicators.volume ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}><BarChart2 size={12} /> Vol</button>
                         <div className="w-px bg-gray-700 mx-0.5 h-4"></div>
                         <button onClick={() => setChartIndicators(p => ({...p, orderBlocks: !p.orderBlocks}))} className={`px-2 h-full rounded flex items-center gap-1 text-[10px] font-bold ${chartIndicators.orderBlocks ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}><BoxSelect size={12} /> OB</button>
+                        <div className="w-px bg-gray-700 mx-0.5 h-4"></div>
+                        <button onClick={() => setChartIndicators(p => ({...p, footprint: !p.footprint}))} disabled={isLongTermMode} title="Footprint (bid x ask per price)" className={`px-2 h-full rounded flex items-center gap-1 text-[10px] font-bold disabled:opacity-30 ${chartIndicators.footprint ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}><Grid3x3 size={12} /> FP</button>
                      </div>
 
                      <div className="flex flex-col items-end gap-1">
@@ -496,17 +1014,66 @@ export default function App() {
                         <input type="time" name="endTime" value={config.endTime} onChange={handleConfigChange} className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-sm text-gray-200 outline-none" />
                       </div>
                     </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">Exchange</label>
+                      <select value={exchangeId} onChange={(e) => setExchangeId(e.target.value as ExchangeId)} className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none">
+                        {Object.values(EXCHANGE_ADAPTERS).map(a => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                      </select>
+                    </div>
                     <div className="space-y-1">
                        <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">TPO Tick</label>
                        <input type="number" name="tickSize" value={config.tickSize} onChange={handleConfigChange} step="0.01" className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none" />
                     </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">Composite</label>
+                      <select value={compositeDays} onChange={(e) => setCompositeDays(Number(e.target.value))} disabled={isLongTermMode} className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none disabled:opacity-40">
+                        {COMPOSITE_DAY_OPTIONS.map(d => (
+                          <option key={d} value={d}>{d === 1 ? 'Off' : `Last ${d} sessions`}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">VWAP / CVD Reset</label>
+                      <select name="resetPolicy" value={config.resetPolicy} onChange={handleConfigChange} className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 outline-none">
+                        {(Object.keys(RESET_POLICY_LABELS) as ResetPolicy[]).map(p => (
+                          <option key={p} value={p}>{RESET_POLICY_LABELS[p]}</option>
+                        ))}
+                      </select>
+                      {config.resetPolicy === 'anchor' && (
+                        <input
+                          type="datetime-local"
+                          value={config.resetAnchor ? new Date(config.resetAnchor).toISOString().slice(0, 16) : ''}
+                          onChange={(e) => setConfig(prev => ({ ...prev, resetAnchor: e.target.value ? Date.parse(`${e.target.value}Z`) : undefined }))}
+                          className="w-full bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 outline-none"
+                        />
+                      )}
+                      {isLongTermMode && resetOptions.policy !== config.resetPolicy && (
+                        <span className="text-[10px] text-gray-600">Monthly in long-term mode</span>
+                      )}
+                    </div>
+                    <div className="space-y-1 col-span-2 md:col-span-3">
+                      <label className="text-[10px] uppercase text-gray-500 font-bold tracking-wider">Named Sessions (UTC)</label>
+                      <div className="flex flex-wrap gap-2">
+                        {config.sessions.map(s => (
+                          <div key={s.id} className={`flex items-center gap-1.5 bg-gray-900 border border-gray-700 rounded-lg px-2 py-1.5 ${s.enabled ? '' : 'opacity-50'}`}>
+                            <input type="checkbox" checked={s.enabled} onChange={(e) => handleSessionChange(s.id, { enabled: e.target.checked })} className="accent-blue-500" />
+                            <span className="text-xs font-bold w-16 truncate" style={{ color: s.color }}>{s.name}</span>
+                            <input type="time" value={s.startTime} onChange={(e) => handleSessionChange(s.id, { startTime: e.target.value })} className="bg-transparent text-xs text-gray-200 outline-none" />
+                            <span className="text-gray-600">-</span>
+                            <input type="time" value={s.endTime} onChange={(e) => handleSessionChange(s.id, { endTime: e.target.value })} className="bg-transparent text-xs text-gray-200 outline-none" />
+                          </div>
+                        ))}
+                      </div>
+                    </div>
                  </div>
               )}
 
               {/* Chart */}
-              {metrics && candles.length > 0 ? (
+              {activeProfile && candles.length > 0 ? (
                 <div className={`${isChartFullscreen ? 'flex-1' : ''}`}>
-                    <ProfileChart candles={filteredCandles} profile={metrics} orderBlocks={orderBlocks} width={dimensions.width} height={dimensions.height} showVolume={chartIndicators.volume} showOrderBlocks={chartIndicators.orderBlocks} />
+                    <ProfileChart candles={filteredCandles} profile={activeProfile} profileSource={profileSource} onProfileSourceChange={isLongTermMode ? undefined : setProfileSource} orderBlocks={orderBlocks} width={dimensions.width} height={dimensions.height} showVolume={chartIndicators.volume} showOrderBlocks={chartIndicators.orderBlocks} footprint={chartIndicators.footprint ? footprintBars : undefined} developing={developingProfile} composite={compositeProfile} priorLevels={priorLevels} tpo={tpoProfile} namedSessions={namedSessions} vwapAnchors={symbolAnchors} anchoredVwaps={anchoredVwaps} onAddVwapAnchor={handleAddVwapAnchor} onRemoveVwapAnchor={handleRemoveVwapAnchor} reset={resetOptions} drawings={symbolDrawings} onDrawingsChange={handleDrawingsChange} structure={marketStructure} onAuctionModeChange={handleAuctionModeChange} />
                 </div>
               ) : (
                 <div className={`${isChartFullscreen ? 'flex-1' : 'h-[500px]'} bg-gray-800/30 rounded-xl flex items-center justify-center border border-gray-700/50 border-dashed text-gray-500`}>
@@ -539,14 +1106,24 @@ export default function App() {
                             selectedSymbol={config.symbol} 
                             favorites={favorites}
                             onToggleFavorite={toggleFavorite}
+                            watchlists={watchlists}
+                            activeListId={activeListId}
+                            onSelectList={handleSelectList}
+                            onCreateList={handleCreateList}
+                            onRenameList={(id, name) => updateWatchlist(id, l => ({ ...l, name }))}
+                            onDeleteList={handleDeleteList}
+                            onMoveSymbol={(id, symbol, target) => updateWatchlist(id, l => moveWatchlistSymbol(l, symbol, target))}
+                            onImportLists={handleImportLists}
+                            onExportLists={handleExportLists}
+                            feedStatus={radarStatus}
                         />
                       </div>
                   </>
               )}
 
               {/* Bottom Intelligence HUD */}
-              {!isChartFullscreen && metrics && filteredCandles.length > 0 && (
-                 <SessionIntelligence candles={filteredCandles} profile={metrics} />
+              {!isChartFullscreen && activeProfile && filteredCandles.length > 0 && (
+                 <SessionIntelligence candles={filteredCandles} profile={activeProfile} profileSource={profileSource} sourceNote={profileSourceNote} onProfileSourceChange={isLongTermMode ? undefined : setProfileSource} />
               )}
 
             </div>
@@ -556,14 +1133,45 @@ export default function App() {
              <div className="mb-6 flex justify-between items-center">
                 <h2 className="text-xl font-bold text-white flex items-center gap-2"><Zap className="text-yellow-500 fill-yellow-500" /> HFT Engine <span className="text-xs bg-gray-800 text-gray-400 px-2 py-0.5 rounded ml-2 font-normal">Experimental</span></h2>
              </div>
-             <HFTEngine activeSymbols={['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT', 'BNBUSDT']} />
+             <HFTEngine
+                adapter={adapter}
+                symbols={hftGrid.symbols}
+                onSymbolsChange={(symbols) => setHftGrid(prev => ({ ...prev, symbols }))}
+                layouts={hftGrid.layouts}
+                onSaveLayout={handleSaveHftLayout}
+                onDeleteLayout={(id) => setHftGrid(prev => ({ ...prev, layouts: prev.layouts.filter(l => l.id !== id) }))}
+                watchlists={watchlists}
+                pinnedSymbol={config.symbol}
+                onOpenOrderFlow={handleOpenOrderFlow}
+             />
           </div>
         ) : (
           <div className="animate-in fade-in duration-300">
-             <OrderFlowDashboard symbol={config.symbol} />
+             <OrderFlowDashboard adapter={recordingAdapter} recorder={recorder} symbol={config.symbol} onEvents={handleFlowEvents} />
           </div>
         )}
       </div>
+
+      {showAlerts && (
+        <AlertCenter
+            rules={alertRules}
+            alerts={alertLog}
+            symbol={config.symbol}
+            symbols={radarSymbols}
+            onAddRule={handleAddAlertRule}
+            onUpdateRule={handleUpdateAlertRule}
+            onRemoveRule={handleRemoveAlertRule}
+            onClearLog={() => setAlertLog([])}
+            onSelectSymbol={handleSymbolSelect}
+            onClose={() => setShowAlerts(false)}
+            destinations={webhookDestinations}
+            deliveries={webhookLog}
+            onAddDestination={handleAddWebhook}
+            onUpdateDestination={handleUpdateWebhook}
+            onRemoveDestination={handleRemoveWebhook}
+            onTestDestination={handleTestWebhook}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { Bell, BellOff, Volume2, VolumeX, Trash2, X, Plus, Webhook } from 'lucide-react';
+import { AlertCondition, AlertEvent, AlertMetric, AlertRule, AuctionMode, ContextTag, EventState, SignalType, WebhookDelivery, WebhookDestination } from '../types';
+import { ALERT_METRIC_LABELS, DEFAULT_ALERT_COOLDOWN_MS, describeCondition } from '../utils/alertEngine';
+import { NotificationAccess, getNotificationAccess, requestNotificationAccess } from '../services/alertDelivery';
+import WebhookSettings from './WebhookSettings';
+
+interface AlertCenterProps {
+  rules: AlertRule[];
+  alerts: AlertEvent[];   // Newest first
+  symbol: string;         // Chart symbol, prefilled for new rules
+  symbols: string[];      // Radar symbols, offered as suggestions
+  onAddRule: (rule: AlertRule) => void;
+  onUpdateRule: (id: string, patch: Partial<AlertRule>) => void;
+  onRemoveRule: (id: string) => void;
+  onClearLog: () => void;
+  onSelectSymbol: (symbol: string) => void;
+  onClose: () => void;
+  destinations: WebhookDestination[];
+  deliveries: WebhookDelivery[];
+  onAddDestination: (destination: WebhookDestination) => void;
+  onUpdateDestination: (id: string, patch: Partial<WebhookDestination>) => void;
+  onRemoveDestination: (id: string) => void;
+  onTestDestination: (destination: WebhookDestination) => void;
+}
+
+type ConditionKind = AlertCondition['kind'];
+
+const CONDITION_KINDS: { kind: ConditionKind; label: string }[] = [
+  { kind: 'price', label: 'Price crossing' },
+  { kind: 'metric', label: 'Radar metric' },
+  { kind: 'signal', label: 'Order flow signal' },
+  { kind: 'context', label: 'Context tag' },
+  { kind: 'event', label: 'Persistent event' },
+  { kind: 'level', label: 'Profile level (chart)' },
+  { kind: 'auction', label: 'Auction mode (chart)' },
+];
+
+const SIGNALS: SignalType[] = ['AGG_BUY', 'AGG_SELL', 'ABSORPTION', 'ICEBERG', 'VACUUM', 'SQUEEZE'];
+const CONTEXT_TAGS: ContextTag[] = ['IN_BALANCE', 'TESTING_HIGH', 'TESTING_LOW', 'BREAKOUT', 'BREAKDOWN', 'AT_VWAP', 'OVEREXTENDED'];
+const EVENT_STATES: EventState[] = ['STACK', 'ABSORPTION', 'HOLDING', 'WEAKENING', 'FAIL', 'BROKEN'];
+const AUCTION_MODES: AuctionMode[] = ['BALANCED', 'ROTATIONAL', 'INITIATIVE_BUY', 'INITIATIVE_SELL', 'FAILED_AUCTION_HIGH', 'FAILED_AUCTION_LOW'];
+const COOLDOWN_MINUTES = [1, 5, 15, 60];
+
+const fmtTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none';
+
+const AlertCenter: React.FC<AlertCenterProps> = ({
+  rules, alerts, symbol, symbols, onAddRule, onUpdateRule, onRemoveRule, onClearLog, onSelectSymbol, onClose,
+  destinations, deliveries, onAddDestination, onUpdateDestination, onRemoveDestination, onTestDestination
+}) => {
+  const [access, setAccess] = useState<NotificationAccess>(getNotificationAccess);
+  const [tab, setTab] = useState<'rules' | 'webhooks'>('rules');
+
+  // New rule form
+  const [ruleSymbol, setRuleSymbol] = useState(symbol);
+  const [kind, setKind] = useState<ConditionKind>('metric');
+  const [price, setPrice] = useState('');
+  const [direction, setDirection] = useState<'above' | 'below'>('above');
+  const [field, setField] = useState<AlertMetric>('volZScore');
+  const [op, setOp] = useState<'gt' | 'lt'>('gt');
+  const [value, setValue] = useState('3');
+  const [signal, setSignal] = useState<SignalType>('ABSORPTION');
+  const [tag, setTag] = useState<ContextTag>('BREAKOUT');
+  const [eventState, setEventState] = useState<EventState>('FAIL');
+  const [eventSide, setEventSide] = useState<'bid' | 'ask' | 'any'>('any');
+  const [level, setLevel] = useState<'VAH' | 'POC' | 'VAL'>('POC');
+  const [auctionMode, setAuctionMode] = useState<AuctionMode | 'any'>('any');
+  const [cooldown, setCooldown] = useState(DEFAULT_ALERT_COOLDOWN_MS / 60000);
+
+  const buildCondition = (): AlertCondition | null => {
+    switch (kind) {
+      case 'price':
+        return price && Number(price) > 0 ? { kind, direction, price: Number(price) } : null;
+      case 'metric':
+        return value !== '' && Number.isFinite(Number(value)) ? { kind, field, op, value: Number(value) } : null;
+      case 'signal':
+        return { kind, signal };
+      case 'context':
+        return { kind, tag };
+      case 'event':
+        return { kind, state: eventState, side: eventSide };
+      case 'level':
+        return { kind, level };
+      case 'auction':
+        return { kind, mode: auctionMode };
+    }
+  };
+
+  const condition = buildCondition();
+  // Price crossings only make sense for one symbol
+  const symbolRequired = kind === 'price';
+  const canAdd = condition !== null && (!symbolRequired || ruleSymbol.trim() !== '');
+
+  const handleAdd = () => {
+    if (!condition || !canAdd) return;
+    onAddRule({
+      id: `alert-${Date.now()}`,
+      symbol: ruleSymbol.trim() ? ruleSymbol.trim().toUpperCase() : null,
+      condition,
+      cooldownMs: cooldown * 60000,
+      enabled: true,
+      notify: true,
+      sound: true,
+      webhook: destinations.some(d => d.enabled),
+    });
+  };
+
+  const handleEnableNotifications = async () => {
+    setAccess(await requestNotificationAccess());
+  };
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-[380px] z-50 bg-[#0d1117] border-l border-gray-800 shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800 bg-[#0b0e11]">
+        <div className="flex items-center gap-2 text-sm font-bold text-gray-200">
+          <Bell size={16} className="text-yellow-500" /> Alerts
+        </div>
+        <div className="flex items-center gap-2">
+          {access === 'granted' ? (
+            <span className="text-[10px] text-green-500 font-bold uppercase">Notifications on</span>
+          ) : access === 'unsupported' ? (
+            <span className="text-[10px] text-gray-600 font-bold uppercase">No notifications</span>
+          ) : (
+            <button onClick={handleEnableNotifications} disabled={access === 'denied'} className="text-[10px] font-bold uppercase px-2 py-1 rounded border border-yellow-700 text-yellow-500 hover:bg-yellow-900/20 disabled:opacity-40" title={access === 'denied' ? 'Blocked in the browser settings' : 'Allow browser notifications'}>
+              {access === 'denied' ? 'Blocked' : 'Enable popups'}
+            </button>
+          )}
+          <button onClick={onClose} className="text-gray-500 hover:text-white"><X size={16} /></button>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex border-b border-gray-800 text-[10px] font-bold uppercase">
+        <button onClick={() => setTab('rules')} className={`flex-1 py-2 ${tab === 'rules' ? 'text-white border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-300'}`}>Rules & Log</button>
+        <button onClick={() => setTab('webhooks')} className={`flex-1 py-2 ${tab === 'webhooks' ? 'text-white border-b-2 border-blue-500' : 'text-gray-500 hover:text-gray-300'}`}>Webhooks ({destinations.filter(d => d.enabled).length})</button>
+      </div>
+
+      {tab === 'webhooks' ? (
+        <WebhookSettings
+          destinations={destinations}
+          deliveries={deliveries}
+          onAdd={onAddDestination}
+          onUpdate={onUpdateDestination}
+          onRemove={onRemoveDestination}
+          onTest={onTestDestination}
+        />
+      ) : (
+        <>
+          {/* New Rule */}
+          <div className="p-4 border-b border-gray-800 space-y-2">
+            <div className="flex items-center gap-2">
+              <input list="alert-symbols" value={ruleSymbol} onChange={(e) => setRuleSymbol(e.target.value)} placeholder="All symbols" className={`${inputClass} w-32`} />
+              <datalist id="alert-symbols">
+                {symbols.map(s => <option key={s} value={s} />)}
+              </datalist>
+              <select value={kind} onChange={(e) => setKind(e.target.value as ConditionKind)} className={`${inputClass} flex-1`}>
+                {CONDITION_KINDS.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+              </select>
+            </div>
+
+            <div className="flex items-center gap-2">
+              {kind === 'price' && (
+                <>
+                  <select value={direction} onChange={(e) => setDirection(e.target.value as 'above' | 'below')} className={inputClass}>
+                    <option value="above">Crosses above</option>
+                    <option value="below">Crosses below</option>
+                  </select>
+                  <input type="number" value={price} onChange={(e) => setPrice(e.target.value)} placeholder="Price" className={`${inputClass} flex-1`} />
+                </>
+              )}
+              {kind === 'metric' && (
+                <>
+                  <select value={field} onChange={(e) => setField(e.target.value as AlertMetric)} className={inputClass}>
+                    {(Object.keys(ALERT_METRIC_LABELS) as AlertMetric[]).map(f => <option key={f} value={f}>{ALERT_METRIC_LABELS[f]}</option>)}
+                  </select>
+                  <select value={op} onChange={(e) => setOp(e.target.value as 'gt' | 'lt')} className={inputClass}>
+                    <option value="gt">&gt;</option>
+                    <option value="lt">&lt;</option>
+                  </select>
+                  <input type="number" value={value} onChange={(e) => setValue(e.target.value)} step="0.1" className={`${inputClass} flex-1`} />
+                </>
+              )}
+              {kind === 'signal' && (
+                <select value={signal} onChange={(e) => setSignal(e.target.value as SignalType)} className={`${inputClass} flex-1`}>
+                  {SIGNALS.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              )}
+              {kind === 'context' && (
+                <select value={tag} onChange={(e) => setTag(e.target.value as ContextTag)} className={`${inputClass} flex-1`}>
+                  {CONTEXT_TAGS.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              )}
+              {kind === 'event' && (
+                <>
+                  <select value={eventSide} onChange={(e) => setEventSide(e.target.value as 'bid' | 'ask' | 'any')} className={inputClass}>
+                    <option value="any">Any side</option>
+                    <option value="bid">Bid</option>
+                    <option value="ask">Ask</option>
+                  </select>
+                  <select value={eventState} onChange={(e) => setEventState(e.target.value as EventState)} className={`${inputClass} flex-1`}>
+                    {EVENT_STATES.map(s => <option key={s} value={s}>Enters {s}</option>)}
+                  </select>
+                </>
+              )}
+              {kind === 'level' && (
+                <select value={level} onChange={(e) => setLevel(e.target.value as 'VAH' | 'POC' | 'VAL')} className={`${inputClass} flex-1`}>
+                  <option value="VAH">Touches VAH</option>
+                  <option value="POC">Touches POC</option>
+                  <option value="VAL">Touches VAL</option>
+                </select>
+              )}
+              {kind === 'auction' && (
+                <select value={auctionMode} onChange={(e) => setAuctionMode(e.target.value as AuctionMode | 'any')} className={`${inputClass} flex-1`}>
+                  <option value="any">Any mode change</option>
+                  {AUCTION_MODES.map(m => <option key={m} value={m}>Changes to {m}</option>)}
+                </select>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-gray-500 uppercase font-bold">Cooldown</span>
+              <select value={cooldown} onChange={(e) => setCooldown(Number(e.target.value))} className={inputClass}>
+                {COOLDOWN_MINUTES.map(m => <option key={m} value={m}>{m}m</option>)}
+              </select>
+              <button onClick={handleAdd} disabled={!canAdd} className="ml-auto flex items-center gap-1 px-3 py-1 rounded bg-blue-600 text-white text-xs font-bold disabled:opacity-40">
+                <Plus size={12} /> Add
+              </button>
+            </div>
+            {kind === 'event' && <p className="text-[10px] text-gray-600">Evaluated while the Order Flow view is live.</p>}
+            {(kind === 'level' || kind === 'auction') && <p className="text-[10px] text-gray-600">Evaluated for the chart symbol on the live session.</p>}
+          </div>
+
+          {/* Rules */}
+          <div className="max-h-[35%] overflow-y-auto border-b border-gray-800">
+            {rules.length === 0 && <div className="px-4 py-3 text-xs text-gray-600">No rules yet.</div>}
+            {rules.map(rule => (
+              <div key={rule.id} className={`flex items-center gap-2 px-4 py-2 border-b border-gray-800/50 text-xs ${rule.enabled ? '' : 'opacity-50'}`}>
+                <input type="checkbox" checked={rule.enabled} onChange={(e) => onUpdateRule(rule.id, { enabled: e.target.checked })} className="accent-blue-500" />
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold text-gray-300 truncate">{rule.symbol || 'All symbols'}</div>
+                  <div className="text-[10px] text-gray-500 truncate">{describeCondition(rule.condition)} · {rule.cooldownMs / 60000}m</div>
+                </div>
+                <button onClick={() => onUpdateRule(rule.id, { notify: !rule.notify })} className={rule.notify ? 'text-yellow-500' : 'text-gray-600'} title="Browser notification">
+                  {rule.notify ? <Bell size={12} /> : <BellOff size={12} />}
+                </button>
+                <button onClick={() => onUpdateRule(rule.id, { sound: !rule.sound })} className={rule.sound ? 'text-blue-400' : 'text-gray-600'} title="Sound">
+                  {rule.sound ? <Volume2 size={12} /> : <VolumeX size={12} />}
+                </button>
+                <button onClick={() => onUpdateRule(rule.id, { webhook: !rule.webhook })} className={rule.webhook ? 'text-purple-400' : 'text-gray-600'} title="Webhooks">
+                  <Webhook size={12} />
+                </button>
+                <button onClick={() => onRemoveRule(rule.id)} className="text-gray-600 hover:text-red-400" title="Delete rule"><Trash2 size={12} /></button>
+              </div>
+            ))}
+          </div>
+
+          {/* Log */}
+          <div className="flex items-center justify-between px-4 py-2 text-[10px] font-bold uppercase text-gray-500">
+            <span>Alert Log ({alerts.length})</span>
+            {alerts.length > 0 && <button onClick={onClearLog} className="hover:text-white">Clear</button>}
+          </div>
+          <div className="flex-1 overflow-y-auto">
+            {alerts.map(alert => (
+              <div key={alert.id} onClick={() => onSelectSymbol(alert.symbol)} className="px-4 py-2 border-b border-gray-800/40 cursor-pointer hover:bg-gray-800/40">
+                <div className="flex justify-between text-xs">
+                  <span className="font-bold text-gray-200">{alert.symbol}</span>
+                  <span className="font-mono text-gray-600">{fmtTime(alert.time)}</span>
+                </div>
+                <div className="text-[11px] text-gray-400">{alert.message}</div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AlertCenter;
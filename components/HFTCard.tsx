@@ -1,11 +1,26 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { Activity, Clock, AlertTriangle, Zap, Droplets, Skull, Wind, Layers } from 'lucide-react';
+import { Activity, Clock, AlertTriangle, Zap, Droplets, Skull, Wind, Layers, Pin, X } from 'lucide-react';
+import { OrderBookView, Trade } from '../types';
+
+export interface OrderFlowListener {
+  onTrade: (trade: Trade) => void;
+  onDepth: (book: OrderBookView) => void;
+}
+
+// Registers a card on the grid's shared order-flow connection; returns the unregister call
+export type OrderFlowFeed = (symbol: string, listener: OrderFlowListener) => () => void;
 
 interface HFTCardProps {
+  feed: OrderFlowFeed;
   symbol: string;
+  isPinned?: boolean; // Symbol is the one open in Order Flow
+  onPin?: (symbol: string) => void;
+  onRemove?: (symbol: string) => void;
 }
 
+const IMBALANCE_DEPTH = 5; // Top-of-book levels used for imbalance
+
 const MAX_HISTORY = 50;
 
 type HFTState = 
@@ -16,7 +31,7 @@ type HFTState =
   | 'TOXIC_FLOW' 
   | 'LIQUIDITY_VACUUM';
 
-export const HFTCard: React.FC<HFTCardProps> = ({ symbol }) => {
+export const HFTCard: React.FC<HFTCardProps> = ({ feed, symbol, isPinned = false, onPin, onRemove }) => {
   // --- Raw Metric State ---
   const [price, setPrice] = useState<number>(0);
   const [currentTps, setCurrentTps] = useState(0);
@@ -36,45 +51,41 @@ export const HFTCard: React.FC<HFTCardProps> = ({ symbol }) => {
   const largeOrderCountRef = useRef(0);
   const totalOrderCountRef = useRef(0);
 
-  // --- WebSockets ---
+  // --- Market Data (Trades + Depth via the grid's shared feed) ---
+  useEffect(() => {
+    const unsubscribe = feed(symbol, {
+      // 1. Aggregated Trades
+      onTrade: (trade) => {
+        setPrice(trade.price);
+
+        // Update Counters
+        tradeCountRef.current += 1;
+        totalOrderCountRef.current += 1;
+
+        const usdValue = trade.price * trade.qty;
+        if (usdValue > 10000) largeOrderCountRef.current += 1;
+
+        if (trade.isBuyerMaker) sellVolRef.current += trade.qty;
+        else buyVolRef.current += trade.qty;
+      },
+      // 2. Depth (Imbalance)
+      onDepth: (book) => {
+        const bidVol = book.getBids(IMBALANCE_DEPTH).reduce((acc, l) => acc + l.qty, 0);
+        const askVol = book.getAsks(IMBALANCE_DEPTH).reduce((acc, l) => acc + l.qty, 0);
+
+        const total = bidVol + askVol;
+        if (total > 0) {
+          // Imbalance = (Bid - Ask) / Total -> -1 to 1
+          setCurrentImbalance((bidVol - askVol) / total);
+        }
+      },
+    });
+
+    return () => unsubscribe();
+  }, [feed, symbol]);
+
+  // --- The HFT Brain (kept separate so metric updates don't resubscribe / resync the book) ---
   useEffect(() => {
-    // 1. Aggregated Trades Stream
-    const wsTrade = new WebSocket(`wss://fstream.binance.com/ws/${symbol.toLowerCase()}@aggTrade`);
-    
-    wsTrade.onmessage = (event) => {
-      const msg = JSON.parse(event.data);
-      const p = parseFloat(msg.p);
-      const q = parseFloat(msg.q);
-      const isMarketMaker = msg.m; 
-
-      setPrice(p);
-      
-      // Update Counters
-      tradeCountRef.current += 1;
-      totalOrderCountRef.current += 1;
-
-      const usdValue = p * q;
-      if (usdValue > 10000) largeOrderCountRef.current += 1;
-
-      if (isMarketMaker) sellVolRef.current += q;
-      else buyVolRef.current += q;
-    };
-
-    // 2. Depth Stream (Imbalance)
-    const wsDepth = new WebSocket(`wss://fstream.binance.com/ws/${symbol.toLowerCase()}@depth5@100ms`);
-    
-    wsDepth.onmessage = (event) => {
-      const msg = JSON.parse(event.data);
-      const bidVol = msg.b.reduce((acc: number, item: string[]) => acc + parseFloat(item[1]), 0);
-      const askVol = msg.a.reduce((acc: number, item: string[]) => acc + parseFloat(item[1]), 0);
-      
-      const total = bidVol + askVol;
-      if (total > 0) {
-        // Imbalance = (Bid - Ask) / Total -> -1 to 1
-        setCurrentImbalance((bidVol - askVol) / total);
-      }
-    };
-
     // --- The HFT Brain (500ms Tick) ---
     const interval = setInterval(() => {
       // 1. Calculate Raw Metrics
@@ -132,12 +143,8 @@ export const HFTCard: React.FC<HFTCardProps> = ({ symbol }) => {
 
     }, 500);
 
-    return () => {
-      wsTrade.close();
-      wsDepth.close();
-      clearInterval(interval);
-    };
-  }, [symbol, currentTps, buyPressure, currentImbalance]); // Deps for state calculation context
+    return () => clearInterval(interval);
+  }, [currentTps, buyPressure, currentImbalance]); // Deps for state calculation context
 
   // --- Semantic Helpers ---
 
@@ -177,13 +184,23 @@ export const HFTCard: React.FC<HFTCardProps> = ({ symbol }) => {
   const stateStyle = getStateStyle(hftState);
 
   return (
-    <div className="bg-[#0b0e11] border border-gray-800 rounded-xl p-4 flex flex-col gap-4 relative overflow-hidden transition-all hover:border-gray-700 h-[220px]">
+    <div className={`group bg-[#0b0e11] border rounded-xl p-4 flex flex-col gap-4 relative overflow-hidden transition-all h-[220px] ${isPinned ? 'border-blue-500/60' : 'border-gray-800 hover:border-gray-700'}`}>
       
       {/* 1. Identity & Price */}
       <div className="flex justify-between items-start">
         <div>
           <h3 className="text-sm font-bold text-gray-200 flex items-center gap-2">
             {symbol.replace('USDT', '')}
+            {onPin && (
+              <button onClick={() => onPin(symbol)} className={isPinned ? 'text-blue-400' : 'text-gray-600 hover:text-blue-400 opacity-0 group-hover:opacity-100'} title="Open in Order Flow">
+                <Pin size={12} />
+              </button>
+            )}
+            {onRemove && (
+              <button onClick={() => onRemove(symbol)} className="text-gray-600 hover:text-red-400 opacity-0 group-hover:opacity-100" title="Remove from grid">
+                <X size={12} />
+              </button>
+            )}
           </h3>
           <div className="text-xs text-gray-500 font-mono mt-0.5">${price.toFixed(price < 1 ? 4 : 2)}</div>
         </div>
@@ -1,24 +1,199 @@
-import React from 'react';
-import { HFTCard } from './HFTCard';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { HFTCard, OrderFlowFeed, OrderFlowListener } from './HFTCard';
+import { ExchangeAdapter } from '../services/marketData';
+import { ConnectionStatus, HFTLayout, Watchlist } from '../types';
+import { HFT_MAX_SYMBOLS, addHftSymbol } from '../utils/hftLayouts';
+import { moveSymbol } from '../utils/watchlists';
 
 interface HFTEngineProps {
-  activeSymbols: string[];
+  adapter: ExchangeAdapter;
+  symbols: string[];
+  onSymbolsChange: (symbols: string[]) => void;
+  layouts: HFTLayout[];
+  onSaveLayout: (name: string) => void;
+  onDeleteLayout: (id: string) => void;
+  watchlists: Watchlist[];
+  pinnedSymbol: string;
+  onOpenOrderFlow: (symbol: string) => void;
 }
 
-const HFTEngine: React.FC<HFTEngineProps> = ({ activeSymbols }) => {
+const PICKER_UNIVERSE = 100;
+const PICKER_RESULTS = 40;
+
+const selectClass = 'bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-xs text-gray-200 outline-none';
+
+const HFTEngine: React.FC<HFTEngineProps> = ({
+  adapter, symbols, onSymbolsChange, layouts, onSaveLayout, onDeleteLayout, watchlists, pinnedSymbol, onOpenOrderFlow
+}) => {
+  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.CONNECTING);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [universe, setUniverse] = useState<string[]>([]);
+  const [query, setQuery] = useState('');
+  const [dragSymbol, setDragSymbol] = useState<string | null>(null);
+  const [layoutId, setLayoutId] = useState('');
+
+  // --- Shared Connection ---
+  // Cards register here; one multiplexed subscription feeds them all
+  const listenersRef = useRef<Map<string, OrderFlowListener>>(new Map());
+
+  const feed = useCallback<OrderFlowFeed>((symbol, listener) => {
+    listenersRef.current.set(symbol, listener);
+    return () => {
+      if (listenersRef.current.get(symbol) === listener) listenersRef.current.delete(symbol);
+    };
+  }, []);
+
+  // Sorted so reordering cards doesn't reconnect
+  const streamKey = useMemo(() => [...symbols].sort().join(','), [symbols]);
+
+  useEffect(() => {
+    if (!streamKey) return;
+    const unsubscribe = adapter.subscribeToOrderFlows(
+      streamKey.split(','),
+      (symbol, trade) => listenersRef.current.get(symbol)?.onTrade(trade),
+      (symbol, book) => listenersRef.current.get(symbol)?.onDepth(book),
+      setStatus
+    );
+    return () => unsubscribe();
+  }, [adapter, streamKey]);
+
+  // --- Symbol Picker ---
+  useEffect(() => {
+    setUniverse([]);
+  }, [adapter]);
+
+  useEffect(() => {
+    if (!pickerOpen || universe.length > 0) return;
+    let cancelled = false;
+    adapter.fetchTopSymbols(PICKER_UNIVERSE)
+      .then(list => { if (!cancelled) setUniverse(list); })
+      .catch(e => console.error('HFT symbol picker load failed', e));
+    return () => { cancelled = true; };
+  }, [adapter, pickerOpen, universe.length]);
+
+  const candidates = useMemo(() => {
+    const q = query.trim().toUpperCase();
+    return universe.filter(s => !symbols.includes(s) && s.includes(q)).slice(0, PICKER_RESULTS);
+  }, [universe, symbols, query]);
+
+  const isFull = symbols.length >= HFT_MAX_SYMBOLS;
+
+  const handleAdd = (symbol: string) => {
+    onSymbolsChange(addHftSymbol(symbols, symbol));
+    setQuery('');
+  };
+
+  const handleRemove = (symbol: string) => onSymbolsChange(symbols.filter(s => s !== symbol));
+
+  // --- Layouts ---
+  const handleLoadLayout = (id: string) => {
+    setLayoutId(id);
+    const layout = layouts.find(l => l.id === id);
+    if (layout) onSymbolsChange(layout.symbols.slice(0, HFT_MAX_SYMBOLS));
+  };
+
+  const handleSaveLayout = () => {
+    const current = layouts.find(l => l.id === layoutId);
+    const name = window.prompt('Save grid as', current?.name || 'Layout')?.trim();
+    if (name) onSaveLayout(name);
+  };
+
+  const handleDeleteLayout = () => {
+    const layout = layouts.find(l => l.id === layoutId);
+    if (!layout || !window.confirm(`Delete layout "${layout.name}"?`)) return;
+    onDeleteLayout(layout.id);
+    setLayoutId('');
+  };
+
+  const handleLoadWatchlist = (id: string) => {
+    const list = watchlists.find(l => l.id === id);
+    if (list) onSymbolsChange(list.symbols.slice(0, HFT_MAX_SYMBOLS));
+  };
+
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-      {activeSymbols.map(symbol => (
-        <HFTCard key={symbol} symbol={symbol} />
-      ))}
-      
-      {/* Add Button Placeholder (Visual only) */}
-      <div className="border border-dashed border-gray-800 rounded-lg flex flex-col items-center justify-center p-8 text-gray-600 hover:text-gray-400 hover:border-gray-600 cursor-pointer transition-colors min-h-[400px]">
-        <span className="text-4xl mb-2">+</span>
-        <span className="text-xs uppercase tracking-widest">Add Symbol</span>
+    <div className="flex flex-col gap-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[9px] text-gray-500 font-bold uppercase">Layout</span>
+        <select value={layoutId} onChange={(e) => handleLoadLayout(e.target.value)} className={selectClass}>
+          <option value="">Unsaved</option>
+          {layouts.map(l => <option key={l.id} value={l.id}>{l.name} ({l.symbols.length})</option>)}
+        </select>
+        <button onClick={handleSaveLayout} disabled={symbols.length === 0} className="text-gray-500 hover:text-blue-400 disabled:opacity-40" title="Save grid as a layout"><Save size={14} /></button>
+        {layoutId && <button onClick={handleDeleteLayout} className="text-gray-600 hover:text-red-400" title="Delete layout"><Trash2 size={14} /></button>}
+
+        <span className="text-[9px] text-gray-500 font-bold uppercase ml-3">From list</span>
+        <select value="" onChange={(e) => handleLoadWatchlist(e.target.value)} className={selectClass}>
+          <option value="">Choose...</option>
+          {watchlists.map(l => <option key={l.id} value={l.id}>{l.name} ({l.symbols.length})</option>)}
+        </select>
+
+        <span className="ml-auto text-[10px] text-gray-600 font-mono">{symbols.length}/{HFT_MAX_SYMBOLS}</span>
+        {symbols.length > 0 && status !== ConnectionStatus.CONNECTED && (
+          <span className={`text-[10px] font-mono font-bold uppercase px-1.5 py-0.5 border rounded ${status === ConnectionStatus.ERROR ? 'text-rose-400 border-rose-900/50' : 'text-yellow-500 border-yellow-900/50 animate-pulse'}`}>
+            {status}
+          </span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {symbols.map(symbol => (
+          <div
+            key={symbol}
+            draggable
+            onDragStart={() => setDragSymbol(symbol)}
+            onDragEnd={() => setDragSymbol(null)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => {
+              if (dragSymbol) onSymbolsChange(moveSymbol(symbols, dragSymbol, symbol));
+              setDragSymbol(null);
+            }}
+            className={`cursor-grab ${dragSymbol === symbol ? 'opacity-40' : ''}`}
+          >
+            <HFTCard feed={feed} symbol={symbol} isPinned={symbol === pinnedSymbol} onPin={onOpenOrderFlow} onRemove={handleRemove} />
+          </div>
+        ))}
+
+        {/* Add Symbol */}
+        {pickerOpen ? (
+          <div className="border border-gray-700 rounded-xl p-3 flex flex-col gap-2 h-[220px]">
+            <div className="flex items-center gap-2">
+              <input
+                autoFocus
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && candidates[0]) handleAdd(candidates[0]);
+                  if (e.key === 'Escape') setPickerOpen(false);
+                }}
+                placeholder="Search symbol"
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none"
+              />
+              <button onClick={() => setPickerOpen(false)} className="text-[10px] text-gray-500 hover:text-gray-300 uppercase font-bold">Done</button>
+            </div>
+            {isFull ? (
+              <div className="text-[10px] text-gray-500">Grid is full ({HFT_MAX_SYMBOLS}). Remove a card to add another.</div>
+            ) : (
+              <div className="flex flex-wrap gap-1 overflow-y-auto">
+                {universe.length === 0 && <span className="text-[10px] text-gray-600">Loading symbols...</span>}
+                {candidates.map(s => (
+                  <button key={s} onClick={() => handleAdd(s)} className="px-2 py-0.5 rounded bg-gray-800 hover:bg-gray-700 text-[11px] font-mono text-gray-300">
+                    {s.replace('USDT', '')}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div onClick={() => setPickerOpen(true)} className="border border-dashed border-gray-800 rounded-xl flex flex-col items-center justify-center p-8 text-gray-600 hover:text-gray-400 hover:border-gray-600 cursor-pointer transition-colors h-[220px]">
+            <span className="text-4xl mb-2">+</span>
+            <span className="text-xs uppercase tracking-widest">Add Symbol</span>
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-export default HFTEngine;
\ No newline at end of file
+export default HFTEngine;
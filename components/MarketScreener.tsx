@@ -1,17 +1,28 @@
 
-import React, { useState, useMemo, memo } from 'react';
-import { ScreenerRow, SortConfig, SignalType, ContextTag, SymbolStatus } from '../types';
+import React, { useState, useMemo, useRef, memo } from 'react';
+import { ScreenerRow, SortConfig, SignalType, ContextTag, SymbolStatus, ConnectionStatus, Watchlist } from '../types';
 import { 
   ArrowUp, ArrowDown, Filter, Zap, Activity, 
-  BarChart2, Flame, AlertTriangle, MousePointer2, Clock, Map, Loader2 
+  BarChart2, Flame, AlertTriangle, MousePointer2, Clock, Map, Loader2,
+  Plus, X, Upload, Download, ListOrdered
 } from 'lucide-react';
 
 interface MarketScreenerProps {
   data: ScreenerRow[];
   onSelectSymbol: (symbol: string) => void;
   selectedSymbol: string;
-  favorites: Set<string>;
+  favorites: Set<string>; // Symbols of the list the row dot toggles (the active tab, Favorites on All)
   onToggleFavorite: (symbol: string) => void;
+  feedStatus?: ConnectionStatus; // All-market ticker stream
+  watchlists: Watchlist[];
+  activeListId: string | null; // null = every radar symbol
+  onSelectList: (id: string | null) => void;
+  onCreateList: (name: string) => void;
+  onRenameList: (id: string, name: string) => void;
+  onDeleteList: (id: string) => void;
+  onMoveSymbol: (listId: string, symbol: string, target: string) => void;
+  onImportLists: (file: File) => void;
+  onExportLists: () => void;
 }
 
 // --- Sub-components for Performance ---
@@ -76,6 +87,26 @@ const SignalBadge = memo(({ type, confidence, duration }: { type: SignalType; co
   );
 });
 
+const Sparkline = memo(({ points }: { points: number[] }) => {
+  if (points.length < 2) return null;
+
+  const width = 64;
+  const height = 18;
+  const min = Math.min(...points);
+  const max = Math.max(...points);
+  const range = max - min || 1;
+  const path = points
+    .map((p, i) => `${((i / (points.length - 1)) * width).toFixed(1)},${(height - ((p - min) / range) * height).toFixed(1)}`)
+    .join(' ');
+  const isUp = points[points.length - 1] >= points[0];
+
+  return (
+    <svg width={width} height={height} className="shrink-0 opacity-80">
+      <polyline points={path} fill="none" stroke={isUp ? '#22c55e' : '#ef4444'} strokeWidth={1} />
+    </svg>
+  );
+});
+
 const AttentionBar = memo(({ score }: { score: number }) => {
   const getColor = (s: number) => {
     if (s > 80) return 'bg-[#00ffd9] shadow-[0_0_8px_#00ffd9]';
@@ -100,15 +131,39 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
   onSelectSymbol, 
   selectedSymbol, 
   favorites,
-  onToggleFavorite 
+  onToggleFavorite,
+  feedStatus,
+  watchlists,
+  activeListId,
+  onSelectList,
+  onCreateList,
+  onRenameList,
+  onDeleteList,
+  onMoveSymbol,
+  onImportLists,
+  onExportLists
 }) => {
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'attentionScore', direction: 'desc' });
   const [hoveredSymbol, setHoveredSymbol] = useState<string | null>(null);
   const [contextMode, setContextMode] = useState(false); // Toggle for Detail View
+  // List tabs show the list's own order until a column is sorted
+  const [manualOrder, setManualOrder] = useState(true);
+  const [dragSymbol, setDragSymbol] = useState<string | null>(null);
+  const [newSymbol, setNewSymbol] = useState('');
+  const [addError, setAddError] = useState<string | null>(null); // "+ Symbol" input not on the radar
+  const importInput = useRef<HTMLInputElement>(null);
+
+  const activeList = watchlists.find(l => l.id === activeListId) || null;
+  const canReorder = !!activeList && manualOrder;
 
   // 1. Sort & Filter
   const processedData = useMemo(() => {
-    const sorted = [...data].sort((a, b) => {
+    if (activeList) {
+      const listRows = data.filter(r => activeList.symbols.includes(r.symbol));
+      if (manualOrder) return listRows.sort((a, b) => activeList.symbols.indexOf(a.symbol) - activeList.symbols.indexOf(b.symbol));
+    }
+    const source = activeList ? data.filter(r => activeList.symbols.includes(r.symbol)) : data;
+    const sorted = [...source].sort((a, b) => {
        // Always put active symbols first unless sorting by something else specific
        // Actually, maintaining sort order is better, but maybe de-prioritize INITIALIZING
        if (a.status === 'INITIALIZING' && b.status !== 'INITIALIZING') return 1;
@@ -123,9 +178,49 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
        return 0;
     });
     return sorted;
-  }, [data, sortConfig]);
+  }, [data, sortConfig, activeList, manualOrder]);
+
+  // List symbols outside the radar's top symbols have no row; they get chips instead
+  const radarSymbols = useMemo(() => new Set(data.map(r => r.symbol)), [data]);
+  const missingSymbols = useMemo(
+    () => activeList ? activeList.symbols.filter(s => !radarSymbols.has(s)) : [],
+    [activeList, radarSymbols]
+  );
+
+  const selectList = (id: string | null) => {
+      setManualOrder(true);
+      onSelectList(id);
+  };
+
+  const handleCreateList = () => {
+      const name = window.prompt('List name');
+      if (name && name.trim()) onCreateList(name.trim());
+  };
+
+  const handleRenameList = (list: Watchlist) => {
+      const name = window.prompt('Rename list', list.name);
+      if (name && name.trim()) onRenameList(list.id, name.trim());
+  };
+
+  const handleDeleteList = (list: Watchlist) => {
+      if (window.confirm(`Delete "${list.name}"?`)) onDeleteList(list.id);
+  };
+
+  const handleAddSymbol = (e: React.FormEvent) => {
+      e.preventDefault();
+      const symbol = newSymbol.trim().toUpperCase();
+      if (!activeList || !symbol) return;
+      if (!radarSymbols.has(symbol)) {
+          setAddError(`${symbol} is not on the radar`);
+          return;
+      }
+      if (!activeList.symbols.includes(symbol)) onToggleFavorite(symbol);
+      setNewSymbol('');
+      setAddError(null);
+  };
 
   const handleSort = (key: keyof ScreenerRow) => {
+      setManualOrder(false);
       setSortConfig(current => ({
           key,
           direction: current.key === key && current.direction === 'desc' ? 'asc' : 'desc'
@@ -150,6 +245,11 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
                   {processedData.filter(d => d.status === 'ACTIVE').length} ACTIVE
                   {processedData.some(d => d.status === 'WARMING_UP') && <span className="ml-1 text-yellow-600">({processedData.filter(d => d.status === 'WARMING_UP').length} WARM)</span>}
               </span>
+              {feedStatus && feedStatus !== ConnectionStatus.CONNECTED && (
+                  <span className={`text-[10px] font-mono font-bold uppercase px-1.5 py-0.5 border rounded ${feedStatus === ConnectionStatus.ERROR ? 'text-rose-400 border-rose-900/50' : 'text-yellow-500 border-yellow-900/50 animate-pulse'}`}>
+                      {feedStatus}
+                  </span>
+              )}
           </div>
           
           <div className="flex items-center gap-3">
@@ -178,6 +278,51 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
           </div>
       </div>
 
+      {/* Watchlist Tabs */}
+      <div className="flex items-center gap-1 px-2 py-1.5 bg-[#0b0e11] border-b border-gray-800 overflow-x-auto">
+          <button onClick={() => selectList(null)} className={`px-2.5 py-1 rounded text-[10px] font-bold uppercase whitespace-nowrap ${activeListId === null ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}>All</button>
+          {watchlists.map(list => (
+              <div key={list.id} className={`flex items-center gap-1 px-2.5 py-1 rounded text-[10px] font-bold uppercase whitespace-nowrap ${activeListId === list.id ? 'bg-yellow-900/30 text-yellow-400 border border-yellow-800/60' : 'text-gray-500 hover:text-gray-300 border border-transparent'}`}>
+                  <button onClick={() => selectList(list.id)} onDoubleClick={() => handleRenameList(list)} title="Double-click to rename">
+                      {list.name} <span className="text-gray-600 font-mono">{list.symbols.length}</span>
+                  </button>
+                  {activeListId === list.id && watchlists.length > 1 && (
+                      <button onClick={() => handleDeleteList(list)} className="text-gray-600 hover:text-red-400" title="Delete list"><X size={10} /></button>
+                  )}
+              </div>
+          ))}
+          <button onClick={handleCreateList} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="New list"><Plus size={12} /></button>
+
+          <div className="ml-auto flex items-center gap-1 pl-2">
+              {activeList && (
+                  <form onSubmit={handleAddSymbol}>
+                      <input list="radar-symbols" value={newSymbol} onChange={(e) => { setNewSymbol(e.target.value); setAddError(null); }} placeholder="+ Symbol" title={addError || undefined} className={`w-24 bg-gray-900 border rounded px-2 py-0.5 text-[10px] text-gray-200 outline-none ${addError ? 'border-red-500/60' : 'border-gray-800 focus:border-gray-600'}`} />
+                      <datalist id="radar-symbols">
+                          {data.map(r => <option key={r.symbol} value={r.symbol} />)}
+                      </datalist>
+                  </form>
+              )}
+              {activeList && !manualOrder && (
+                  <button onClick={() => setManualOrder(true)} className="flex items-center gap-1 px-2 py-1 rounded text-[10px] font-bold uppercase text-gray-500 hover:text-gray-300" title="Back to the list's own order (drag rows to reorder)">
+                      <ListOrdered size={10} /> Manual
+                  </button>
+              )}
+              <button onClick={() => importInput.current?.click()} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="Import lists (JSON)"><Upload size={12} /></button>
+              <button onClick={onExportLists} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="Export lists (JSON)"><Download size={12} /></button>
+              <input
+                  ref={importInput}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onImportLists(file);
+                      e.target.value = '';
+                  }}
+              />
+          </div>
+      </div>
+
       {/* Table Header */}
       <div className={`grid ${contextMode ? 'grid-cols-[30px_100px_80px_1fr_80px_80px_100px]' : 'grid-cols-[30px_90px_60px_60px_1fr_60px_60px_80px]'} gap-2 px-2 py-2 bg-[#0d1117] text-[9px] font-bold text-gray-500 uppercase tracking-wider sticky top-0 z-20 border-b border-gray-800`}>
           <div className="text-center">#</div>
@@ -223,10 +368,15 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
               return (
                   <div 
                       key={row.symbol}
-                      className={`grid ${contextMode ? 'grid-cols-[30px_100px_80px_1fr_80px_80px_100px] h-[48px]' : 'grid-cols-[30px_90px_60px_60px_1fr_60px_60px_80px] h-[36px]'} gap-2 items-center px-2 border-b border-gray-800/40 cursor-pointer hover:bg-gray-800/50 transition-colors text-xs group ${rowBg} ${isWarming ? 'opacity-50 grayscale-[0.5]' : ''}`}
+                      className={`grid ${contextMode ? 'grid-cols-[30px_100px_80px_1fr_80px_80px_100px] h-[48px]' : 'grid-cols-[30px_90px_60px_60px_1fr_60px_60px_80px] h-[36px]'} gap-2 items-center px-2 border-b border-gray-800/40 cursor-pointer hover:bg-gray-800/50 transition-colors text-xs group ${rowBg} ${isWarming ? 'opacity-50 grayscale-[0.5]' : ''} ${dragSymbol === row.symbol ? 'opacity-40' : ''}`}
                       onClick={() => onSelectSymbol(row.symbol)}
                       onMouseEnter={() => setHoveredSymbol(row.symbol)}
                       onMouseLeave={() => setHoveredSymbol(null)}
+                      draggable={canReorder}
+                      onDragStart={() => setDragSymbol(row.symbol)}
+                      onDragOver={(e) => { if (canReorder) e.preventDefault(); }}
+                      onDrop={() => { if (activeList && dragSymbol) onMoveSymbol(activeList.id, dragSymbol, row.symbol); setDragSymbol(null); }}
+                      onDragEnd={() => setDragSymbol(null)}
                   >
                       {/* 1. Rank/Fav */}
                       <div className="flex justify-center" onClick={(e) => { e.stopPropagation(); onToggleFavorite(row.symbol); }}>
@@ -255,12 +405,15 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
                       {/* 4. Column Switch based on Mode */}
                       {contextMode ? (
                           /* CONTEXT MODE: Signal + Auction Hint */
-                          <div className="pl-2 flex flex-col justify-center">
-                              <SignalBadge type={row.ofSignal} confidence={row.signalConfidence} duration={row.activeDuration} />
-                              <div className="flex items-center gap-1 mt-1 opacity-60">
-                                 <Map size={8} />
-                                 <span className="text-[9px] text-gray-400">{row.auctionStateHint}</span>
+                          <div className="pl-2 flex items-center justify-between gap-2">
+                              <div className="flex flex-col justify-center">
+                                  <SignalBadge type={row.ofSignal} confidence={row.signalConfidence} duration={row.activeDuration} />
+                                  <div className="flex items-center gap-1 mt-1 opacity-60">
+                                     <Map size={8} />
+                                     <span className="text-[9px] text-gray-400">{row.auctionStateHint}</span>
+                                  </div>
                               </div>
+                              <Sparkline points={row.sparkline} />
                           </div>
                       ) : (
                           <>
@@ -280,7 +433,7 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
                       </div>
 
                       {/* 6. Delta */}
-                      <div className={`text-right font-mono ${row.delta1m > 0 ? 'text-green-500' : row.delta1m < 0 ? 'text-red-500' : 'text-gray-600'}`}>
+                      <div className={`text-right font-mono ${row.delta1m > 0 ? 'text-green-500' : row.delta1m < 0 ? 'text-red-500' : 'text-gray-600'} ${Math.abs(row.deltaZScore) > 2 ? 'font-bold' : ''}`} title={`Delta Z ${row.deltaZScore.toFixed(2)}`}>
                           {row.delta1m > 0 ? '+' : ''}{row.delta1m ? (row.delta1m/1000).toFixed(0) + 'K' : '-'}
                       </div>
 
@@ -292,6 +445,20 @@ const MarketScreener: React.FC<MarketScreenerProps> = ({
                   </div>
               );
           })}
+          {activeList && activeList.symbols.length === 0 && (
+              <div className="px-4 py-3 text-[10px] text-gray-600">Empty list. Add symbols above, or with the row dots on the All tab.</div>
+          )}
+          {missingSymbols.length > 0 && (
+              <div className="px-4 py-3 flex flex-wrap items-center gap-1 text-[10px] text-gray-600">
+                  <span className="mr-1">Not on the radar:</span>
+                  {missingSymbols.map(symbol => (
+                      <span key={symbol} className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-gray-800 font-mono text-gray-400">
+                          {symbol}
+                          <button onClick={() => onToggleFavorite(symbol)} className="text-gray-600 hover:text-red-400" title="Remove from list"><X size={10} /></button>
+                      </span>
+                  ))}
+              </div>
+          )}
       </div>
     </div>
   );
@@ -1,8 +1,9 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { OrderBookLevel, Trade, NoiseFilterLevel } from '../types';
+import { OrderBookLevel, OrderBookView, Trade, NoiseFilterLevel } from '../types';
 import { RefreshCw, Hash, Settings2, ChevronDown, Clock, BoxSelect, Zap, Shield, AlertTriangle, TrendingDown, TrendingUp, Filter, Volume2, EyeOff, Activity, Layers, Target, Microscope } from 'lucide-react';
 import { SmartGroupingEngine, ZoneRaw, SmartZone } from '../utils/smartGrouping';
+import { Clock as EngineClock, systemClock } from '../utils/clock';
 
 interface OrderBookDeltaProps {
   bids: OrderBookLevel[];
@@ -10,6 +11,8 @@ interface OrderBookDeltaProps {
   symbol: string;
   lastPrice: number;
   trades: Trade[];
+  book?: OrderBookView | null; // Full local book; falls back to bids/asks window when absent
+  clock?: EngineClock; // Time source (the replay's virtual clock in replay)
 }
 
 // --- Playbooks Configuration ---
@@ -48,7 +51,10 @@ const PLAYBOOKS: Record<string, PlaybookConfig> = {
 
 const PRICE_GROUPS = [1, 5, 10, 20, 25, 50, 100, 200, 500];
 
-const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, lastPrice, trades }) => {
+// Zones tracked/rendered within +/- 15% of last price
+const VIEW_RANGE = 0.15;
+
+const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, lastPrice, trades, book, clock = systemClock }) => {
   // --- State & Config ---
   const [playbookKey, setPlaybookKey] = useState<string>('INTRADAY');
   const [customPriceGroup, setCustomPriceGroup] = useState<number | null>(null);
@@ -58,7 +64,7 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
   
   // --- Engine Memory (Refs) ---
   const deltaMap = useRef<Map<number, ZoneRaw>>(new Map());
-  const engine = useRef(new SmartGroupingEngine());
+  const engine = useRef(new SmartGroupingEngine(clock));
   
   // --- UI State ---
   const [zones, setZones] = useState<SmartZone[]>([]);
@@ -84,7 +90,7 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
 
   // --- 1. Raw Data Accumulation (Tick Level) ---
   useEffect(() => {
-    const timestamp = Date.now();
+    const timestamp = clock.now();
     
     // Feed volatility engine
     if (lastPrice > 0) engine.current.updateVolatility(lastPrice);
@@ -119,11 +125,17 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
         }
     };
 
-    bids.forEach(b => updateLevel(b));
-    asks.forEach(a => updateLevel(a));
+    // Full book: track every level in view, not just the top-of-book window
+    const range = lastPrice * VIEW_RANGE;
+    const fullBook = book && book.isSynced() && lastPrice > 0 ? book : null;
+    const trackedBids = fullBook ? fullBook.getRange('bid', lastPrice - range, lastPrice + range) : bids;
+    const trackedAsks = fullBook ? fullBook.getRange('ask', lastPrice - range, lastPrice + range) : asks;
+
+    trackedBids.forEach(b => updateLevel(b));
+    trackedAsks.forEach(a => updateLevel(a));
     
     // Attribute Executions
-    const recentTrades = trades.filter(t => t.time > (Date.now() - 500)); 
+    const recentTrades = trades.filter(t => t.time > (timestamp - 500)); 
     recentTrades.forEach(t => {
         const entry = deltaMap.current.get(t.price);
         if (entry) {
@@ -132,7 +144,7 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
         }
     });
 
-  }, [bids, asks, lastPrice]); 
+  }, [bids, asks, lastPrice, book, clock]); 
 
   // --- 2. THE SMART GROUPING ENGINE LOOP ---
   useEffect(() => {
@@ -156,7 +168,7 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
         );
 
         // 3. Viewport & Scaling
-        const range = lastPrice * 0.15;
+        const range = lastPrice * VIEW_RANGE;
         const visible = calculatedZones.filter(z => Math.abs(z.priceStart - lastPrice) < range);
 
         let max = 1;
@@ -175,9 +187,15 @@ const OrderBookDelta: React.FC<OrderBookDeltaProps> = ({ bids, asks, symbol, las
 
   const handleReset = () => {
       deltaMap.current.clear();
-      engine.current = new SmartGroupingEngine();
+      engine.current = new SmartGroupingEngine(clock);
   };
 
+  // Switching between live and replay swaps the time source: start from a clean slate
+  useEffect(() => {
+      deltaMap.current.clear();
+      engine.current = new SmartGroupingEngine(clock);
+  }, [clock]);
+
   // --- Visual Logic ---
   const getGradient = (zone: SmartZone) => {
       // Opacity based on noise score: Low noise = high opacity
@@ -1,31 +1,61 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
-import { subscribeToOrderFlow } from '../services/marketData';
-import { OrderBookLevel, Trade, EnrichedLevel, PersistentEvent, PersistenceWindow } from '../types';
+import { ExchangeAdapter } from '../services/marketData';
+import { MarketRecorder, RecordedRange } from '../services/marketRecorder';
+import { OrderBookLevel, OrderBookView, Trade, EnrichedLevel, PersistentEvent, PersistenceWindow, ConnectionStatus } from '../types';
 import { analyzeDOM } from '../utils/domAnalytics';
 import { EventEngine } from '../utils/eventEngine';
+import { LocalOrderBook } from '../utils/orderBook';
+import { Clock as EngineClock, systemClock } from '../utils/clock';
+import { FlowRecorder, FlowRecording, parseRecording, serializeRecording } from '../utils/flowRecording';
+import { ReplayEngine, ReplayStatus } from '../utils/replayEngine';
 import Tape from './Tape';
 import VerticalDOM from './VerticalDOM';
 import OrderBookDelta from './OrderBookDelta';
-import { Filter, Layers, Zap, Thermometer, Shield, BarChart2, Clock, History, Trash2 } from 'lucide-react';
+import ReplayControls from './ReplayControls';
+import { Filter, Layers, Zap, Thermometer, Shield, BarChart2, Clock, History, Trash2, Film } from 'lucide-react';
 
 interface OrderFlowDashboardProps {
+  adapter: ExchangeAdapter;
   symbol: string;
+  recorder?: MarketRecorder; // Persists events and serves stored ranges for replay
+  onEvents?: (symbol: string, events: PersistentEvent[]) => void; // Live persistent events (not replay)
 }
 
-const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
+// Levels per side pulled from the local book for analysis & DOM rendering
+const ANALYSIS_DEPTH = 100;
+// Longest stored window loaded into memory for one replay (the tail of the range)
+const MAX_STORED_REPLAY_MS = 60 * 60 * 1000;
+
+const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ adapter, symbol, recorder: marketRecorder, onEvents }) => {
   
   // --- State Buffers ---
   const tradesBuffer = useRef<Trade[]>([]);
   const rawBidsRef = useRef<OrderBookLevel[]>([]);
   const rawAsksRef = useRef<OrderBookLevel[]>([]);
+  const bookRef = useRef<OrderBookView | null>(null);
   
   // Historical State for Analytics
   const prevBidsState = useRef<Map<number, EnrichedLevel>>(new Map());
   const prevAsksState = useRef<Map<number, EnrichedLevel>>(new Map());
 
   // --- Persistent Event Engine ---
+  // Engines read time from here: system clock live, the replay's virtual clock in replay
+  const clockRef = useRef<EngineClock>(systemClock);
   const eventEngine = useRef(new EventEngine());
+  const persistenceWindowRef = useRef<PersistenceWindow>(30);
+
+  // Latest analysis output, pushed to React state by publish()
+  const latestRef = useRef<{ bids: EnrichedLevel[]; asks: EnrichedLevel[]; events: PersistentEvent[] }>({ bids: [], asks: [], events: [] });
+  const lastPriceRef = useRef(0);
+  // Read from the live loop, so a new callback doesn't restart the feed
+  const onEventsRef = useRef(onEvents);
+  onEventsRef.current = onEvents;
+
+  // --- Recording & Replay ---
+  const recorderRef = useRef<FlowRecorder | null>(null);
+  const replayRef = useRef<ReplayEngine | null>(null);
+  const replaySpeedRef = useRef(1);
 
   // UI State
   const [trades, setTrades] = useState<Trade[]>([]);
@@ -33,6 +63,19 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
   const [asks, setAsks] = useState<EnrichedLevel[]>([]);
   const [lastPrice, setLastPrice] = useState(0);
   const [persistentEvents, setPersistentEvents] = useState<PersistentEvent[]>([]);
+  const [book, setBook] = useState<OrderBookView | null>(null);
+  const [feedStatus, setFeedStatus] = useState<ConnectionStatus>(ConnectionStatus.CONNECTING);
+  const [viewTime, setViewTime] = useState(() => Date.now()); // Wall clock live, virtual clock in replay
+  const [clock, setClock] = useState<EngineClock>(systemClock);
+
+  // Replay State
+  const [mode, setMode] = useState<'live' | 'replay'>('live');
+  const [recording, setRecording] = useState<FlowRecording | null>(null);
+  const [replayStatus, setReplayStatus] = useState<ReplayStatus>('paused');
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [bufferSeconds, setBufferSeconds] = useState(0);
+  const [storedRanges, setStoredRanges] = useState<RecordedRange[]>([]);
 
   // Filters & Config
   const [filterThreshold, setFilterThreshold] = useState(0); 
@@ -53,60 +96,198 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
 
   // Update Engine Config
   useEffect(() => {
+    persistenceWindowRef.current = persistenceWindow;
     eventEngine.current.setWindow(persistenceWindow);
   }, [persistenceWindow]);
 
-  useEffect(() => {
-    // Reset buffers when symbol changes
+  // --- Pipeline (shared by live feed and replay) ---
+
+  const resetPipeline = () => {
     tradesBuffer.current = [];
     rawBidsRef.current = [];
     rawAsksRef.current = [];
+    bookRef.current = null;
+    setBook(null);
     prevBidsState.current.clear();
     prevAsksState.current.clear();
+    latestRef.current = { bids: [], asks: [], events: [] };
+    lastPriceRef.current = 0;
     // Note: We might want to keep events across symbol changes? No, clear them.
-    eventEngine.current = new EventEngine();
-    eventEngine.current.setWindow(persistenceWindow);
+    eventEngine.current = new EventEngine(clockRef.current);
+    eventEngine.current.setWindow(persistenceWindowRef.current);
+  };
+
+  const ingestTrade = (newTrade: Trade) => {
+    lastPriceRef.current = newTrade.price;
+    tradesBuffer.current.unshift(newTrade);
+    if (tradesBuffer.current.length > 500) tradesBuffer.current.pop();
+  };
+
+  const ingestBook = (liveBook: OrderBookView) => {
+    if (!bookRef.current) setBook(liveBook);
+    bookRef.current = liveBook;
+    rawBidsRef.current = liveBook.getBids(ANALYSIS_DEPTH);
+    rawAsksRef.current = liveBook.getAsks(ANALYSIS_DEPTH);
+  };
+
+  const analyze = (now: number) => {
+    const recentTrades = tradesBuffer.current.filter(t => (now - t.time) < 1500); 
 
-    const unsubscribe = subscribeToOrderFlow(
+    // 1. Instant Analysis
+    const liveBook = bookRef.current || undefined;
+    const enrichedBids = analyzeDOM(rawBidsRef.current, prevBidsState.current, recentTrades, 'bid', liveBook);
+    const enrichedAsks = analyzeDOM(rawAsksRef.current, prevAsksState.current, recentTrades, 'ask', liveBook);
+
+    prevBidsState.current = new Map(enrichedBids.map(l => [l.price, l]));
+    prevAsksState.current = new Map(enrichedAsks.map(l => [l.price, l]));
+
+    // 2. Persistent Engine Update
+    const events = eventEngine.current.process(enrichedBids, enrichedAsks, rawBidsRef.current[0]?.price || 0);
+    latestRef.current = { bids: enrichedBids, asks: enrichedAsks, events };
+  };
+
+  const publish = (now: number) => {
+    const { bids: enrichedBids, asks: enrichedAsks, events } = latestRef.current;
+    // Removed levels (qty 0) only feed the engine, not the ladder
+    setTrades([...tradesBuffer.current]);
+    setBids(enrichedBids.filter(l => l.qty > 0));
+    setAsks(enrichedAsks.filter(l => l.qty > 0));
+    setPersistentEvents(events);
+    setLastPrice(lastPriceRef.current);
+    setViewTime(now);
+  };
+
+  // --- Live Feed ---
+  useEffect(() => {
+    if (mode !== 'live') return;
+
+    // Reset buffers when symbol changes
+    clockRef.current = systemClock;
+    setClock(systemClock);
+    resetPipeline();
+    // Keep the session recording across replay round-trips on the same symbol
+    if (recorderRef.current?.symbol !== symbol) recorderRef.current = new FlowRecorder(symbol);
+    const recorder = recorderRef.current;
+
+    const unsubscribe = adapter.subscribeToOrderFlow(
       symbol,
       (newTrade) => {
-        setLastPrice(newTrade.price);
-        tradesBuffer.current.unshift(newTrade);
-        if (tradesBuffer.current.length > 500) tradesBuffer.current.pop();
+        ingestTrade(newTrade);
+        recorder.recordTrade(newTrade);
       },
-      (newBids, newAsks) => {
-        rawBidsRef.current = newBids;
-        rawAsksRef.current = newAsks;
-      }
+      (liveBook) => {
+        ingestBook(liveBook);
+        recorder.recordDepth(clockRef.current.now(), rawBidsRef.current, rawAsksRef.current);
+      },
+      setFeedStatus
     );
 
     // --- Analytics Loop (100ms) ---
     const interval = setInterval(() => {
-        const now = Date.now();
-        const recentTrades = tradesBuffer.current.filter(t => (now - t.time) < 1500); 
-
-        // 1. Instant Analysis
-        const enrichedBids = analyzeDOM(rawBidsRef.current, prevBidsState.current, recentTrades, 'bid');
-        const enrichedAsks = analyzeDOM(rawAsksRef.current, prevAsksState.current, recentTrades, 'ask');
-
-        prevBidsState.current = new Map(enrichedBids.map(l => [l.price, l]));
-        prevAsksState.current = new Map(enrichedAsks.map(l => [l.price, l]));
-
-        // 2. Persistent Engine Update
-        const events = eventEngine.current.process(enrichedBids, enrichedAsks, rawBidsRef.current[0]?.price || 0);
-
-        setTrades([...tradesBuffer.current]);
-        setBids(enrichedBids);
-        setAsks(enrichedAsks);
-        setPersistentEvents(events);
-
+        const now = systemClock.now();
+        analyze(now);
+        marketRecorder?.recordEvents(symbol, latestRef.current.events, now);
+        onEventsRef.current?.(symbol, latestRef.current.events);
+        publish(now);
     }, 100);
 
     return () => {
         unsubscribe();
         clearInterval(interval);
     };
-  }, [symbol]);
+  }, [adapter, symbol, mode, marketRecorder]);
+
+  // --- Replay ---
+  useEffect(() => {
+    if (mode !== 'replay' || !recording) return;
+
+    const replayBook = new LocalOrderBook();
+    const engine = new ReplayEngine(recording, {
+      onReset: resetPipeline,
+      onTrade: ingestTrade,
+      onDepth: (frame) => {
+        // Frames hold the analysed window, which is all the pipeline saw live
+        replayBook.applySnapshot({ lastUpdateId: 0, bids: frame.bids, asks: frame.asks });
+        ingestBook(replayBook);
+      },
+      onStep: analyze,
+      onRender: publish,
+      onStatus: setReplayStatus,
+    });
+    engine.setSpeed(replaySpeedRef.current);
+    replayRef.current = engine;
+    clockRef.current = engine.clock;
+    setClock(engine.clock);
+    setReplayStatus('paused');
+    engine.start();
+
+    return () => {
+      engine.dispose();
+      replayRef.current = null;
+    };
+  }, [mode, recording]);
+
+  const displaySymbol = mode === 'replay' && recording ? recording.symbol : symbol;
+
+  // --- Replay Sources ---
+  const enterReplay = () => {
+    setReplayError(null);
+    setBufferSeconds((recorderRef.current?.durationMs || 0) / 1000);
+    setStoredRanges([]);
+    marketRecorder?.getRanges(symbol, 'depth')
+      .then(setStoredRanges)
+      .catch(() => setReplayError('Stored data unavailable'));
+    setMode('replay');
+  };
+
+  const exitReplay = () => {
+    setRecording(null);
+    setReplayError(null);
+    setMode('live');
+  };
+
+  const replaySessionBuffer = () => {
+    const snapshot = recorderRef.current?.snapshot();
+    if (!snapshot) {
+      setReplayError('Nothing recorded yet');
+      return;
+    }
+    setReplayError(null);
+    setRecording(snapshot);
+  };
+
+  const replayStoredRange = async (range: RecordedRange) => {
+    if (!marketRecorder) return;
+    try {
+      const stored = await marketRecorder.getRecording(symbol, Math.max(range.start, range.end - MAX_STORED_REPLAY_MS), range.end);
+      if (!stored) throw new Error('Stored range has no depth data');
+      setRecording(stored);
+      setReplayError(null);
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : 'Failed to load stored data');
+    }
+  };
+
+  const loadRecordingFile = async (file: File) => {
+    try {
+      setRecording(parseRecording(await file.text()));
+      setReplayError(null);
+    } catch (e) {
+      setReplayError(e instanceof Error ? e.message : 'Invalid recording');
+    }
+  };
+
+  const exportSessionBuffer = () => {
+    const snapshot = recorderRef.current?.snapshot();
+    if (!snapshot) return;
+    const blob = new Blob([serializeRecording(snapshot)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${snapshot.symbol}-${new Date(snapshot.startTime).toISOString().replace(/[:.]/g, '-')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="flex h-[calc(100vh-140px)] gap-1 bg-[#0d1117] overflow-hidden">
@@ -128,6 +309,14 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
                  <BarChart2 size={20} />
              </button>
              
+             <button 
+                className={`p-2 rounded-lg transition-all ${mode === 'replay' ? 'bg-orange-600/20 text-orange-400' : 'text-gray-600 hover:text-gray-400'}`}
+                onClick={() => mode === 'replay' ? exitReplay() : enterReplay()}
+                title="Historical Replay"
+             >
+                 <Film size={20} />
+             </button>
+             
              <div className="w-8 h-[1px] bg-gray-800 my-1"></div>
 
              <button 
@@ -170,7 +359,7 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
                  </button>
                  
                  <button
-                    onClick={() => { eventEngine.current = new EventEngine(); eventEngine.current.setWindow(persistenceWindow); }}
+                    onClick={() => { eventEngine.current = new EventEngine(clockRef.current); eventEngine.current.setWindow(persistenceWindow); }}
                     className="p-2 rounded-lg hover:bg-red-900/20 text-gray-600 hover:text-red-400"
                     title="Clear Events"
                  >
@@ -180,7 +369,34 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
         </div>
 
         {/* Center Panel */}
-        <div className="flex-1 relative border-r border-gray-800 bg-[#0d1117]">
+        <div className="flex-1 flex flex-col border-r border-gray-800 bg-[#0d1117]">
+          {mode === 'replay' && (
+            <ReplayControls
+                symbol={recording?.symbol || null}
+                status={replayStatus}
+                currentTime={viewTime}
+                startTime={recording?.startTime || 0}
+                endTime={recording?.endTime || 0}
+                speed={replaySpeed}
+                bufferSeconds={bufferSeconds}
+                storedRanges={storedRanges}
+                error={replayError}
+                onPlay={() => replayRef.current?.play()}
+                onPause={() => replayRef.current?.pause()}
+                onSeek={(t) => replayRef.current?.seek(t)}
+                onSpeedChange={(speed) => {
+                    replaySpeedRef.current = speed;
+                    setReplaySpeed(speed);
+                    replayRef.current?.setSpeed(speed);
+                }}
+                onUseBuffer={replaySessionBuffer}
+                onUseStored={replayStoredRange}
+                onLoadFile={loadRecordingFile}
+                onExport={exportSessionBuffer}
+                onExit={exitReplay}
+            />
+          )}
+          <div className="flex-1 relative">
             {/* DOM View */}
             <div className={`absolute inset-0 z-10 ${view === 'dom' ? 'visible pointer-events-auto' : 'invisible pointer-events-none'}`}>
                 <VerticalDOM 
@@ -191,6 +407,8 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
                     showIcebergs={showIcebergs}
                     spread={spread}
                     events={showHistorical ? persistentEvents : []}
+                    book={book}
+                    now={viewTime}
                 />
             </div>
 
@@ -199,16 +417,19 @@ const OrderFlowDashboard: React.FC<OrderFlowDashboardProps> = ({ symbol }) => {
                 <OrderBookDelta 
                     bids={bids}
                     asks={asks}
-                    symbol={symbol}
+                    symbol={displaySymbol}
                     lastPrice={lastPrice}
                     trades={trades}
+                    book={book}
+                    clock={clock}
                 />
             </div>
+          </div>
         </div>
 
         {/* Tape */}
         <div className="w-72 bg-[#0b0e11]">
-             <Tape trades={trades} />
+             <Tape trades={trades} status={feedStatus} isReplay={mode === 'replay'} />
         </div>
     </div>
   );
@@ -1,35 +1,94 @@
 
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
-import { Candle, ProfileMetrics, OrderBlock, DrawingLine, SessionLevels, AuctionContext, CVDState } from '../types';
-import { ZoomOut, Layers, Activity, Zap, TrendingUp, TrendingDown, Target, AlertTriangle } from 'lucide-react';
+import { Candle, ProfileMetrics, ProfileSource, OrderBlock, DrawingLine, SessionLevels, AuctionContext, CVDState, FootprintBar, DevelopingProfilePoint, CompositeProfile, PriorSessionLevels, TpoProfile, NamedSessionProfile, AnchoredVwap, AnchoredVwapPoint, VwapAnchor, VwapAnchorKind, ResetOptions, DrawingTool, OrderBlockStatus, MarketStructure } from '../types';
+import { ZoomOut, Layers, Activity, Zap, TrendingUp, TrendingDown, Target, AlertTriangle, Footprints, Layers3, Globe, Anchor, X, PenLine, Minus, Square, Type, Trash2 } from 'lucide-react';
 import { enrichCandlesWithContext, calculateSessionLevels, calculateAuctionContext, determineCVDState } from '../utils/analytics';
+import { VWAP_ANCHOR_LABELS, VWAP_BAND_SIGMAS } from '../utils/vwap';
+import { DRAWING_COLORS, getFibLevels, isSinglePointTool, moveDrawing } from '../utils/drawings';
 
 interface ProfileChartProps {
   candles: Candle[];
   profile: ProfileMetrics;
+  profileSource?: ProfileSource;
+  onProfileSourceChange?: (source: ProfileSource) => void; // Omit to hide the source toggle
   orderBlocks?: OrderBlock[];
   width?: number;
   height?: number;
   showVolume?: boolean;
   showOrderBlocks?: boolean;
+  footprint?: FootprintBar[]; // When set, bars with trade data render as footprint cells
+  developing?: DevelopingProfilePoint[]; // POC / VA as they moved through the session
+  composite?: CompositeProfile | null; // Multi-session profile with HVN/LVN
+  priorLevels?: PriorSessionLevels | null; // Previous VA, naked POCs, poor extremes, single prints
+  tpo?: TpoProfile | null; // When set, the profile can be switched to TPO letters
+  namedSessions?: NamedSessionProfile[]; // Asia / London / NY blocks on the timeline
+  vwapAnchors?: VwapAnchor[];
+  anchoredVwaps?: AnchoredVwap[]; // The anchors that could be placed on the current candles
+  onAddVwapAnchor?: (kind: VwapAnchorKind, time: number | null) => void; // Omit to hide the anchor tool
+  onRemoveVwapAnchor?: (id: string) => void;
+  reset?: ResetOptions; // VWAP / CVD reset boundaries (UTC day when omitted)
+  drawings?: DrawingLine[];
+  onDrawingsChange?: (drawings: DrawingLine[]) => void; // Omit to hide the drawing tools
+  structure?: MarketStructure | null; // Swings, BOS / CHoCH, fair value gaps, equal highs / lows
+  onAuctionModeChange?: (context: AuctionContext, price: number) => void; // Stable (debounced) mode changes
 }
 
+const DRAWING_TOOLS: { tool: DrawingTool; title: string }[] = [
+  { tool: 'trendline', title: 'Trend line' },
+  { tool: 'horizontal', title: 'Horizontal level' },
+  { tool: 'rectangle', title: 'Rectangle' },
+  { tool: 'fibonacci', title: 'Fibonacci retracement' },
+  { tool: 'text', title: 'Text note' },
+];
+
+const OB_STATUS_LABELS: Record<OrderBlockStatus, string> = {
+  FRESH: '(Holding)',
+  TESTED: '(Tested)',
+  PARTIALLY_MITIGATED: '(Mitigated {pct})',
+  FAILING: '(Failing)',
+  BROKEN: '(Broken)',
+};
+
+type TpoView = 'off' | 'condensed' | 'split';
+const TPO_VIEW_CYCLE: Record<TpoView, TpoView> = { off: 'condensed', condensed: 'split', split: 'off' };
+
+// Compact volume for footprint cells
+const fmtVol = (v: number) => v >= 1000 ? `${(v / 1000).toFixed(1)}k` : v >= 10 ? v.toFixed(0) : v.toFixed(2);
+
 const ProfileChart: React.FC<ProfileChartProps> = ({ 
   candles: rawCandles, 
   profile, 
+  profileSource = 'candles',
+  onProfileSourceChange,
   orderBlocks = [], 
   width = 1000, 
   height = 500,
   showVolume = true,
-  showOrderBlocks = true
+  showOrderBlocks = true,
+  footprint,
+  developing = [],
+  composite,
+  priorLevels,
+  tpo,
+  namedSessions = [],
+  vwapAnchors = [],
+  anchoredVwaps = [],
+  onAddVwapAnchor,
+  onRemoveVwapAnchor,
+  reset,
+  drawings = [],
+  onDrawingsChange,
+  structure,
+  onAuctionModeChange
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   
   // 1. Data Processing
-  const candles = useMemo(() => enrichCandlesWithContext(rawCandles), [rawCandles]);
+  const candles = useMemo(() => enrichCandlesWithContext(rawCandles, reset), [rawCandles, reset]);
   const sessionLevels = useMemo(() => calculateSessionLevels(candles), [candles]);
+  const footprintByTime = useMemo(() => new Map((footprint || []).map(b => [b.timestamp, b])), [footprint]);
   
   // 2. State & Context Stability Logic
   // We use a Ref to store the "Stable State" to prevent flickering
@@ -39,8 +98,8 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
   
   // Compute Current Instant State
   const instantContext = useMemo(() => 
-     calculateAuctionContext(lastPrice, profile, sessionLevels.vwap || lastPrice, candles.slice(-20)), 
-  [lastPrice, profile, sessionLevels.vwap, candles]);
+     calculateAuctionContext(lastPrice, profile, sessionLevels.vwap || lastPrice, candles.slice(-20), priorLevels, structure), 
+  [lastPrice, profile, sessionLevels.vwap, candles, priorLevels, structure]);
   
   // Apply Stability Rule (State lock for 2 seconds unless confidence is super high)
   const now = Date.now();
@@ -55,6 +114,13 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
   }
   
   const auctionContext = stableContext.current;
+
+  // Report mode changes only; confidence / scenario updates on the same mode are not events
+  const onAuctionModeChangeRef = useRef(onAuctionModeChange);
+  onAuctionModeChangeRef.current = onAuctionModeChange;
+  useEffect(() => {
+    onAuctionModeChangeRef.current?.(stableContext.current, lastPrice);
+  }, [auctionContext.mode]);
   const cvdState: CVDState = useMemo(() => determineCVDState(candles), [candles]);
 
   // Interaction State
@@ -67,9 +133,28 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
     delta: true,
     profile: true,
     levels: true,
-    divergences: true
+    divergences: true,
+    developing: true,
+    composite: true,
+    sessions: true,
+    structure: true,
+    fvg: true,
+    liquidity: true
   });
 
+  // Volume profile or TPO letters (condensed = letters pushed left, split = one column per bracket)
+  const [tpoView, setTpoView] = useState<TpoView>('off');
+  const showTpo = !!tpo && tpoView !== 'off';
+
+  // Anchored VWAP tool: menu open / waiting for a candle click
+  const [showAnchorMenu, setShowAnchorMenu] = useState(false);
+  const [pickingAnchor, setPickingAnchor] = useState(false);
+
+  // Drawing tools: tool being placed, selected drawing, drawing in progress (kept across re-renders)
+  const [activeTool, setActiveTool] = useState<DrawingTool | null>(null);
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
+  const draftRef = useRef<DrawingLine | null>(null);
+
   const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
 
   // Layout Constants
@@ -137,6 +222,7 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
       
     // --- Zoom Behavior ---
     const zoom = d3.zoom<SVGSVGElement, unknown>()
+      .filter(event => !activeTool && (!event.ctrlKey || event.type === 'wheel') && !event.button)
       .scaleExtent([0.5, 20])
       .extent([[0, 0], [plotWidth, height]])
       .translateExtent([[0, -Infinity], [plotWidth, Infinity]])
@@ -194,7 +280,85 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
          .style("font-size", "10px");
 
        // --- Layer 1: Auction Profile (Semantic Context) ---
-       if (layers.profile) {
+       if (layers.profile && showTpo && tpo) {
+           const tpoGroup = g.append("g").attr("class", "tpo-layer").attr("clip-path", "url(#clip)");
+           const split = tpoView === 'split';
+           const columns = split ? tpo.periods.length : (d3.max(tpo.levels, l => l.letters.length) || 1);
+           const cellWidth = Math.min(9, (plotWidth * 0.3) / columns);
+           const areaX = plotWidth - columns * cellWidth;
+           const rowHeight = Math.abs(currentYScale(0) - currentYScale(tpo.tickSize));
+           const showLetters = rowHeight >= 8 && cellWidth >= 6;
+
+           const periodIndex = new Map<string, number>(tpo.periods.map((p, i) => [p.letter, i]));
+           const letterColor = (letter: string) => d3.interpolateCool(0.15 + 0.85 * ((periodIndex.get(letter) || 0) / Math.max(1, tpo.periods.length - 1)));
+
+           tpo.levels.forEach(level => {
+               const yTop = currentYScale(level.price + tpo.tickSize);
+               if (yTop > mainHeight || yTop + rowHeight < 0) return;
+               const inVA = level.price <= tpo.vah && level.price >= tpo.val;
+
+               if (level.price === tpo.poc) {
+                   tpoGroup.append("rect")
+                     .attr("x", areaX).attr("y", yTop)
+                     .attr("width", columns * cellWidth).attr("height", Math.max(1, rowHeight))
+                     .attr("fill", "#ef4444").attr("opacity", 0.15);
+               }
+
+               level.letters.split('').forEach((letter, i) => {
+                   const col = split ? (periodIndex.get(letter) || 0) : i;
+                   const x = areaX + col * cellWidth;
+                   if (showLetters) {
+                       tpoGroup.append("text")
+                         .attr("x", x + cellWidth / 2)
+                         .attr("y", yTop + rowHeight / 2 + 3)
+                         .text(letter)
+                         .attr("fill", letterColor(letter))
+                         .attr("opacity", inVA ? 0.95 : 0.5)
+                         .attr("font-size", `${Math.min(10, rowHeight)}px`)
+                         .attr("font-family", "monospace")
+                         .style("text-anchor", "middle");
+                   } else {
+                       tpoGroup.append("rect")
+                         .attr("x", x).attr("y", yTop)
+                         .attr("width", Math.max(1, cellWidth - 1)).attr("height", Math.max(1, rowHeight - 0.5))
+                         .attr("fill", letterColor(letter))
+                         .attr("opacity", inVA ? 0.6 : 0.25);
+                   }
+               });
+           });
+
+           // Initial balance bracket, range extension and single prints on the left edge of the area
+           if (tpo.ibHigh !== null && tpo.ibLow !== null) {
+               tpoGroup.append("line")
+                 .attr("x1", areaX - 4).attr("x2", areaX - 4)
+                 .attr("y1", currentYScale(tpo.ibHigh)).attr("y2", currentYScale(tpo.ibLow))
+                 .attr("stroke", "#e5e7eb").attr("stroke-width", 2).attr("opacity", 0.6);
+               tpoGroup.append("text")
+                 .attr("x", areaX - 8).attr("y", currentYScale(tpo.ibHigh) - 3)
+                 .text("IB").attr("fill", "#e5e7eb").attr("font-size", "8px").style("text-anchor", "end");
+
+               [
+                   { period: tpo.extensionUp, from: tpo.ibHigh, to: tpo.extensionUp ? Math.max(...tpo.periods.map(p => p.high)) : 0 },
+                   { period: tpo.extensionDown, from: tpo.ibLow, to: tpo.extensionDown ? Math.min(...tpo.periods.map(p => p.low)) : 0 },
+               ].forEach(({ period, from, to }) => {
+                   if (!period) return;
+                   tpoGroup.append("line")
+                     .attr("x1", areaX - 4).attr("x2", areaX - 4)
+                     .attr("y1", currentYScale(from)).attr("y2", currentYScale(to))
+                     .attr("stroke", "#f59e0b").attr("stroke-width", 2).attr("opacity", 0.7);
+                   tpoGroup.append("text")
+                     .attr("x", areaX - 8).attr("y", currentYScale(to) + (to > from ? -3 : 9))
+                     .text(`RE ${period.letter}`).attr("fill", "#f59e0b").attr("font-size", "8px").style("text-anchor", "end");
+               });
+           }
+
+           tpo.singlePrints.forEach(gap => {
+               tpoGroup.append("rect")
+                 .attr("x", areaX - 10).attr("y", currentYScale(gap.high))
+                 .attr("width", 3).attr("height", Math.max(1, currentYScale(gap.low) - currentYScale(gap.high)))
+                 .attr("fill", "#eab308").attr("opacity", 0.8);
+           });
+       } else if (layers.profile) {
            const profileGroup = g.append("g").attr("class", "profile-layer").attr("clip-path", "url(#clip)");
            const maxVol = d3.max(profile.levels, d => d.volume) || 1;
            const profileWidth = plotWidth * 0.15;
@@ -202,23 +366,164 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
 
            const xProfile = d3.scaleLinear().domain([0, maxVol]).range([0, profileWidth]);
 
+           const levelStep = (profile.levels[1]?.price - profile.levels[0]?.price) || 1;
+
            profile.levels.forEach(level => {
                const y = currentYScale(level.price);
                if (y < 0 || y > mainHeight) return;
 
                const isVA = level.price <= profile.vah && level.price >= profile.val;
                const opacity = isVA ? 0.15 : 0.05; 
+               const barHeight = Math.max(1, Math.abs(currentYScale(level.price) - currentYScale(level.price + levelStep)));
+
+               // Trade-based levels carry the aggressor split: sells (bid) first, then buys (ask)
+               if (level.bidVol !== undefined && level.askVol !== undefined) {
+                   const bidWidth = xProfile(level.bidVol);
+                   profileGroup.append("rect")
+                     .attr("x", profileX)
+                     .attr("y", y)
+                     .attr("width", bidWidth)
+                     .attr("height", barHeight)
+                     .attr("fill", "#ef4444")
+                     .attr("opacity", opacity * 2);
+                   profileGroup.append("rect")
+                     .attr("x", profileX + bidWidth)
+                     .attr("y", y)
+                     .attr("width", xProfile(level.askVol))
+                     .attr("height", barHeight)
+                     .attr("fill", "#22c55e")
+                     .attr("opacity", opacity * 2);
+                   return;
+               }
                
                profileGroup.append("rect")
                  .attr("x", profileX)
                  .attr("y", y)
                  .attr("width", xProfile(level.volume))
-                 .attr("height", Math.max(1, Math.abs(currentYScale(level.price) - currentYScale(level.price + (profile.levels[1]?.price - profile.levels[0]?.price) || 1))))
+                 .attr("height", barHeight)
                  .attr("fill", isVA ? "#3b82f6" : "#64748b")
                  .attr("opacity", opacity);
            });
        }
 
+       // --- Layer 1b: Composite Profile (previous sessions, left edge) ---
+       if (composite && layers.composite) {
+           const compositeGroup = g.append("g").attr("class", "composite-layer").attr("clip-path", "url(#clip)");
+           const maxVol = d3.max(composite.levels, d => d.volume) || 1;
+           const xComposite = d3.scaleLinear().domain([0, maxVol]).range([0, plotWidth * 0.12]);
+           const levelStep = (composite.levels[1]?.price - composite.levels[0]?.price) || 1;
+
+           composite.levels.forEach(level => {
+               const y = currentYScale(level.price);
+               if (y < 0 || y > mainHeight) return;
+               const isVA = level.price <= composite.vah && level.price >= composite.val;
+               compositeGroup.append("rect")
+                 .attr("x", 0)
+                 .attr("y", y)
+                 .attr("width", xComposite(level.volume))
+                 .attr("height", Math.max(1, Math.abs(currentYScale(level.price) - currentYScale(level.price + levelStep))))
+                 .attr("fill", "#a855f7")
+                 .attr("opacity", isVA ? 0.18 : 0.07);
+           });
+
+           const drawCompositeLine = (price: number, color: string, text: string, dash: string) => {
+               const y = currentYScale(price);
+               if (y < 0 || y > mainHeight) return;
+               compositeGroup.append("line")
+                 .attr("x1", 0).attr("x2", plotWidth)
+                 .attr("y1", y).attr("y2", y)
+                 .attr("stroke", color)
+                 .attr("stroke-dasharray", dash)
+                 .attr("opacity", 0.5);
+               compositeGroup.append("text")
+                 .attr("x", 4)
+                 .attr("y", y - 2)
+                 .text(text)
+                 .attr("fill", color)
+                 .attr("font-size", "9px")
+                 .attr("font-weight", "bold");
+           };
+
+           drawCompositeLine(composite.poc, "#c084fc", `cPOC ${composite.days}D`, "6,3");
+           drawCompositeLine(composite.vah, "#a855f7", "cVAH", "6,3");
+           drawCompositeLine(composite.val, "#a855f7", "cVAL", "6,3");
+           composite.nodes.forEach(node => {
+               drawCompositeLine(node.price, node.type === 'HVN' ? "#e879f9" : "#64748b", node.type, "1,3");
+           });
+       }
+
+       // --- Layer 1c: Named Sessions (one profile block per session) ---
+       if (layers.sessions && namedSessions.length > 0) {
+           const sessionsGroup = g.append("g").attr("class", "sessions-layer").attr("clip-path", "url(#clip)");
+           const LANE_HEIGHT = 12;
+
+           namedSessions.forEach(ns => {
+               const x0 = newXScale(new Date(ns.start));
+               const x1 = newXScale(new Date(ns.end));
+               if (x1 < 0 || x0 > plotWidth) return;
+               const color = ns.session.color;
+               const blockWidth = x1 - x0;
+
+               // Header strip, one row per lane so overlapping sessions stay readable
+               const laneY = ns.lane * LANE_HEIGHT;
+               sessionsGroup.append("rect")
+                 .attr("x", x0).attr("y", laneY)
+                 .attr("width", blockWidth).attr("height", LANE_HEIGHT - 2)
+                 .attr("fill", color).attr("opacity", 0.15);
+               sessionsGroup.append("text")
+                 .attr("x", Math.max(x0, 0) + 3).attr("y", laneY + 8)
+                 .text(ns.session.name)
+                 .attr("fill", color).attr("font-size", "8px").attr("font-weight", "bold");
+
+               // Histogram: even lanes grow from the open, odd lanes from the close
+               const { profile } = ns;
+               const maxVol = d3.max(profile.levels, l => l.volume) || 1;
+               const xVol = d3.scaleLinear().domain([0, maxVol]).range([0, blockWidth * 0.4]);
+               const levelStep = (profile.levels[1]?.price - profile.levels[0]?.price) || 1;
+               const fromRight = ns.lane % 2 === 1;
+               profile.levels.forEach(level => {
+                   const y = currentYScale(level.price + levelStep);
+                   if (y > mainHeight || y < 0) return;
+                   const w = xVol(level.volume);
+                   const isVA = level.price <= profile.vah && level.price >= profile.val;
+                   sessionsGroup.append("rect")
+                     .attr("x", fromRight ? x1 - w : x0).attr("y", y)
+                     .attr("width", w)
+                     .attr("height", Math.max(1, Math.abs(currentYScale(level.price) - y)))
+                     .attr("fill", color)
+                     .attr("opacity", isVA ? 0.14 : 0.06);
+               });
+
+               // POC, value area edges and IB within the session block
+               [
+                   { price: profile.poc, dash: null, opacity: 0.8 },
+                   { price: profile.vah, dash: "3,2", opacity: 0.5 },
+                   { price: profile.val, dash: "3,2", opacity: 0.5 },
+                   { price: ns.ibHigh, dash: "1,3", opacity: 0.5 },
+                   { price: ns.ibLow, dash: "1,3", opacity: 0.5 },
+               ].forEach(({ price, dash, opacity }) => {
+                   if (price === null) return;
+                   const line = sessionsGroup.append("line")
+                     .attr("x1", x0).attr("x2", x1)
+                     .attr("y1", currentYScale(price)).attr("y2", currentYScale(price))
+                     .attr("stroke", color).attr("opacity", opacity);
+                   if (dash) line.attr("stroke-dasharray", dash);
+               });
+
+               // Session-anchored VWAP
+               sessionsGroup.append("path")
+                 .datum(ns.vwap)
+                 .attr("d", d3.line<{ timestamp: number; value: number }>()
+                   .x(p => newXScale(new Date(p.timestamp)))
+                   .y(p => currentYScale(p.value)))
+                 .attr("fill", "none")
+                 .attr("stroke", color)
+                 .attr("stroke-width", 1)
+                 .attr("stroke-opacity", 0.7)
+                 .attr("stroke-dasharray", "6,2");
+           });
+       }
+
        // --- Layer 2: Semantic Zones (Order Blocks with Status) ---
        if (showOrderBlocks) {
            const zoneGroup = g.append("g").attr("class", "zone-layer").attr("clip-path", "url(#clip)");
@@ -229,36 +534,241 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
                
                if (yBottom < 0 || yTop > mainHeight) return;
 
+               // Projected from its origin (higher-timeframe blocks may start off-screen) until it broke
+               const x0 = Math.max(0, newXScale(new Date(ob.start)));
+               const x1 = ob.brokenAt !== null ? Math.min(plotWidth, newXScale(new Date(ob.brokenAt))) : plotWidth;
+               if (x1 <= x0) return;
+               const isBroken = ob.status === 'BROKEN';
+
                const color = ob.type === 'bullish' ? '#22c55e' : '#ef4444';
                // Opacity based on Strength Confidence
-               const opacity = ob.strength / 400; 
+               const opacity = isBroken ? 0.05 : ob.strength / 400; 
 
-               zoneGroup.append("rect")
-                  .attr("x", 0)
+               const zone = zoneGroup.append("rect")
+                  .attr("x", x0)
                   .attr("y", yTop)
-                  .attr("width", plotWidth)
+                  .attr("width", x1 - x0)
                   .attr("height", h)
                   .attr("fill", color)
                   .attr("opacity", opacity);
+               if (isBroken) {
+                  zone.attr("stroke", color).attr("stroke-opacity", 0.4).attr("stroke-dasharray", "3,3");
+               }
 
                // Semantic Label
                const label = ob.type === 'bullish' ? 'DEMAND' : 'SUPPLY';
-               const status = ob.status === 'TESTED' ? '(Weakening)' : '(Holding)';
+               const status = OB_STATUS_LABELS[ob.status].replace('{pct}', `${Math.round(ob.mitigation * 100)}%`);
+               const tf = ob.timeframe ? `${ob.timeframe.toUpperCase()} ` : '';
                
                zoneGroup.append("text")
-                  .attr("x", 10)
+                  .attr("x", x0 + 10)
                   .attr("y", yTop + 10)
-                  .text(`${label} ${status}`)
+                  .text(`${tf}${label} ${status}`)
                   .attr("fill", color)
                   .attr("font-size", "9px")
                   .attr("font-weight", "600")
-                  .attr("opacity", 0.8);
+                  .attr("opacity", isBroken ? 0.4 : 0.8);
            });
        }
 
+       // --- Layer 2b: Market Structure (FVGs, liquidity pools, swings, BOS / CHoCH) ---
+       if (structure) {
+           const structureGroup = g.append("g").attr("class", "structure-layer").attr("clip-path", "url(#clip)");
+
+           if (layers.fvg) {
+               structure.fvgs.forEach(gap => {
+                   const x0 = Math.max(0, newXScale(new Date(gap.start)));
+                   const x1 = gap.filledAt !== null ? Math.min(plotWidth, newXScale(new Date(gap.filledAt))) : plotWidth;
+                   if (x1 <= x0) return;
+                   const yTop = currentYScale(gap.top);
+                   const yBottom = currentYScale(gap.bottom);
+                   const color = gap.type === 'bullish' ? '#14b8a6' : '#f97316';
+                   const filled = gap.filledAt !== null;
+
+                   structureGroup.append("rect")
+                     .attr("x", x0)
+                     .attr("y", yTop)
+                     .attr("width", x1 - x0)
+                     .attr("height", Math.max(1, yBottom - yTop))
+                     .attr("fill", color)
+                     .attr("opacity", filled ? 0.06 : 0.15);
+                   structureGroup.append("text")
+                     .attr("x", x1 - 4)
+                     .attr("y", yTop + 9)
+                     .attr("text-anchor", "end")
+                     .text(filled ? 'FVG (Filled)' : gap.fill > 0 ? `FVG ${Math.round(gap.fill * 100)}%` : 'FVG')
+                     .attr("fill", color)
+                     .attr("font-size", "8px")
+                     .attr("opacity", filled ? 0.4 : 0.8);
+               });
+           }
+
+           if (layers.liquidity) {
+               structure.pools.forEach(pool => {
+                   const y = currentYScale(pool.price);
+                   if (y < 0 || y > mainHeight) return;
+                   const x0 = Math.max(0, newXScale(new Date(pool.points[0])));
+                   const x1 = pool.sweptAt !== null ? Math.min(plotWidth, newXScale(new Date(pool.sweptAt))) : plotWidth;
+                   if (x1 <= x0) return;
+                   const color = pool.type === 'equalHighs' ? '#f472b6' : '#a78bfa';
+                   const label = pool.type === 'equalHighs' ? 'EQH' : 'EQL';
+
+                   structureGroup.append("line")
+                     .attr("x1", x0).attr("x2", x1)
+                     .attr("y1", y).attr("y2", y)
+                     .attr("stroke", color)
+                     .attr("stroke-width", 1)
+                     .attr("stroke-dasharray", "2,3");
+                   structureGroup.append("text")
+                     .attr("x", x0 + 2)
+                     .attr("y", pool.type === 'equalHighs' ? y - 3 : y + 9)
+                     .text(pool.sweptAt !== null ? `${label} (Swept${pool.reclaimed ? ', Reclaimed' : ''})` : label)
+                     .attr("fill", color)
+                     .attr("font-size", "8px")
+                     .attr("font-weight", "600");
+                   // Sweep marker where liquidity was taken
+                   if (pool.sweptAt !== null) {
+                       structureGroup.append("path")
+                         .attr("d", d3.symbol().type(d3.symbolCross).size(30))
+                         .attr("transform", `translate(${x1}, ${y}) rotate(45)`)
+                         .attr("fill", color);
+                   }
+               });
+           }
+
+           if (layers.structure) {
+               structure.breaks.forEach(br => {
+                   const y = currentYScale(br.price);
+                   if (y < 0 || y > mainHeight) return;
+                   const x0 = newXScale(new Date(br.swingTime));
+                   const x1 = newXScale(new Date(br.breakTime));
+                   if (x1 < 0 || x0 > plotWidth) return;
+                   const color = br.type === 'CHOCH' ? '#facc15' : br.direction === 'bullish' ? '#22c55e' : '#ef4444';
+
+                   structureGroup.append("line")
+                     .attr("x1", x0).attr("x2", x1)
+                     .attr("y1", y).attr("y2", y)
+                     .attr("stroke", color)
+                     .attr("stroke-width", 1)
+                     .attr("stroke-dasharray", br.type === 'CHOCH' ? "5,2" : null);
+                   structureGroup.append("text")
+                     .attr("x", (x0 + x1) / 2)
+                     .attr("y", br.direction === 'bullish' ? y - 3 : y + 9)
+                     .attr("text-anchor", "middle")
+                     .text(br.type === 'CHOCH' ? 'CHoCH' : 'BOS')
+                     .attr("fill", color)
+                     .attr("font-size", "8px")
+                     .attr("font-weight", "bold");
+               });
+
+               structure.swings.forEach(sw => {
+                   if (!sw.label) return;
+                   const x = newXScale(new Date(sw.timestamp));
+                   const y = currentYScale(sw.price);
+                   if (x < 0 || x > plotWidth || y < 0 || y > mainHeight) return;
+                   const bullish = sw.label === 'HH' || sw.label === 'HL';
+                   structureGroup.append("text")
+                     .attr("x", x)
+                     .attr("y", sw.type === 'high' ? y - 6 : y + 13)
+                     .attr("text-anchor", "middle")
+                     .text(sw.label)
+                     .attr("fill", bullish ? '#4ade80' : '#f87171')
+                     .attr("font-size", "8px")
+                     .attr("font-weight", "600");
+               });
+           }
+       }
+
        // --- Layer 3: Candles ---
        const candleGroup = g.append("g").attr("class", "candle-layer").attr("clip-path", "url(#clip)");
+       const footprintWidth = (candleWidth / 0.6) * 0.92; // Footprint bars use nearly the whole slot
+
+       const drawFootprint = (bar: FootprintBar, x: number) => {
+           const left = x - footprintWidth / 2;
+           const rowHeight = Math.abs(currentYScale(0) - currentYScale(bar.tickSize));
+           const showText = rowHeight >= 9 && footprintWidth >= 56;
+           const maxCellVol = d3.max(bar.cells, c => c.bidVol + c.askVol) || 1;
+           const fpGroup = candleGroup.append("g").attr("class", "footprint-bar");
+
+           bar.cells.forEach(cell => {
+               const yTop = currentYScale(cell.price + bar.tickSize);
+               if (yTop > mainHeight || yTop + rowHeight < 0) return;
+               const h = Math.max(1, rowHeight - (rowHeight > 4 ? 1 : 0));
+
+               // Bid half (left) / ask half (right), shaded by share of the bar's busiest row
+               fpGroup.append("rect")
+                 .attr("x", left).attr("y", yTop)
+                 .attr("width", footprintWidth / 2).attr("height", h)
+                 .attr("fill", "#ef4444")
+                 .attr("opacity", 0.08 + 0.6 * (cell.bidVol / maxCellVol));
+               fpGroup.append("rect")
+                 .attr("x", x).attr("y", yTop)
+                 .attr("width", footprintWidth / 2).attr("height", h)
+                 .attr("fill", "#22c55e")
+                 .attr("opacity", 0.08 + 0.6 * (cell.askVol / maxCellVol))
+                 .append("title")
+                 .text(`${cell.price} · ${fmtVol(cell.bidVol)} x ${fmtVol(cell.askVol)}` +
+                   (cell.imbalance ? ` · ${cell.imbalance} imbalance ${Number.isFinite(cell.imbalanceRatio) ? cell.imbalanceRatio.toFixed(1) + 'x' : '∞'}` : ''));
+
+               if (cell.price === bar.poc) {
+                   fpGroup.append("rect")
+                     .attr("x", left).attr("y", yTop)
+                     .attr("width", footprintWidth).attr("height", h)
+                     .attr("fill", "none")
+                     .attr("stroke", "#facc15").attr("stroke-width", 1);
+               }
+
+               if (showText) {
+                   const fontSize = Math.min(10, rowHeight - 1);
+                   fpGroup.append("text")
+                     .attr("x", x - 3).attr("y", yTop + h / 2 + fontSize / 3)
+                     .text(fmtVol(cell.bidVol))
+                     .attr("text-anchor", "end")
+                     .attr("font-size", `${fontSize}px`)
+                     .attr("font-weight", cell.imbalance === 'sell' ? "bold" : "normal")
+                     .attr("fill", cell.imbalance === 'sell' ? "#fca5a5" : "#9ca3af");
+                   fpGroup.append("text")
+                     .attr("x", x + 3).attr("y", yTop + h / 2 + fontSize / 3)
+                     .text(fmtVol(cell.askVol))
+                     .attr("text-anchor", "start")
+                     .attr("font-size", `${fontSize}px`)
+                     .attr("font-weight", cell.imbalance === 'buy' ? "bold" : "normal")
+                     .attr("fill", cell.imbalance === 'buy' ? "#86efac" : "#9ca3af");
+               }
+           });
+
+           // Stacked imbalances: buy runs on the right edge, sell runs on the left
+           bar.stackedImbalances.forEach(run => {
+               const edgeX = run.side === 'buy' ? left + footprintWidth + 1 : left - 3;
+               fpGroup.append("rect")
+                 .attr("x", edgeX)
+                 .attr("y", currentYScale(run.high + bar.tickSize))
+                 .attr("width", 2)
+                 .attr("height", Math.abs(currentYScale(run.low) - currentYScale(run.high + bar.tickSize)))
+                 .attr("fill", run.side === 'buy' ? "#22c55e" : "#ef4444");
+           });
+
+           // Per-bar delta under the lowest cell
+           const lowCell = bar.cells[0];
+           if (lowCell && footprintWidth >= 24) {
+               fpGroup.append("text")
+                 .attr("x", x)
+                 .attr("y", currentYScale(lowCell.price) + 10)
+                 .text(`${bar.delta >= 0 ? '+' : '-'}${fmtVol(Math.abs(bar.delta))}`)
+                 .attr("text-anchor", "middle")
+                 .attr("font-size", "9px")
+                 .attr("font-weight", "bold")
+                 .attr("fill", bar.delta >= 0 ? "#22c55e" : "#ef4444");
+           }
+       };
+
        visibleCandles.forEach(d => {
+         const fpBar = footprint ? footprintByTime.get(d.timestamp) : undefined;
+         if (fpBar && fpBar.cells.length > 0) {
+             drawFootprint(fpBar, newXScale(new Date(d.timestamp)));
+             return;
+         }
+
          const isUp = d.close >= d.open;
          const color = isUp ? "#22c55e" : "#ef4444"; 
          const x = newXScale(new Date(d.timestamp));
@@ -324,6 +834,63 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
            });
        }
 
+       // --- Layer 4b: Developing POC / Value Area ---
+       if (layers.developing && developing.length > 1) {
+           const developingGroup = g.append("g").attr("class", "developing-layer").attr("clip-path", "url(#clip)");
+           const [visFrom, visTo] = [visStart.getTime(), visEnd.getTime()];
+           const visiblePoints = developing.filter(p => p.timestamp >= visFrom && p.timestamp <= visTo);
+
+           const stepLine = (accessor: (p: DevelopingProfilePoint) => number) => d3.line<DevelopingProfilePoint>()
+             .x(p => newXScale(new Date(p.timestamp)))
+             .y(p => currentYScale(accessor(p)))
+             .curve(d3.curveStepAfter);
+
+           developingGroup.append("path").datum(visiblePoints).attr("d", stepLine(p => p.poc)).attr("fill", "none").attr("stroke", "#ef4444").attr("stroke-width", 1.25).attr("stroke-opacity", 0.8);
+           developingGroup.append("path").datum(visiblePoints).attr("d", stepLine(p => p.vah)).attr("fill", "none").attr("stroke", "#3b82f6").attr("stroke-opacity", 0.6).attr("stroke-dasharray", "3,2");
+           developingGroup.append("path").datum(visiblePoints).attr("d", stepLine(p => p.val)).attr("fill", "none").attr("stroke", "#3b82f6").attr("stroke-opacity", 0.6).attr("stroke-dasharray", "3,2");
+       }
+
+       // --- Layer 4c: Anchored VWAPs ---
+       if (anchoredVwaps.length > 0) {
+           const avwapGroup = g.append("g").attr("class", "avwap-layer").attr("clip-path", "url(#clip)");
+           const [visFrom, visTo] = [visStart.getTime(), visEnd.getTime()];
+
+           anchoredVwaps.forEach(({ anchor, anchorTime, points }) => {
+               const visiblePoints = points.filter(p => p.timestamp >= visFrom && p.timestamp <= visTo);
+               if (visiblePoints.length === 0) return;
+               const bandLine = (offset: number) => d3.line<AnchoredVwapPoint>()
+                 .x(p => newXScale(new Date(p.timestamp)))
+                 .y(p => currentYScale(p.vwap + p.std * offset));
+
+               avwapGroup.append("path").datum(visiblePoints).attr("d", bandLine(0))
+                 .attr("fill", "none").attr("stroke", anchor.color).attr("stroke-width", 1.5);
+               VWAP_BAND_SIGMAS.forEach(sd => {
+                   [sd, -sd].forEach(offset => {
+                       avwapGroup.append("path").datum(visiblePoints).attr("d", bandLine(offset))
+                         .attr("fill", "none").attr("stroke", anchor.color)
+                         .attr("stroke-opacity", 0.45 / sd).attr("stroke-dasharray", "3,3");
+                   });
+               });
+
+               // Anchor marker & label at the latest value
+               const first = points[0];
+               if (anchorTime >= visFrom) {
+                   avwapGroup.append("path")
+                     .attr("d", d3.symbol().type(d3.symbolDiamond).size(30))
+                     .attr("transform", `translate(${newXScale(new Date(first.timestamp))}, ${currentYScale(first.vwap)})`)
+                     .attr("fill", anchor.color);
+               }
+               const last = visiblePoints[visiblePoints.length - 1];
+               avwapGroup.append("text")
+                 .attr("x", newXScale(new Date(last.timestamp)) + 4)
+                 .attr("y", currentYScale(last.vwap) - 3)
+                 .text(VWAP_ANCHOR_LABELS[anchor.kind])
+                 .attr("fill", anchor.color)
+                 .attr("font-size", "8px")
+                 .attr("font-weight", "bold");
+           });
+       }
+
        // --- Layer 5: Semantic Levels Labels (Narrative) ---
        if (layers.levels) {
            const levelsGroup = g.append("g").attr("class", "context-levels").attr("clip-path", "url(#clip)");
@@ -370,6 +937,42 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
               const vwapControl = lastPrice > sessionLevels.vwap ? "Buyers Defending" : "Sellers Defending";
               drawLabel(sessionLevels.vwap, "#f59e0b", "VWAP", vwapControl);
            }
+
+           // Prior sessions: previous value area and unfinished business
+           if (priorLevels) {
+               const previous = priorLevels.previous;
+               if (previous) {
+                   const day = previous.date.slice(5);
+                   drawLabel(previous.profile.vah, "#818cf8", "pVAH", `Prev. Value High ${day}`);
+                   drawLabel(previous.profile.val, "#818cf8", "pVAL", `Prev. Value Low ${day}`);
+                   drawLabel(previous.profile.poc, "#f472b6", "pPOC", `Prev. POC ${day}`);
+               }
+               priorLevels.nakedPocs
+                 .filter(l => l.date !== previous?.date)
+                 .forEach(l => drawLabel(l.price, "#f472b6", "nPOC", `Naked POC ${l.date.slice(5)}`));
+               priorLevels.poorHighs.forEach(l => drawLabel(l.price, "#fb923c", "Poor H", `Unrepaired ${l.date.slice(5)}`));
+               priorLevels.poorLows.forEach(l => drawLabel(l.price, "#fb923c", "Poor L", `Unrepaired ${l.date.slice(5)}`));
+
+               priorLevels.singlePrints.forEach(gap => {
+                   const yTop = currentYScale(gap.high);
+                   const yBottom = currentYScale(gap.low);
+                   if (yBottom < 0 || yTop > mainHeight) return;
+                   levelsGroup.append("rect")
+                     .attr("x", 0)
+                     .attr("y", yTop)
+                     .attr("width", plotWidth)
+                     .attr("height", Math.max(1, yBottom - yTop))
+                     .attr("fill", "#eab308")
+                     .attr("opacity", 0.06);
+                   levelsGroup.append("text")
+                     .attr("x", 4)
+                     .attr("y", yBottom - 2)
+                     .text(`Single prints ${gap.date.slice(5)}`)
+                     .attr("fill", "#eab308")
+                     .attr("font-size", "8px")
+                     .attr("opacity", 0.7);
+               });
+           }
        }
 
        // --- Layer 6: Delta / CVD Panel with Narrative ---
@@ -426,8 +1029,43 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
          .attr("width", plotWidth)
          .attr("height", height)
          .attr("fill", "transparent")
+         .on("mousedown", (event) => {
+             if (!activeTool || !onDrawingsChange) return;
+             const [mx, my] = d3.pointer(event);
+             const time = newXScale.invert(mx).getTime();
+             const price = currentYScale.invert(my);
+             const drawing: DrawingLine = {
+                 id: `${activeTool}-${Date.now()}`,
+                 type: activeTool,
+                 x1: time, y1: price, x2: time, y2: price,
+                 color: DRAWING_COLORS[activeTool],
+             };
+             if (isSinglePointTool(activeTool)) {
+                 if (activeTool === 'text') {
+                     const text = window.prompt('Note');
+                     if (!text) return;
+                     drawing.text = text;
+                 }
+                 onDrawingsChange([...drawings, drawing]);
+                 setActiveTool(null);
+                 return;
+             }
+             draftRef.current = drawing;
+         })
+         .on("mouseup", () => {
+             const draft = draftRef.current;
+             if (!draft || !onDrawingsChange) return;
+             draftRef.current = null;
+             if (draft.x1 !== draft.x2 || draft.y1 !== draft.y2) onDrawingsChange([...drawings, draft]);
+             setActiveTool(null);
+         })
          .on("mousemove", (event) => {
              const [mx, my] = d3.pointer(event);
+             if (draftRef.current) {
+                 draftRef.current.x2 = newXScale.invert(mx).getTime();
+                 draftRef.current.y2 = currentYScale.invert(my);
+                 renderDrawings();
+             }
              const date = newXScale.invert(mx);
              const idx = d3.bisector((d: Candle) => d.timestamp).center(candles, date.getTime());
              const d = candles[idx];
@@ -437,6 +1075,14 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
          .on("mouseleave", () => {
              setHoverData(null);
              setMousePos(null);
+         })
+         .on("click", (event) => {
+             if (selectedDrawingId) setSelectedDrawingId(null);
+             if (!pickingAnchor || !onAddVwapAnchor) return;
+             const [mx] = d3.pointer(event);
+             const idx = d3.bisector((d: Candle) => d.timestamp).center(candles, newXScale.invert(mx).getTime());
+             if (candles[idx]) onAddVwapAnchor('candle', candles[idx].timestamp);
+             setPickingAnchor(false);
          });
          
        if (mousePos && hoverData) {
@@ -452,11 +1098,132 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
                  .attr("stroke", "#6b7280").attr("stroke-dasharray", "4,4").attr("stroke-width", 1);
            }
        }
+
+       // --- Layer 7: Drawings (above the mouse layer so they can be picked) ---
+       const drawingsGroup = g.append("g").attr("class", "drawings-layer").attr("clip-path", "url(#clip)");
+       let liveDrawings = drawings;
+
+       function renderDrawings() {
+           drawingsGroup.selectAll("*").remove();
+           // While placing a new drawing, clicks must reach the mouse layer
+           drawingsGroup.style("pointer-events", activeTool ? "none" : "auto");
+           const all = draftRef.current ? [...liveDrawings, draftRef.current] : liveDrawings;
+
+           all.forEach(d => {
+               const selected = d.id === selectedDrawingId;
+               const x1 = newXScale(new Date(d.x1));
+               const x2 = newXScale(new Date(d.x2));
+               const y1 = currentYScale(d.y1);
+               const y2 = currentYScale(d.y2);
+               const shape = drawingsGroup.append("g").attr("class", "drawing").style("cursor", "move");
+               const strokeWidth = selected ? 2 : 1.25;
+
+               // Wide transparent stroke so thin lines are easy to grab
+               const hitLine = (ax: number, ay: number, bx: number, by: number) => {
+                   shape.append("line").attr("x1", ax).attr("y1", ay).attr("x2", bx).attr("y2", by)
+                     .attr("stroke", "transparent").attr("stroke-width", 10);
+               };
+
+               switch (d.type) {
+                   case 'trendline':
+                       hitLine(x1, y1, x2, y2);
+                       shape.append("line").attr("x1", x1).attr("y1", y1).attr("x2", x2).attr("y2", y2)
+                         .attr("stroke", d.color).attr("stroke-width", strokeWidth);
+                       break;
+                   case 'horizontal':
+                       hitLine(0, y1, plotWidth, y1);
+                       shape.append("line").attr("x1", 0).attr("x2", plotWidth).attr("y1", y1).attr("y2", y1)
+                         .attr("stroke", d.color).attr("stroke-width", strokeWidth);
+                       shape.append("text").attr("x", plotWidth - 4).attr("y", y1 - 3)
+                         .text(d.y1.toFixed(2)).attr("fill", d.color).attr("font-size", "9px").style("text-anchor", "end");
+                       break;
+                   case 'rectangle':
+                       shape.append("rect")
+                         .attr("x", Math.min(x1, x2)).attr("y", Math.min(y1, y2))
+                         .attr("width", Math.abs(x2 - x1)).attr("height", Math.abs(y2 - y1))
+                         .attr("fill", d.color).attr("fill-opacity", 0.1)
+                         .attr("stroke", d.color).attr("stroke-width", strokeWidth);
+                       break;
+                   case 'fibonacci': {
+                       const left = Math.min(x1, x2);
+                       hitLine(x1, y1, x2, y2);
+                       shape.append("line").attr("x1", x1).attr("y1", y1).attr("x2", x2).attr("y2", y2)
+                         .attr("stroke", d.color).attr("stroke-opacity", 0.4).attr("stroke-dasharray", "2,2");
+                       getFibLevels(d).forEach(({ level, price }) => {
+                           const y = currentYScale(price);
+                           hitLine(left, y, plotWidth, y);
+                           shape.append("line").attr("x1", left).attr("x2", plotWidth).attr("y1", y).attr("y2", y)
+                             .attr("stroke", d.color).attr("stroke-width", selected ? 1.5 : 1)
+                             .attr("stroke-opacity", level === 0 || level === 1 ? 0.9 : 0.6);
+                           shape.append("text").attr("x", left + 3).attr("y", y - 2)
+                             .text(`${(level * 100).toFixed(1)}% ${price.toFixed(2)}`)
+                             .attr("fill", d.color).attr("font-size", "8px");
+                       });
+                       break;
+                   }
+                   case 'text':
+                       shape.append("text").attr("x", x1).attr("y", y1)
+                         .text(d.text || '')
+                         .attr("fill", d.color).attr("font-size", "11px")
+                         .attr("font-weight", selected ? "bold" : "normal");
+                       break;
+               }
+
+               if (selected) {
+                   [[x1, y1], [x2, y2]].forEach(([hx, hy]) => {
+                       shape.append("circle").attr("cx", hx).attr("cy", hy).attr("r", 3)
+                         .attr("fill", "#0b0e11").attr("stroke", d.color);
+                   });
+               }
+
+               if (d === draftRef.current) return;
+               shape.on("click", (event) => {
+                   event.stopPropagation();
+                   setSelectedDrawingId(d.id);
+               });
+
+               // Move: shift both endpoints by the drag offset in data units
+               let moved = false;
+               shape.call(d3.drag<SVGGElement, unknown>()
+                   .on("drag", (event) => {
+                       const dt = newXScale.invert(event.x).getTime() - newXScale.invert(event.x - event.dx).getTime();
+                       const dp = currentYScale.invert(event.y) - currentYScale.invert(event.y - event.dy);
+                       liveDrawings = liveDrawings.map(l => l.id === d.id ? moveDrawing(l, dt, dp) : l);
+                       moved = true;
+                       renderDrawings();
+                   })
+                   .on("end", () => {
+                       if (moved && onDrawingsChange) onDrawingsChange(liveDrawings);
+                   }));
+           });
+       }
+
+       renderDrawings();
     }
 
     render();
 
-  }, [candles, profile, width, height, layers, orderBlocks, auctionContext, cvdState, lastPrice, sessionLevels]);
+  }, [candles, profile, width, height, layers, orderBlocks, auctionContext, cvdState, lastPrice, sessionLevels, footprint, footprintByTime, developing, composite, priorLevels, tpo, showTpo, tpoView, namedSessions, anchoredVwaps, pickingAnchor, onAddVwapAnchor, drawings, onDrawingsChange, activeTool, selectedDrawingId, structure]);
+
+  // Delete / Backspace removes the selected drawing, Escape cancels the active tool
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+      if (e.key === 'Escape') {
+        setActiveTool(null);
+        setSelectedDrawingId(null);
+        draftRef.current = null;
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawingId && onDrawingsChange) {
+        onDrawingsChange(drawings.filter(d => d.id !== selectedDrawingId));
+        setSelectedDrawingId(null);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [drawings, selectedDrawingId, onDrawingsChange]);
+
+  const hoverFootprint = hoverData && footprint ? footprintByTime.get(hoverData.timestamp) : undefined;
 
   // --- UI Components ---
 
@@ -532,6 +1299,29 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
                 </div>
             </div>
 
+            {hoverFootprint && (
+                <div className="space-y-1 border-t border-gray-800 pt-2">
+                    <div className="flex justify-between">
+                        <span className="text-gray-500">FP Delta:</span>
+                        <span className={`font-bold ${hoverFootprint.delta >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {hoverFootprint.delta >= 0 ? '+' : '-'}{fmtVol(Math.abs(hoverFootprint.delta))}
+                        </span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-gray-500">FP POC:</span>
+                        <span className="text-yellow-400 font-mono">{hoverFootprint.poc}</span>
+                    </div>
+                    <div className="flex justify-between">
+                        <span className="text-gray-500">Stacked:</span>
+                        <span className="font-mono">
+                            <span className="text-green-400">{hoverFootprint.stackedImbalances.filter(r => r.side === 'buy').length}B</span>
+                            {' / '}
+                            <span className="text-red-400">{hoverFootprint.stackedImbalances.filter(r => r.side === 'sell').length}S</span>
+                        </span>
+                    </div>
+                </div>
+            )}
+
             {hoverData.divergence && (
                 <div className={`mt-1 px-2 py-1 rounded text-center font-bold text-[10px] uppercase border ${hoverData.divergence === 'bearish' ? 'bg-yellow-900/30 text-yellow-500 border-yellow-700' : 'bg-cyan-900/30 text-cyan-400 border-cyan-700'}`}>
                     {hoverData.divergence} Divergence
@@ -545,9 +1335,118 @@ const ProfileChart: React.FC<ProfileChartProps> = ({
           <button onClick={() => setLayers(p => ({...p, profile: !p.profile}))} className={`p-1.5 rounded border ${layers.profile ? 'bg-blue-600/20 border-blue-600 text-blue-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Profile"><Activity size={14} /></button>
           <button onClick={() => setLayers(p => ({...p, vwap: !p.vwap}))} className={`p-1.5 rounded border ${layers.vwap ? 'bg-orange-600/20 border-orange-600 text-orange-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle VWAP"><Layers size={14} /></button>
           <button onClick={() => setLayers(p => ({...p, delta: !p.delta}))} className={`p-1.5 rounded border ${layers.delta ? 'bg-green-600/20 border-green-600 text-green-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Delta Panel"><Zap size={14} /></button>
+          <button onClick={() => setLayers(p => ({...p, developing: !p.developing}))} className={`p-1.5 rounded border ${layers.developing ? 'bg-red-600/20 border-red-600 text-red-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Developing POC / VA"><Footprints size={14} /></button>
+          {namedSessions.length > 0 && (
+              <button onClick={() => setLayers(p => ({...p, sessions: !p.sessions}))} className={`p-1.5 rounded border ${layers.sessions ? 'bg-yellow-600/20 border-yellow-600 text-yellow-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Named Sessions"><Globe size={14} /></button>
+          )}
+          {composite && (
+              <button onClick={() => setLayers(p => ({...p, composite: !p.composite}))} className={`p-1.5 rounded border ${layers.composite ? 'bg-purple-600/20 border-purple-600 text-purple-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Composite Profile"><Layers3 size={14} /></button>
+          )}
+          {structure && (
+              <>
+                <button onClick={() => setLayers(p => ({...p, structure: !p.structure}))} className={`p-1.5 rounded border text-[9px] font-bold leading-none w-[28px] ${layers.structure ? 'bg-yellow-600/20 border-yellow-600 text-yellow-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Market Structure (swings, BOS / CHoCH)">MS</button>
+                <button onClick={() => setLayers(p => ({...p, fvg: !p.fvg}))} className={`p-1.5 rounded border text-[9px] font-bold leading-none w-[28px] ${layers.fvg ? 'bg-teal-600/20 border-teal-600 text-teal-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Fair Value Gaps">FVG</button>
+                <button onClick={() => setLayers(p => ({...p, liquidity: !p.liquidity}))} className={`p-1.5 rounded border text-[9px] font-bold leading-none w-[28px] ${layers.liquidity ? 'bg-pink-600/20 border-pink-600 text-pink-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`} title="Toggle Equal Highs / Lows and Sweeps">LIQ</button>
+              </>
+          )}
+          {tpo && (
+              <button
+                onClick={() => setTpoView(v => TPO_VIEW_CYCLE[v])}
+                className={`p-1.5 rounded border text-[9px] font-bold leading-none w-[28px] ${showTpo ? 'bg-cyan-600/20 border-cyan-600 text-cyan-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+                title={tpoView === 'off' ? 'Volume profile — switch to TPO (condensed)' : tpoView === 'condensed' ? 'TPO condensed — switch to split' : 'TPO split — switch to volume profile'}
+              >
+                {tpoView === 'off' ? 'VOL' : tpoView === 'condensed' ? 'TPO' : 'SPL'}
+              </button>
+          )}
+          {onProfileSourceChange && (
+              <button
+                onClick={() => onProfileSourceChange(profileSource === 'trades' ? 'candles' : 'trades')}
+                className={`p-1.5 rounded border text-[9px] font-bold leading-none w-[28px] ${profileSource === 'trades' ? 'bg-purple-600/20 border-purple-600 text-purple-400' : 'bg-gray-800 border-gray-700 text-gray-500'}`}
+                title={profileSource === 'trades' ? 'Profile from trades (bid/ask split) — switch to candles' : 'Profile from candles — switch to trades'}
+              >
+                {profileSource === 'trades' ? 'TRD' : 'CDL'}
+              </button>
+          )}
       </div>
 
       <div className="absolute top-4 right-4 flex gap-2 z-10">
+         {onDrawingsChange && (
+           <div className="flex bg-gray-800 rounded border border-gray-700 shadow-md">
+             {DRAWING_TOOLS.map(({ tool, title }) => (
+               <button
+                 key={tool}
+                 onClick={() => { setActiveTool(t => t === tool ? null : tool); setSelectedDrawingId(null); }}
+                 className={`p-2 ${activeTool === tool ? 'bg-blue-600/30 text-blue-400' : 'text-gray-300 hover:bg-gray-700'}`}
+                 title={title}
+               >
+                 {tool === 'trendline' && <PenLine size={16} />}
+                 {tool === 'horizontal' && <Minus size={16} />}
+                 {tool === 'rectangle' && <Square size={16} />}
+                 {tool === 'fibonacci' && <span className="text-[10px] font-bold leading-4 block w-4">Fib</span>}
+                 {tool === 'text' && <Type size={16} />}
+               </button>
+             ))}
+             <button
+               onClick={() => {
+                 if (!selectedDrawingId) return;
+                 onDrawingsChange(drawings.filter(d => d.id !== selectedDrawingId));
+                 setSelectedDrawingId(null);
+               }}
+               disabled={!selectedDrawingId}
+               className="p-2 text-gray-300 hover:bg-gray-700 hover:text-red-400 disabled:opacity-30 disabled:hover:bg-transparent"
+               title="Delete selected drawing (Del)"
+             >
+               <Trash2 size={16} />
+             </button>
+           </div>
+         )}
+         {onAddVwapAnchor && (
+           <div className="relative">
+             <button
+               onClick={() => setShowAnchorMenu(v => !v)}
+               className={`p-2 rounded border shadow-md ${showAnchorMenu || pickingAnchor ? 'bg-sky-600/20 border-sky-600 text-sky-400' : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-700'}`}
+               title="Anchored VWAP"
+             >
+               <Anchor size={16} />
+             </button>
+             {showAnchorMenu && (
+               <div className="absolute right-0 mt-1 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-xl p-1 text-xs">
+                 {([
+                   ['candle', pickingAnchor ? 'Click a candle…' : 'Pick candle'],
+                   ['sessionOpen', 'Session open'],
+                   ['swingHigh', 'Last swing high'],
+                   ['swingLow', 'Last swing low'],
+                   ['orderBlock', 'Latest order block'],
+                 ] as [VwapAnchorKind, string][]).map(([kind, label]) => (
+                   <button
+                     key={kind}
+                     onClick={() => {
+                       if (kind === 'candle') setPickingAnchor(true);
+                       else onAddVwapAnchor(kind, null);
+                       setShowAnchorMenu(false);
+                     }}
+                     className="w-full text-left px-2 py-1.5 rounded text-gray-300 hover:bg-gray-800"
+                   >
+                     {label}
+                   </button>
+                 ))}
+                 {vwapAnchors.length > 0 && <div className="border-t border-gray-800 my-1" />}
+                 {vwapAnchors.map(anchor => {
+                   const placed = anchoredVwaps.find(a => a.anchor.id === anchor.id);
+                   return (
+                   <div key={anchor.id} className="flex items-center gap-2 px-2 py-1">
+                     <span className="w-2 h-2 rounded-full" style={{ backgroundColor: anchor.color }} />
+                     <span className="text-gray-400 flex-1 truncate">{VWAP_ANCHOR_LABELS[anchor.kind]} · {placed ? new Date(placed.anchorTime).toISOString().slice(11, 16) : 'off chart'}</span>
+                     {onRemoveVwapAnchor && (
+                       <button onClick={() => onRemoveVwapAnchor(anchor.id)} className="text-gray-500 hover:text-red-400"><X size={12} /></button>
+                     )}
+                   </div>
+                   );
+                 })}
+               </div>
+             )}
+           </div>
+         )}
          <button 
            onClick={() => {
               transformRef.current = d3.zoomIdentity;
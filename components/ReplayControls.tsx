@@ -0,0 +1,149 @@
+import React, { useRef } from 'react';
+import { Play, Pause, Upload, Download, Film, X, Radio, Database } from 'lucide-react';
+import { ReplayStatus, REPLAY_SPEEDS } from '../utils/replayEngine';
+import { RecordedRange } from '../services/marketRecorder';
+
+interface ReplayControlsProps {
+  symbol: string | null;     // Loaded recording's symbol
+  status: ReplayStatus;
+  currentTime: number;
+  startTime: number;
+  endTime: number;
+  speed: number;
+  bufferSeconds: number;     // Live session recorded so far
+  storedRanges: RecordedRange[]; // Depth ranges persisted by the market recorder
+  error: string | null;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onUseBuffer: () => void;
+  onUseStored: (range: RecordedRange) => void;
+  onLoadFile: (file: File) => void;
+  onExport: () => void;
+  onExit: () => void;
+}
+
+const fmtClock = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const fmtRange = (range: RecordedRange) => {
+  const day = new Date(range.start).toLocaleDateString([], { month: 'short', day: '2-digit' });
+  const mins = Math.max(1, Math.round((range.end - range.start) / 60000));
+  return `${day} ${fmtClock(range.start)}–${fmtClock(range.end)} (${mins}m)`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({
+  symbol, status, currentTime, startTime, endTime, speed, bufferSeconds, storedRanges, error,
+  onPlay, onPause, onSeek, onSpeedChange, onUseBuffer, onUseStored, onLoadFile, onExport, onExit
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const hasRecording = symbol !== null && endTime > startTime;
+
+  return (
+    <div className="flex items-center gap-3 px-3 py-2 bg-[#0b0e11] border-b border-gray-800 text-[10px] font-mono">
+      <div className="flex items-center gap-1.5 text-orange-400 font-bold uppercase tracking-wider">
+        <Film size={14} />
+        <span>Replay</span>
+        {symbol && <span className="text-gray-400">{symbol}</span>}
+      </div>
+
+      {/* Source */}
+      <div className="flex items-center gap-1">
+        <button
+          onClick={onUseBuffer}
+          disabled={bufferSeconds < 1}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:pointer-events-none"
+          title="Replay the live session recorded so far"
+        >
+          <Radio size={10} /> Session ({Math.floor(bufferSeconds / 60)}m{Math.floor(bufferSeconds % 60)}s)
+        </button>
+        <label
+          className={`flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-400 ${storedRanges.length === 0 ? 'opacity-30 pointer-events-none' : ''}`}
+          title="Replay data stored by the recorder (last hour of the range)"
+        >
+          <Database size={10} />
+          <select
+            value=""
+            onChange={(e) => {
+              const range = storedRanges[Number(e.target.value)];
+              if (range) onUseStored(range);
+            }}
+            className="bg-transparent outline-none cursor-pointer"
+          >
+            <option value="" disabled>Stored ({storedRanges.length})</option>
+            {storedRanges.map((range, i) => (
+              <option key={range.start} value={i} className="bg-gray-900">{fmtRange(range)}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800"
+          title="Load a recording file"
+        >
+          <Upload size={10} /> Load
+        </button>
+        <button
+          onClick={onExport}
+          disabled={bufferSeconds < 1}
+          className="p-1 rounded border border-gray-700 text-gray-400 hover:text-white hover:bg-gray-800 disabled:opacity-30 disabled:pointer-events-none"
+          title="Export the live session recording"
+        >
+          <Download size={10} />
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onLoadFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {/* Transport */}
+      <div className={`flex items-center gap-2 flex-1 ${hasRecording ? '' : 'opacity-30 pointer-events-none'}`}>
+        <button
+          onClick={status === 'playing' ? onPause : onPlay}
+          className="p-1.5 rounded bg-orange-600/20 text-orange-400 hover:bg-orange-600/30"
+        >
+          {status === 'playing' ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <span className="text-gray-300 w-14">{hasRecording ? fmtClock(currentTime) : '--:--:--'}</span>
+        <input
+          type="range"
+          min={startTime}
+          max={endTime}
+          step={1000}
+          value={Math.min(Math.max(currentTime, startTime), endTime)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="flex-1 accent-orange-500"
+        />
+        <span className="text-gray-600 w-14">{hasRecording ? fmtClock(endTime) : '--:--:--'}</span>
+        <div className="flex bg-gray-900 rounded p-0.5 border border-gray-800">
+          {REPLAY_SPEEDS.map(s => (
+            <button
+              key={s}
+              onClick={() => onSpeedChange(s)}
+              className={`px-1.5 py-0.5 rounded ${speed === s ? 'bg-orange-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {s}x
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <span className="text-rose-400 truncate max-w-[200px]" title={error}>{error}</span>}
+
+      <button onClick={onExit} className="p-1 rounded text-gray-500 hover:text-white hover:bg-gray-800" title="Back to live">
+        <X size={12} />
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
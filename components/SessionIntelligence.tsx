@@ -1,13 +1,16 @@
 
 import React, { useMemo } from 'react';
-import { Candle, ProfileMetrics } from '../types';
+import { Candle, ProfileMetrics, ProfileSource } from '../types';
 
 interface SessionIntelligenceProps {
   candles: Candle[];
   profile: ProfileMetrics;
+  profileSource?: ProfileSource;
+  sourceNote?: string; // e.g. loading / partial coverage of the trade profile
+  onProfileSourceChange?: (source: ProfileSource) => void;
 }
 
-export const SessionIntelligence: React.FC<SessionIntelligenceProps> = ({ candles, profile }) => {
+export const SessionIntelligence: React.FC<SessionIntelligenceProps> = ({ candles, profile, profileSource = 'candles', sourceNote, onProfileSourceChange }) => {
   const ctx = useMemo(() => {
     if (!profile || candles.length === 0) return null;
 
@@ -50,12 +53,20 @@ export const SessionIntelligence: React.FC<SessionIntelligenceProps> = ({ candle
     else pocState = 'Rejected (Migration)';
 
     // 4. Delta Summary & Context
+    // A trade-based profile knows the exact aggressor split; otherwise fall back to candle delta
     let netDelta = 0;
     let totalVol = 0;
-    candles.forEach(c => {
-        netDelta += (c.delta || 0);
-        totalVol += c.volume;
-    });
+    if (profile.source === 'trades') {
+        profile.levels.forEach(l => {
+            netDelta += (l.askVol || 0) - (l.bidVol || 0);
+        });
+        totalVol = profile.totalVolume;
+    } else {
+        candles.forEach(c => {
+            netDelta += (c.delta || 0);
+            totalVol += c.volume;
+        });
+    }
     
     let deltaState = 'Balanced';
     const deltaRatio = netDelta / totalVol;
@@ -85,6 +96,20 @@ export const SessionIntelligence: React.FC<SessionIntelligenceProps> = ({ candle
     <div className="bg-[#0b0e11] border border-gray-800 rounded-xl p-6 w-full animate-in fade-in duration-500 mt-6 shadow-2xl">
         <h3 className="text-gray-500 font-bold uppercase tracking-widest text-xs mb-6 border-b border-gray-800 pb-2 flex items-center gap-2">
             Session Profile — Context
+            {sourceNote && <span className="text-[10px] text-gray-600 normal-case tracking-normal font-normal">{sourceNote}</span>}
+            {onProfileSourceChange && (
+                <div className="ml-auto flex bg-gray-900 rounded p-0.5 border border-gray-800 normal-case tracking-normal">
+                    {(['candles', 'trades'] as ProfileSource[]).map(src => (
+                        <button
+                            key={src}
+                            onClick={() => onProfileSourceChange(src)}
+                            className={`px-2 py-0.5 rounded text-[10px] ${profileSource === src ? 'bg-gray-700 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                        >
+                            {src === 'candles' ? 'Candles' : 'Trades'}
+                        </button>
+                    ))}
+                </div>
+            )}
         </h3>
         
         <div className="grid grid-cols-2 md:grid-cols-5 gap-8">
@@ -1,12 +1,14 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { Trade } from '../types';
+import { Trade, ConnectionStatus } from '../types';
 import { ArrowDown, ArrowUp } from 'lucide-react';
 
 interface TapeProps {
   trades: Trade[];
+  status?: ConnectionStatus; // Order flow stream; LIVE when connected
+  isReplay?: boolean;
 }
 
-const Tape: React.FC<TapeProps> = ({ trades }) => {
+const Tape: React.FC<TapeProps> = ({ trades, status = ConnectionStatus.CONNECTED, isReplay = false }) => {
   // Using a virtualized-like list logic: only render last 50
   // Note: 'trades' prop coming in is already managed/buffered by parent
   
@@ -14,7 +16,13 @@ const Tape: React.FC<TapeProps> = ({ trades }) => {
     <div className="flex flex-col h-full bg-[#0d1117] border-l border-gray-800 w-64">
       <div className="px-3 py-2 border-b border-gray-800 bg-gray-900/50 flex justify-between items-center">
         <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Time & Sales</span>
-        <span className="text-[10px] text-gray-600 font-mono">LIVE</span>
+        {isReplay ? (
+          <span className="text-[10px] text-orange-400 font-mono">REPLAY</span>
+        ) : status === ConnectionStatus.CONNECTED ? (
+          <span className="text-[10px] text-gray-600 font-mono">LIVE</span>
+        ) : (
+          <span className={`text-[10px] font-mono uppercase ${status === ConnectionStatus.ERROR ? 'text-rose-500' : 'text-yellow-500 animate-pulse'}`}>{status}</span>
+        )}
       </div>
       
       <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-800">
@@ -1,6 +1,6 @@
 
 import React, { useMemo } from 'react';
-import { EnrichedLevel, PersistentEvent } from '../types';
+import { EnrichedLevel, PersistentEvent, OrderBookView } from '../types';
 import { Shield, Zap, AlertTriangle, ChevronsUp, ChevronsDown, XCircle, Anchor, History, AlertOctagon, Skull } from 'lucide-react';
 
 interface VerticalDOMProps {
@@ -11,6 +11,8 @@ interface VerticalDOMProps {
   showIcebergs: boolean;
   spread: number;
   events: PersistentEvent[]; // New Prop
+  book?: OrderBookView | null; // Full local book (for levels outside the rendered window)
+  now?: number; // Reference time for event ageing (virtual time in replay)
 }
 
 const formatK = (num: number) => {
@@ -25,7 +27,9 @@ const DOMRow = React.memo(({
     side, 
     showIcebergs,
     maxVol,
-    event
+    event,
+    restingQty,
+    now
 }: { 
     level: EnrichedLevel | null; // Can be null if it's a ghost event level
     side: 'bid' | 'ask'; 
@@ -33,8 +37,10 @@ const DOMRow = React.memo(({
     maxVol: number;
     event: PersistentEvent | undefined;
     price: number;
+    restingQty?: number; // Ghost levels: liquidity still resting in the full book
+    now: number;
 }) => {
-    const qty = level ? level.qty : 0;
+    const qty = level ? level.qty : (restingQty || 0);
     
     // Heatmap Color Calculation
     const heatOpacity = Math.min(Math.max((qty / maxVol), 0.05), 1);
@@ -49,8 +55,8 @@ const DOMRow = React.memo(({
     
     if (event) {
         // FAIL uses failTime for aging
-        const startTime = event.state === 'FAIL' ? (event.failTime || Date.now()) : event.firstDetected;
-        const ageMin = (Date.now() - startTime) / 60000;
+        const startTime = event.state === 'FAIL' ? (event.failTime || now) : event.firstDetected;
+        const ageMin = (now - startTime) / 60000;
         
         // FAIL fades fast (2 mins), others fade slow (30 mins)
         const fadeBase = event.state === 'FAIL' ? 2 : 30;
@@ -117,7 +123,7 @@ const DOMRow = React.memo(({
                          {event?.type === 'ABSORPTION' && <Zap size={8} className="text-purple-400" />}
                          {event?.state === 'HOLDING' && <Shield size={8} className="text-green-500" />}
                          {event?.isRetest && <History size={8} className="text-yellow-500 animate-pulse" />}
-                         <span>{level ? formatK(qty) : ''}</span>
+                         <span className={level ? '' : 'opacity-50'}>{qty > 0 ? formatK(qty) : ''}</span>
                     </>
                 )}
             </div>
@@ -143,7 +149,7 @@ const DOMRow = React.memo(({
                             </div>
                             <div className="flex justify-between">
                                 <span>Lifetime:</span>
-                                <span className="font-mono">{((Date.now() - event.firstDetected)/60000).toFixed(1)}m</span>
+                                <span className="font-mono">{((now - event.firstDetected)/60000).toFixed(1)}m</span>
                             </div>
                             <div className="flex justify-between">
                                 <span>Failed Pushes:</span>
@@ -183,7 +189,7 @@ const DOMRow = React.memo(({
             <div className={`text-left px-2 font-mono relative flex items-center gap-1 z-10 ${side === 'ask' ? (isBig ? 'font-bold text-red-300' : 'text-red-500/80') : 'opacity-10'}`}>
                 {side === 'ask' && (
                     <>
-                        <span>{level ? formatK(qty) : ''}</span>
+                        <span className={level ? '' : 'opacity-50'}>{qty > 0 ? formatK(qty) : ''}</span>
                         {event?.isRetest && <History size={8} className="text-yellow-500 animate-pulse" />}
                         {event?.state === 'HOLDING' && <Shield size={8} className="text-red-500" />}
                         {event?.type === 'ABSORPTION' && <Zap size={8} className="text-purple-400" />}
@@ -216,6 +222,7 @@ const DOMRow = React.memo(({
     if (prevLvl?.qty !== nextLvl?.qty) return false;
     if (prevLvl?.deltaQty !== nextLvl?.deltaQty) return false;
     if (prev.maxVol !== next.maxVol) return false;
+    if (prev.restingQty !== next.restingQty) return false;
 
     // Check Event Changes
     if (prevEvt !== nextEvt) return false; 
@@ -230,7 +237,8 @@ const DOMRow = React.memo(({
 });
 
 
-const VerticalDOM: React.FC<VerticalDOMProps> = ({ bids, asks, lastPrice, filterThreshold, showIcebergs, spread, events }) => {
+const VerticalDOM: React.FC<VerticalDOMProps> = ({ bids, asks, lastPrice, filterThreshold, showIcebergs, spread, events, book, now }) => {
+  const refTime = now ?? Date.now();
   
   // Create Maps for fast lookup
   const bidMap = useMemo(() => new Map(bids.map(b => [b.price, b])), [bids]);
@@ -288,6 +296,12 @@ const VerticalDOM: React.FC<VerticalDOMProps> = ({ bids, asks, lastPrice, filter
           <div className="text-left pl-2">Ask</div>
           <div className="text-left pl-2">Delta</div>
        </div>
+       {book && (
+          <div className="flex justify-between px-2 py-0.5 border-b border-gray-800/50 bg-gray-900/40 text-[8px] font-bold text-gray-600 uppercase tracking-wider">
+             <span>Book {book.isSynced() ? 'Synced' : 'Resyncing...'}</span>
+             <span>{book.levelCount().bids} × {book.levelCount().asks} lvls</span>
+          </div>
+       )}
 
        <div className="flex-1 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-800 relative bg-[#0b0e11]">
           
@@ -310,6 +324,8 @@ const VerticalDOM: React.FC<VerticalDOMProps> = ({ bids, asks, lastPrice, filter
                         maxVol={maxVol}
                         event={event}
                         price={price}
+                        now={refTime}
+                        restingQty={!level && book ? book.getQty('ask', price) : undefined}
                     />
                 );
              })}
@@ -355,6 +371,8 @@ const VerticalDOM: React.FC<VerticalDOMProps> = ({ bids, asks, lastPrice, filter
                         maxVol={maxVol}
                         event={event}
                         price={price}
+                        now={refTime}
+                        restingQty={!level && book ? book.getQty('bid', price) : undefined}
                     />
                 );
              })}
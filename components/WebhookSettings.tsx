@@ -0,0 +1,139 @@
+import React, { useMemo, useState } from 'react';
+import { Plus, Send, Trash2 } from 'lucide-react';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookDestination } from '../types';
+import { DEFAULT_WEBHOOK_TEMPLATE, MOCK_WEBHOOK_URL, WEBHOOK_PLACEHOLDERS, renderWebhookPayload } from '../services/webhookService';
+
+interface WebhookSettingsProps {
+  destinations: WebhookDestination[];
+  deliveries: WebhookDelivery[]; // Newest first
+  onAdd: (destination: WebhookDestination) => void;
+  onUpdate: (id: string, patch: Partial<WebhookDestination>) => void;
+  onRemove: (id: string) => void;
+  onTest: (destination: WebhookDestination) => void;
+}
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, string> = {
+  queued: 'text-gray-400',
+  retrying: 'text-yellow-500',
+  sent: 'text-green-500',
+  failed: 'text-red-400',
+};
+
+const DEFAULT_RATE_PER_MINUTE = 30;
+
+const SAMPLE_ALERT = { id: 'sample', ruleId: 'sample', symbol: 'BTCUSDT', message: 'Sample "alert"', price: 1, time: 0 };
+
+const fmtTime = (ms: number) =>
+  new Date(ms).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const inputClass = 'bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 outline-none';
+
+// Error message when the template doesn't render to valid JSON
+const validateTemplate = (template: string): string | null => {
+  try {
+    renderWebhookPayload(template, SAMPLE_ALERT);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+};
+
+const WebhookSettings: React.FC<WebhookSettingsProps> = ({ destinations, deliveries, onAdd, onUpdate, onRemove, onTest }) => {
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [rate, setRate] = useState(DEFAULT_RATE_PER_MINUTE);
+  const [template, setTemplate] = useState(DEFAULT_WEBHOOK_TEMPLATE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const templateError = useMemo(() => validateTemplate(template), [template]);
+  const canSave = url.trim() !== '' && templateError === null && rate > 0;
+  const names = useMemo(() => new Map(destinations.map(d => [d.id, d.name])), [destinations]);
+
+  const resetForm = () => {
+    setName('');
+    setUrl('');
+    setRate(DEFAULT_RATE_PER_MINUTE);
+    setTemplate(DEFAULT_WEBHOOK_TEMPLATE);
+    setEditingId(null);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    const fields = { name: name.trim() || url.trim(), url: url.trim(), ratePerMinute: rate, template };
+    if (editingId) onUpdate(editingId, fields);
+    else onAdd({ id: `webhook-${Date.now()}`, enabled: true, ...fields });
+    resetForm();
+  };
+
+  const handleEdit = (d: WebhookDestination) => {
+    setEditingId(d.id);
+    setName(d.name);
+    setUrl(d.url);
+    setRate(d.ratePerMinute);
+    setTemplate(d.template);
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Destination Form */}
+      <div className="p-4 border-b border-gray-800 space-y-2">
+        <div className="flex items-center gap-2">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Name" className={`${inputClass} w-28`} />
+          <input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="https://..." className={`${inputClass} flex-1 min-w-0`} />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-[10px] text-gray-500 uppercase font-bold">Max / min</span>
+          <input type="number" min={1} value={rate} onChange={(e) => setRate(Number(e.target.value))} className={`${inputClass} w-16`} />
+          <button onClick={() => { setUrl(MOCK_WEBHOOK_URL); if (!name) setName('Mock receiver'); }} className="text-[10px] text-gray-500 hover:text-gray-300 underline" title="Dev server only; GET the same URL to see what arrived">
+            Use mock receiver
+          </button>
+        </div>
+        <textarea value={template} onChange={(e) => setTemplate(e.target.value)} rows={6} spellCheck={false} className={`${inputClass} w-full font-mono text-[11px] resize-none`} />
+        <div className="text-[10px] text-gray-600">
+          {templateError ? <span className="text-red-400">Invalid JSON: {templateError}</span> : WEBHOOK_PLACEHOLDERS.map(p => `{{${p}}}`).join(' ')}
+        </div>
+        <div className="flex justify-end gap-2">
+          {editingId && <button onClick={resetForm} className="px-3 py-1 rounded border border-gray-700 text-xs text-gray-400">Cancel</button>}
+          <button onClick={handleSave} disabled={!canSave} className="flex items-center gap-1 px-3 py-1 rounded bg-blue-600 text-white text-xs font-bold disabled:opacity-40">
+            <Plus size={12} /> {editingId ? 'Save' : 'Add'}
+          </button>
+        </div>
+      </div>
+
+      {/* Destinations */}
+      <div className="max-h-[25%] overflow-y-auto border-b border-gray-800">
+        {destinations.length === 0 && <div className="px-4 py-3 text-xs text-gray-600">No destinations yet.</div>}
+        {destinations.map(d => (
+          <div key={d.id} className={`flex items-center gap-2 px-4 py-2 border-b border-gray-800/50 text-xs ${d.enabled ? '' : 'opacity-50'}`}>
+            <input type="checkbox" checked={d.enabled} onChange={(e) => onUpdate(d.id, { enabled: e.target.checked })} className="accent-blue-500" />
+            <div className="flex-1 min-w-0 cursor-pointer" onClick={() => handleEdit(d)} title="Edit">
+              <div className="font-bold text-gray-300 truncate">{d.name}</div>
+              <div className="text-[10px] text-gray-500 truncate">{d.url} · {d.ratePerMinute}/min</div>
+            </div>
+            <button onClick={() => onTest(d)} className="text-gray-500 hover:text-blue-400" title="Send a test payload"><Send size={12} /></button>
+            <button onClick={() => onRemove(d.id)} className="text-gray-600 hover:text-red-400" title="Delete destination"><Trash2 size={12} /></button>
+          </div>
+        ))}
+      </div>
+
+      {/* Deliveries */}
+      <div className="px-4 py-2 text-[10px] font-bold uppercase text-gray-500">Deliveries ({deliveries.length})</div>
+      <div className="flex-1 overflow-y-auto">
+        {deliveries.map(d => (
+          <div key={d.id} className="px-4 py-1.5 border-b border-gray-800/40 text-[11px]">
+            <div className="flex justify-between">
+              <span className="text-gray-300 truncate">{names.get(d.destinationId) || 'Removed'} · {d.symbol}</span>
+              <span className="font-mono text-gray-600">{fmtTime(d.time)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className={`font-bold uppercase text-[10px] ${STATUS_COLORS[d.status]}`}>{d.status}{d.attempts > 1 ? ` (${d.attempts})` : ''}</span>
+              {d.error && <span className="text-[10px] text-gray-500 truncate ml-2">{d.error}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default WebhookSettings;
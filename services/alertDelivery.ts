@@ -0,0 +1,70 @@
+import { AlertEvent, AlertRule } from '../types';
+
+export type NotificationAccess = NotificationPermission | 'unsupported';
+
+const SOUND_DURATION_S = 0.25;
+
+let audioContext: AudioContext | null = null;
+
+export const getNotificationAccess = (): NotificationAccess =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+/**
+ * Asks for notification permission. Browsers only allow this from a user gesture.
+ */
+export const requestNotificationAccess = async (): Promise<NotificationAccess> => {
+  if (typeof Notification === 'undefined') return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+const showNotification = (alert: AlertEvent) => {
+  if (getNotificationAccess() !== 'granted') return;
+  try {
+    // Same tag replaces the previous popup of a rule/symbol instead of stacking them
+    new Notification(alert.symbol, { body: alert.message, tag: `${alert.ruleId}:${alert.symbol}` });
+  } catch (e) {
+    console.warn('Notification failed', e);
+  }
+};
+
+/**
+ * Short two-tone beep; no audio assets needed. Silently does nothing until the page has
+ * had a user gesture (autoplay policy).
+ */
+export const playAlertSound = () => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    if (audioContext.state === 'suspended') audioContext.resume();
+    const start = audioContext.currentTime;
+    const gain = audioContext.createGain();
+    gain.gain.setValueAtTime(0.15, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + SOUND_DURATION_S * 2);
+    gain.connect(audioContext.destination);
+
+    [880, 1320].forEach((freq, i) => {
+      const osc = audioContext!.createOscillator();
+      osc.frequency.value = freq;
+      osc.connect(gain);
+      osc.start(start + i * SOUND_DURATION_S);
+      osc.stop(start + (i + 1) * SOUND_DURATION_S);
+    });
+  } catch (e) {
+    console.warn('Alert sound failed', e);
+  }
+};
+
+/**
+ * Sends fired alerts out through the channels their rule enables. One sound per batch.
+ */
+export const deliverAlerts = (alerts: AlertEvent[], rules: AlertRule[]) => {
+  const byId = new Map(rules.map(r => [r.id, r]));
+  let sound = false;
+  alerts.forEach(alert => {
+    const rule = byId.get(alert.ruleId);
+    if (!rule) return;
+    if (rule.notify) showNotification(alert);
+    sound = sound || rule.sound;
+  });
+  if (sound) playAlertSound();
+};
@@ -0,0 +1,153 @@
+import { ScreenerTimeframe } from '../types';
+import { RollingStats } from '../utils/rollingStats';
+
+export type BaselineMetric = 'delta' | 'funding' | `volume:${ScreenerTimeframe}`;
+
+export interface BaselineStats {
+  center: number; // Median
+  scale: number;  // MAD (std-equivalent), falls back to std when MAD collapses
+  samples: number;
+}
+
+interface BaselineEntry {
+  stats: RollingStats;
+  lastTime: number; // Timestamp of the newest sample, used to drop replays
+}
+
+interface PersistedBaselines {
+  version: number;
+  savedAt: number;
+  entries: Record<string, { values: number[]; lastTime: number }>;
+}
+
+const STORAGE_VERSION = 1;
+const SAVE_DEBOUNCE_MS = 5000;
+const MAX_ENTRY_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Forget symbols we haven't seen for a week
+
+// Window length per metric family
+const CAPACITY: Record<'delta' | 'funding' | 'volume', number> = {
+  delta: 240,   // 4h of closed 1m bars
+  funding: 90,  // ~30 days of 8h settlements
+  volume: 200,  // Closed bars of the screener timeframe
+};
+
+// Below this many samples a baseline is not trusted
+const MIN_SAMPLES: Record<'delta' | 'funding' | 'volume', number> = {
+  delta: 20,
+  funding: 10,
+  volume: 20,
+};
+
+const family = (metric: BaselineMetric): 'delta' | 'funding' | 'volume' =>
+  metric.startsWith('volume') ? 'volume' : (metric as 'delta' | 'funding');
+
+// Persist ~6 significant digits; full doubles would triple the payload for no gain
+const compact = (v: number): number => Number(v.toPrecision(6));
+
+/**
+ * Per-symbol rolling baselines (median / MAD) for volume, delta and funding.
+ * Samples are timestamped so re-seeding from REST after a reload never double counts,
+ * and the whole set is persisted to localStorage so anomaly scores are meaningful
+ * from the first minute of a new session.
+ */
+export class BaselineService {
+  private entries: Map<string, BaselineEntry> = new Map();
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private storageKey: string) {
+    this.load();
+  }
+
+  /**
+   * Adds one sample. Samples at or before the newest stored timestamp are ignored.
+   */
+  public push(symbol: string, metric: BaselineMetric, value: number, time: number) {
+    const entry = this.getEntry(symbol, metric);
+    if (time <= entry.lastTime || !Number.isFinite(value)) return;
+    entry.stats.push(value);
+    entry.lastTime = time;
+    this.scheduleSave();
+  }
+
+  /**
+   * Bulk version of push for history fetched over REST (oldest first).
+   */
+  public seed(symbol: string, metric: BaselineMetric, samples: { time: number; value: number }[]) {
+    samples.forEach(s => this.push(symbol, metric, s.value, s.time));
+  }
+
+  public lastTime(symbol: string, metric: BaselineMetric): number {
+    return this.entries.get(this.key(symbol, metric))?.lastTime || 0;
+  }
+
+  public stats(symbol: string, metric: BaselineMetric): BaselineStats | null {
+    const entry = this.entries.get(this.key(symbol, metric));
+    if (!entry || entry.stats.size < MIN_SAMPLES[family(metric)]) return null;
+
+    const mad = entry.stats.mad();
+    return {
+      center: entry.stats.median(),
+      scale: mad > 0 ? mad : entry.stats.std(),
+      samples: entry.stats.size,
+    };
+  }
+
+  public clear() {
+    this.entries.clear();
+    this.scheduleSave();
+  }
+
+  private key(symbol: string, metric: BaselineMetric): string {
+    return `${symbol}|${metric}`;
+  }
+
+  private getEntry(symbol: string, metric: BaselineMetric): BaselineEntry {
+    const key = this.key(symbol, metric);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = { stats: new RollingStats(CAPACITY[family(metric)]), lastTime: 0 };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  // --- Persistence ---
+
+  private load() {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return;
+      const data: PersistedBaselines = JSON.parse(raw);
+      if (data.version !== STORAGE_VERSION) return;
+
+      const cutoff = Date.now() - MAX_ENTRY_AGE_MS;
+      Object.entries(data.entries).forEach(([key, { values, lastTime }]) => {
+        if (lastTime < cutoff) return;
+        const metric = key.split('|')[1] as BaselineMetric;
+        this.entries.set(key, { stats: new RollingStats(CAPACITY[family(metric)], values), lastTime });
+      });
+    } catch (e) {
+      console.warn('Failed to load baselines', e);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private save() {
+    const data: PersistedBaselines = { version: STORAGE_VERSION, savedAt: Date.now(), entries: {} };
+    this.entries.forEach((entry, key) => {
+      data.entries[key] = { values: entry.stats.values().map(compact), lastTime: entry.lastTime };
+    });
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (e) {
+      console.warn('Failed to persist baselines', e);
+    }
+  }
+}
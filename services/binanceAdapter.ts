@@ -0,0 +1,496 @@
+import { Candle, ConnectionStatus, Timeframe, Trade, OrderBookView, TickerSnapshot, FundingRateSample } from '../types';
+import { ExchangeAdapter } from './exchangeAdapter';
+import { StreamHub } from './streamHub';
+import { LocalOrderBook, OrderBookSync, DepthSnapshot, PriceQty } from '../utils/orderBook';
+import { intervalToMs } from '../utils/time';
+
+export interface BinanceAdapterConfig {
+  restUrl: string;           // REST base, e.g. https://fapi.binance.com/fapi/v1
+  combinedStreamUrl: string; // Combined stream endpoint
+}
+
+// Binance Futures API to match "Perpetuals" context of screenshot
+const DEFAULT_CONFIG: BinanceAdapterConfig = {
+  restUrl: 'https://fapi.binance.com/fapi/v1',
+  combinedStreamUrl: 'wss://fstream.binance.com/stream',
+};
+
+const FALLBACK_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'DOGEUSDT', 'XRPUSDT', 'ADAUSDT', 'AVAXUSDT'];
+
+/**
+ * Maps a raw REST kline array into our Candle shape.
+ */
+const parseRestKline = (d: any): Candle => ({
+  timestamp: d[0],
+  open: parseFloat(d[1]),
+  high: parseFloat(d[2]),
+  low: parseFloat(d[3]),
+  close: parseFloat(d[4]),
+  volume: parseFloat(d[5]),
+  takerBuyVolume: parseFloat(d[9]),
+  isClosed: true,
+});
+
+/**
+ * Maps a kline stream payload (`k` object) into our Candle shape.
+ */
+const parseWsKline = (k: any): Candle => ({
+  timestamp: k.t,
+  open: parseFloat(k.o),
+  high: parseFloat(k.h),
+  low: parseFloat(k.l),
+  close: parseFloat(k.c),
+  volume: parseFloat(k.v),
+  takerBuyVolume: parseFloat(k.V),
+  isClosed: k.x,
+});
+
+/**
+ * Maps a depth payload side ([price, qty][] as strings) into numeric pairs.
+ */
+const parseDepthSide = (side: string[][]): PriceQty[] =>
+  side.map((item) => [parseFloat(item[0]), parseFloat(item[1])]);
+
+/**
+ * Builds a Trade from aggTrade fields (shared by the WS stream and the REST backfill).
+ */
+const parseAggTrade = (id: number, price: string, qty: string, time: number, isBuyerMaker: boolean): Trade => {
+  const p = parseFloat(price);
+  const q = parseFloat(qty);
+  return {
+    id,
+    price: p,
+    qty: q,
+    time,
+    isBuyerMaker,
+    isLarge: p * q > 10000, // > $10k threshold for large
+  };
+};
+
+const DEPTH_SNAPSHOT_LIMIT = 1000;
+
+// Gap backfill after a reconnect
+const KLINE_BACKFILL_LIMIT = 1500;
+const AGG_TRADES_PAGE = 1000;
+const MAX_BACKFILL_PAGES = 10; // Longer gaps are not worth replaying trade by trade
+
+// Venue cap on streams per combined connection
+const MAX_STREAMS_PER_CONNECTION = 200;
+
+/**
+ * Binance USDⓈ-M Futures implementation.
+ * URLs are injectable so the same adapter can be pointed at testnet or a local stand-in.
+ */
+export const createBinanceAdapter = (overrides: Partial<BinanceAdapterConfig> = {}): ExchangeAdapter => {
+  const { restUrl, combinedStreamUrl } = { ...DEFAULT_CONFIG, ...overrides };
+
+  // Every subscription below shares the hub's combined-stream connections
+  const hub = new StreamHub(combinedStreamUrl, {
+    label: 'Binance',
+    maxStreamsPerConnection: MAX_STREAMS_PER_CONNECTION,
+  });
+
+  /**
+   * Fetches the top liquid USDT pairs from Binance Futures.
+   * Returns a list of symbols (e.g., ['BTCUSDT', 'ETHUSDT', ...])
+   */
+  const fetchTopSymbols = async (limit: number = 100): Promise<string[]> => {
+    try {
+      const response = await fetch(`${restUrl}/ticker/24hr`);
+      if (!response.ok) throw new Error('Failed to fetch ticker data');
+      const data = await response.json();
+
+      // Filter for USDT pairs and sort by Quote Volume (most liquid first)
+      const sorted = data
+        .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
+        .sort((a: any, b: any) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
+        .slice(0, limit)
+        .map((ticker: any) => ticker.symbol);
+
+      return sorted;
+    } catch (error) {
+      console.error('Error fetching top symbols:', error);
+      return FALLBACK_SYMBOLS;
+    }
+  };
+
+  /**
+   * Fetches all funding rates from premiumIndex endpoint
+   */
+  const fetchFundingRates = async (): Promise<Map<string, number>> => {
+    try {
+      const response = await fetch(`${restUrl}/premiumIndex`);
+      if (!response.ok) throw new Error('Failed to fetch funding rates');
+      const data = await response.json();
+      const map = new Map<string, number>();
+      data.forEach((item: any) => {
+        // lastFundingRate is a string, e.g. "0.00010000"
+        map.set(item.symbol, parseFloat(item.lastFundingRate));
+      });
+      return map;
+    } catch (error) {
+      console.error('Error fetching funding rates:', error);
+      return new Map();
+    }
+  };
+
+  /**
+   * Fetches settled funding rates for one symbol (oldest first).
+   */
+  const fetchFundingHistory = async (symbol: string, limit: number = 100): Promise<FundingRateSample[]> => {
+    const response = await fetch(`${restUrl}/fundingRate?symbol=${symbol.toUpperCase()}&limit=${limit}`);
+    if (!response.ok) throw new Error(`Failed to fetch funding history: ${response.statusText}`);
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+    return data.map((d: any) => ({ time: d.fundingTime, rate: parseFloat(d.fundingRate) }));
+  };
+
+  /**
+   * Fetches 24h quote volume for every symbol.
+   */
+  const fetch24hVolumes = async (): Promise<Map<string, number>> => {
+    const map = new Map<string, number>();
+    try {
+      const response = await fetch(`${restUrl}/ticker/24hr`);
+      const data = await response.json();
+      data.forEach((t: any) => {
+        map.set(t.symbol, parseFloat(t.quoteVolume));
+      });
+    } catch (e) {
+      console.warn("Failed to fetch 24h volume snapshot", e);
+    }
+    return map;
+  };
+
+  /**
+   * Fetches the latest `limit` candles. Throws on transport errors so callers can skip the symbol.
+   */
+  const fetchKlines = async (symbol: string, interval: string, limit: number): Promise<Candle[]> => {
+    const response = await fetch(`${restUrl}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`);
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+    return data.map(parseRestKline);
+  };
+
+  /**
+   * Fetches candles for a specific time range.
+   */
+  const fetchDailyCandles = async (
+    symbol: string,
+    startTime: number,
+    endTime: number,
+    interval: Timeframe = '15m'
+  ): Promise<Candle[]> => {
+    const allCandles: Candle[] = [];
+    let currentStart = startTime;
+
+    const timePerCandle = intervalToMs(interval);
+    const CHUNK_SIZE = timePerCandle * 1000;
+
+    try {
+      while (currentStart < endTime) {
+        const currentEnd = Math.min(currentStart + CHUNK_SIZE, endTime);
+        if (currentStart >= currentEnd) break;
+
+        const response = await fetch(
+          `${restUrl}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&startTime=${currentStart}&endTime=${currentEnd}&limit=1500`
+        );
+
+        if (!response.ok) throw new Error(`Failed to fetch history: ${response.statusText}`);
+
+        const data = await response.json();
+        if (!Array.isArray(data) || data.length === 0) break;
+
+        const chunkCandles: Candle[] = data.map(parseRestKline);
+
+        allCandles.push(...chunkCandles);
+        const lastTimestamp = chunkCandles[chunkCandles.length - 1].timestamp;
+        currentStart = lastTimestamp + 1; // Advance
+
+        if (chunkCandles.length < 500 && currentStart < endTime) break;
+      }
+
+      const uniqueCandles = Array.from(new Map(allCandles.map(c => [c.timestamp, c])).values());
+      return uniqueCandles.sort((a, b) => a.timestamp - b.timestamp);
+    } catch (error) {
+      console.error('Error fetching daily candles:', error);
+      return [];
+    }
+  };
+
+  /**
+   * Fetches aggTrades starting at `fromId` (inclusive), oldest first.
+   */
+  const fetchAggTrades = async (symbol: string, fromId: number, limit: number = AGG_TRADES_PAGE): Promise<Trade[]> => {
+    const response = await fetch(`${restUrl}/aggTrades?symbol=${symbol.toUpperCase()}&fromId=${fromId}&limit=${limit}`);
+    if (!response.ok) throw new Error(`Failed to fetch aggTrades: ${response.statusText}`);
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+    return data.map((t: any) => parseAggTrade(t.a, t.p, t.q, t.T, t.m));
+  };
+
+  const fetchAggTradesSince = async (symbol: string, startTime: number, limit: number = AGG_TRADES_PAGE): Promise<Trade[]> => {
+    const response = await fetch(`${restUrl}/aggTrades?symbol=${symbol.toUpperCase()}&startTime=${Math.floor(startTime)}&limit=${limit}`);
+    if (!response.ok) throw new Error(`Failed to fetch aggTrades: ${response.statusText}`);
+    const data = await response.json();
+    if (!Array.isArray(data)) return [];
+    return data.map((t: any) => parseAggTrade(t.a, t.p, t.q, t.T, t.m));
+  };
+
+  const subscribeToTicker = (
+    symbol: string,
+    onCandle: (candle: Candle) => void,
+    onStatus: (status: ConnectionStatus) => void,
+    interval: string = '15m'
+  ) => {
+    const intervalMs = intervalToMs(interval);
+    let lastTimestamp = 0;
+    let backfilling = false;
+    let pending: Candle[] = [];
+
+    const emit = (candle: Candle) => {
+      if (candle.timestamp < lastTimestamp) return;
+      lastTimestamp = candle.timestamp;
+      onCandle(candle);
+    };
+
+    // REST-fill every candle from the last one we saw (it may have closed while we were away)
+    const backfill = async () => {
+      if (!lastTimestamp || backfilling) return;
+      backfilling = true;
+      try {
+        const response = await fetch(
+          `${restUrl}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&startTime=${lastTimestamp}&limit=${KLINE_BACKFILL_LIMIT}`
+        );
+        if (!response.ok) throw new Error(`Failed to backfill klines: ${response.statusText}`);
+        const data = await response.json();
+        if (Array.isArray(data)) {
+          const now = Date.now();
+          data.map(parseRestKline).forEach((c: Candle) => {
+            emit({ ...c, isClosed: c.timestamp + intervalMs <= now });
+          });
+        }
+      } catch (e) {
+        console.error('Kline backfill error', e);
+      } finally {
+        backfilling = false;
+        const queued = pending;
+        pending = [];
+        queued.forEach(emit);
+      }
+    };
+
+    return hub.subscribe([`${symbol.toLowerCase()}@kline_${interval}`], {
+      onStatus,
+      onReconnect: backfill,
+      onMessage: (_, data) => {
+        if (data.e !== 'kline') return;
+        const candle = parseWsKline(data.k);
+        // Hold live candles until the backfill is in so the caller sees them in order
+        if (backfilling) pending.push(candle);
+        else emit(candle);
+      },
+    });
+  };
+
+  /**
+   * Klines for many symbols over the shared connections.
+   * Used by the radar for live per-symbol metrics, so missed bars are not backfilled.
+   */
+  const subscribeToKlines = (
+    symbols: string[],
+    interval: string,
+    onCandle: (symbol: string, candle: Candle) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => {
+    if (symbols.length === 0) return () => {};
+
+    return hub.subscribe(symbols.map(s => `${s.toLowerCase()}@kline_${interval}`), {
+      onStatus,
+      onMessage: (_, data) => {
+        if (data.e !== 'kline') return;
+        onCandle(data.s, parseWsKline(data.k));
+      },
+    });
+  };
+
+  /**
+   * Subscribes to the All Market Ticker Stream.
+   * Snapshots are full 24h stats, so nothing needs backfilling after a reconnect.
+   * Returns a cleanup function.
+   */
+  const subscribeToAllMarketTicker = (
+    onData: (data: Map<string, TickerSnapshot>) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => {
+    return hub.subscribe(['!ticker@arr'], {
+      onStatus,
+      onMessage: (_, data) => {
+        if (!Array.isArray(data)) return;
+        const updateMap = new Map<string, TickerSnapshot>();
+        data.forEach((t: any) => {
+          if (t.s.endsWith('USDT')) {
+            updateMap.set(t.s, {
+              price: parseFloat(t.c),
+              chg24h: parseFloat(t.P),
+              vol24h: parseFloat(t.q)
+            });
+          }
+        });
+        onData(updateMap);
+      },
+    });
+  };
+
+  // --- Order Flow Subscriptions ---
+
+  /**
+   * REST depth snapshot used to seed / resync the local book.
+   */
+  const fetchDepthSnapshot = async (symbol: string): Promise<DepthSnapshot> => {
+    const response = await fetch(`${restUrl}/depth?symbol=${symbol.toUpperCase()}&limit=${DEPTH_SNAPSHOT_LIMIT}`);
+    if (!response.ok) throw new Error(`Failed to fetch depth snapshot: ${response.statusText}`);
+    const data = await response.json();
+    return {
+      lastUpdateId: data.lastUpdateId,
+      bids: parseDepthSide(data.bids),
+      asks: parseDepthSide(data.asks),
+    };
+  };
+
+  /**
+   * Keeps live aggTrades and their REST backfill in one ordered, duplicate-free sequence.
+   * After a reconnect, backfill() pages /aggTrades from the last seen id while live
+   * trades are held back, so the caller never sees a gap or an out-of-order trade.
+   */
+  const createTradeSequencer = (symbol: string, onTrade: (trade: Trade) => void) => {
+    let lastTradeId = 0;
+    let backfilling = false;
+    let pending: Trade[] = [];
+
+    const emit = (trade: Trade) => {
+      if (trade.id <= lastTradeId) return; // Backfill and live stream overlap
+      lastTradeId = trade.id;
+      onTrade(trade);
+    };
+
+    const backfill = async () => {
+      if (!lastTradeId || backfilling) return;
+      backfilling = true;
+      try {
+        for (let page = 0; page < MAX_BACKFILL_PAGES; page++) {
+          const trades = await fetchAggTrades(symbol, lastTradeId + 1);
+          trades.forEach(emit);
+          if (trades.length < AGG_TRADES_PAGE) break;
+        }
+      } catch (e) {
+        console.error('aggTrade backfill error', e);
+      } finally {
+        backfilling = false;
+        const queued = pending;
+        pending = [];
+        queued.forEach(emit);
+      }
+    };
+
+    return {
+      push: (trade: Trade) => {
+        if (backfilling) pending.push(trade);
+        else emit(trade);
+      },
+      backfill,
+    };
+  };
+
+  const subscribeToTrades = (
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => {
+    const trades = createTradeSequencer(symbol, onTrade);
+    return hub.subscribe([`${symbol.toLowerCase()}@aggTrade`], {
+      onStatus,
+      onReconnect: trades.backfill,
+      onMessage: (_, data) => {
+        if (data.e !== 'aggTrade') return;
+        trades.push(parseAggTrade(data.a, data.p, data.q, data.T, data.m));
+      },
+    });
+  };
+
+  /**
+   * aggTrade + diff-depth streams for every symbol over the shared connections.
+   * Each symbol keeps its own local book and trade sequence.
+   */
+  const subscribeToOrderFlows = (
+    symbols: string[],
+    onTrade: (symbol: string, trade: Trade) => void,
+    onDepth: (symbol: string, book: OrderBookView) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => {
+    // One hub listener per symbol, so a reconnect only resyncs the symbols it carried
+    const unsubscribes = symbols.map(symbol => {
+      const lowerSymbol = symbol.toLowerCase();
+      const sync = new OrderBookSync(new LocalOrderBook(), () => fetchDepthSnapshot(symbol), (book) => onDepth(symbol, book));
+      const trades = createTradeSequencer(symbol, (trade) => onTrade(symbol, trade));
+
+      const unsubscribe = hub.subscribe([`${lowerSymbol}@aggTrade`, `${lowerSymbol}@depth@100ms`], {
+        onStatus,
+        onReconnect: () => {
+          // Diffs missed while down can't be replayed, so the book starts over from a snapshot
+          sync.invalidate();
+          trades.backfill();
+        },
+        onMessage: (stream, data) => {
+          if (stream.endsWith('@aggTrade')) {
+            trades.push(parseAggTrade(data.a, data.p, data.q, data.T, data.m));
+          } else if (stream.endsWith('@depth@100ms')) {
+            // Diff-depth event: U/u bound the update IDs, pu chains onto the previous event
+            sync.handleDiff({
+              firstUpdateId: data.U,
+              finalUpdateId: data.u,
+              prevFinalUpdateId: data.pu,
+              bids: parseDepthSide(data.b),
+              asks: parseDepthSide(data.a),
+            });
+          }
+        },
+      });
+
+      return () => {
+        sync.dispose();
+        unsubscribe();
+      };
+    });
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  };
+
+  const subscribeToOrderFlow = (
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onDepth: (book: OrderBookView) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => subscribeToOrderFlows([symbol], (_, trade) => onTrade(trade), (_, book) => onDepth(book), onStatus);
+
+  return {
+    id: 'binance',
+    name: 'Binance Futures',
+    fetchTopSymbols,
+    fetchDailyCandles,
+    fetchKlines,
+    fetchFundingRates,
+    fetchFundingHistory,
+    fetch24hVolumes,
+    fetchAggTrades,
+    fetchAggTradesSince,
+    subscribeToTicker,
+    subscribeToKlines,
+    subscribeToAllMarketTicker,
+    subscribeToTrades,
+    subscribeToOrderFlow,
+    subscribeToOrderFlows,
+  };
+};
+
+export const binanceAdapter = createBinanceAdapter();
@@ -0,0 +1,94 @@
+import { Candle, ConnectionStatus, Timeframe, Trade, OrderBookView, TickerSnapshot, FundingRateSample } from '../types';
+
+export type ExchangeId = 'binance';
+
+export type Unsubscribe = () => void;
+
+/**
+ * Venue-agnostic market data contract.
+ * Every REST/WS call the terminal makes goes through one of these, so the UI never
+ * touches exchange URLs or raw payload shapes. Implementations normalise into our types.
+ */
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  readonly name: string;
+
+  /** Most liquid USDT symbols, sorted by quote volume (most liquid first). */
+  fetchTopSymbols(limit?: number): Promise<string[]>;
+
+  /** Paginated candle history for [startTime, endTime]. */
+  fetchDailyCandles(symbol: string, startTime: number, endTime: number, interval?: Timeframe): Promise<Candle[]>;
+
+  /** Latest N candles of any interval the venue supports. */
+  fetchKlines(symbol: string, interval: string, limit: number): Promise<Candle[]>;
+
+  /** Current funding rate per symbol (raw fraction, e.g. 0.0001). */
+  fetchFundingRates(): Promise<Map<string, number>>;
+
+  /** Settled funding history for one symbol, oldest first. */
+  fetchFundingHistory(symbol: string, limit?: number): Promise<FundingRateSample[]>;
+
+  /** 24h quote volume per symbol. */
+  fetch24hVolumes(): Promise<Map<string, number>>;
+
+  /** Aggregated trades from `fromId` (inclusive), oldest first. */
+  fetchAggTrades(symbol: string, fromId: number, limit?: number): Promise<Trade[]>;
+
+  /** Aggregated trades at or after `startTime`, oldest first. */
+  fetchAggTradesSince(symbol: string, startTime: number, limit?: number): Promise<Trade[]>;
+
+  /**
+   * Subscriptions below reconnect on their own (backoff + staleness detection) and report
+   * CONNECTING / CONNECTED / RECONNECTING / ERROR / DISCONNECTED through onStatus.
+   * After a reconnect, gaps are backfilled over REST before live data resumes, so callers
+   * keep receiving candles and trades in order.
+   * Implementations may share connections between subscriptions; unsubscribing only
+   * releases the caller's streams.
+   */
+  subscribeToTicker(
+    symbol: string,
+    onCandle: (candle: Candle) => void,
+    onStatus: (status: ConnectionStatus) => void,
+    interval?: string
+  ): Unsubscribe;
+
+  /** One kline stream per symbol, multiplexed over shared connections. */
+  subscribeToKlines(
+    symbols: string[],
+    interval: string,
+    onCandle: (symbol: string, candle: Candle) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ): Unsubscribe;
+
+  subscribeToAllMarketTicker(
+    onData: (data: Map<string, TickerSnapshot>) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ): Unsubscribe;
+
+  /** aggTrades only, with the same gap backfill as subscribeToOrderFlow. */
+  subscribeToTrades(
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ): Unsubscribe;
+
+  /**
+   * aggTrades plus a full-depth local book (snapshot + diff stream, resynced on gaps).
+   * onDepth receives the live book after every applied update; slice it with getBids/getAsks.
+   * A reconnect triggers a fresh depth snapshot.
+   */
+  subscribeToOrderFlow(
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onDepth: (book: OrderBookView) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ): Unsubscribe;
+
+  /** subscribeToOrderFlow for many symbols in one call, one book per symbol. */
+  subscribeToOrderFlows(
+    symbols: string[],
+    onTrade: (symbol: string, trade: Trade) => void,
+    onDepth: (symbol: string, book: OrderBookView) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ): Unsubscribe;
+}
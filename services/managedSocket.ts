@@ -0,0 +1,167 @@
+import { ConnectionStatus } from '../types';
+
+export interface ReconnectInfo {
+  disconnectedAt: number; // When the previous connection was lost
+  downtimeMs: number;
+}
+
+export interface ManagedSocketOptions {
+  url: string | (() => string); // A function is re-evaluated on every (re)connect
+  label?: string; // Used in log lines
+  onMessage: (data: any) => void; // Parsed JSON payload
+  onStatus?: (status: ConnectionStatus) => void;
+  onOpen?: () => void; // Every successful open, including the first
+  onReconnect?: (info: ReconnectInfo) => void; // Only after a connection was lost and re-established
+  staleAfterMs?: number; // No message for this long => connection is considered dead
+  initialBackoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface ManagedSocket {
+  send: (payload: unknown) => boolean;
+  isOpen: () => boolean;
+  close: () => void;
+}
+
+const DEFAULT_STALE_MS = 30000;
+const HEARTBEAT_CHECK_MS = 5000;
+const DEFAULT_INITIAL_BACKOFF_MS = 1000;
+const DEFAULT_MAX_BACKOFF_MS = 30000;
+
+/**
+ * WebSocket wrapper that keeps a stream alive:
+ * 1. Reconnects with exponential backoff (+ jitter) after any close we didn't ask for.
+ * 2. Watches for silent connections (no frames for `staleAfterMs`) and recycles them.
+ * 3. Reports every transition through ConnectionStatus and tells the caller when a
+ *    reconnect happened so it can backfill whatever was missed during the downtime.
+ */
+export const createManagedSocket = (options: ManagedSocketOptions): ManagedSocket => {
+  const {
+    url,
+    label = typeof url === 'string' ? url : 'WS',
+    onMessage,
+    onStatus,
+    onOpen,
+    onReconnect,
+    staleAfterMs = DEFAULT_STALE_MS,
+    initialBackoffMs = DEFAULT_INITIAL_BACKOFF_MS,
+    maxBackoffMs = DEFAULT_MAX_BACKOFF_MS,
+  } = options;
+
+  let ws: WebSocket | null = null;
+  let closedByUser = false;
+  let hasConnected = false;
+  let isConnected = false;
+  let attempt = 0;
+  let disconnectedAt = 0;
+  let lastActivity = Date.now();
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const report = (status: ConnectionStatus) => onStatus?.(status);
+
+  const markDisconnected = () => {
+    if (isConnected) disconnectedAt = Date.now();
+    isConnected = false;
+  };
+
+  const scheduleReconnect = () => {
+    if (closedByUser || reconnectTimer) return;
+    const base = Math.min(maxBackoffMs, initialBackoffMs * 2 ** attempt);
+    const delay = base / 2 + Math.random() * (base / 2);
+    attempt++;
+    report(ConnectionStatus.RECONNECTING);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  // Detach and close the current socket without waiting for its close handshake
+  const drop = () => {
+    const socket = ws;
+    ws = null;
+    if (!socket) return;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+    try {
+      socket.close();
+    } catch (e) {
+      // already closing
+    }
+  };
+
+  const connect = () => {
+    if (closedByUser) return;
+    report(hasConnected ? ConnectionStatus.RECONNECTING : ConnectionStatus.CONNECTING);
+    lastActivity = Date.now();
+
+    const socket = new WebSocket(typeof url === 'string' ? url : url());
+    ws = socket;
+
+    socket.onopen = () => {
+      lastActivity = Date.now();
+      isConnected = true;
+      report(ConnectionStatus.CONNECTED);
+      onOpen?.();
+      if (hasConnected) {
+        onReconnect?.({ disconnectedAt, downtimeMs: Date.now() - disconnectedAt });
+      }
+      hasConnected = true;
+    };
+
+    socket.onmessage = (event) => {
+      lastActivity = Date.now();
+      attempt = 0; // Only a connection that actually delivers data resets the backoff
+      try {
+        onMessage(JSON.parse(event.data));
+      } catch (e) {
+        console.error(`${label} WS parse error`, e);
+      }
+    };
+
+    socket.onerror = (err) => {
+      console.error(`${label} WS error`, err);
+      report(ConnectionStatus.ERROR);
+    };
+
+    socket.onclose = () => {
+      if (ws !== socket) return;
+      ws = null;
+      markDisconnected();
+      scheduleReconnect();
+    };
+  };
+
+  // Heartbeat: browsers answer server pings on their own, so silence is our only signal
+  const heartbeat = setInterval(() => {
+    if (!ws || closedByUser) return;
+    if (Date.now() - lastActivity > staleAfterMs) {
+      console.warn(`${label} WS stale for ${staleAfterMs}ms, reconnecting`);
+      drop();
+      markDisconnected();
+      scheduleReconnect();
+    }
+  }, HEARTBEAT_CHECK_MS);
+
+  connect();
+
+  return {
+    send: (payload: unknown) => {
+      if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+      ws.send(typeof payload === 'string' ? payload : JSON.stringify(payload));
+      return true;
+    },
+    isOpen: () => !!ws && ws.readyState === WebSocket.OPEN,
+    close: () => {
+      closedByUser = true;
+      clearInterval(heartbeat);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      drop();
+      isConnected = false;
+      report(ConnectionStatus.DISCONNECTED);
+    },
+  };
+};
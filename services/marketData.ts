@@ -1,114 +1,26 @@
-import { Candle, ConnectionStatus, ScreenerRow, Timeframe, ScreenerTimeframe, Trade, OrderBookLevel } from '../types';
-import { calculateScreenerMetrics } from '../utils/analytics';
+import { Candle, ConnectionStatus, ScreenerRow, ScreenerTimeframe, SessionConfig, Trade } from '../types';
+import { calculateScreenerMetrics, getSessionBounds, isInSession } from '../utils/analytics';
+import { buildSessionRecord } from '../utils/priorSessions';
+import { ExchangeAdapter, ExchangeId, Unsubscribe } from './exchangeAdapter';
+import { binanceAdapter } from './binanceAdapter';
+import { BaselineService } from './baselineService';
+import { MarketRecorder } from './marketRecorder';
+import { SessionHistoryService } from './sessionHistory';
 
-// Switch to Binance Futures API to match "Perpetuals" context of screenshot
-const BINANCE_API_URL = 'https://fapi.binance.com/fapi/v1';
-const BINANCE_WS_URL = 'wss://fstream.binance.com/ws'; // Raw stream endpoint
-const BINANCE_COMBINED_STREAM_URL = 'wss://fstream.binance.com/stream'; // Combined stream endpoint
+export type { ExchangeAdapter, ExchangeId } from './exchangeAdapter';
 
 /**
- * Fetches the top liquid USDT pairs from Binance Futures.
- * Returns a list of symbols (e.g., ['BTCUSDT', 'ETHUSDT', ...])
+ * Registry of available venues. The app picks one and threads it down,
+ * nothing outside services/ should import a concrete adapter.
  */
-export const fetchTopSymbols = async (limit: number = 100): Promise<string[]> => {
-  try {
-    const response = await fetch(`${BINANCE_API_URL}/ticker/24hr`);
-    if (!response.ok) throw new Error('Failed to fetch ticker data');
-    const data = await response.json();
-
-    // Filter for USDT pairs and sort by Quote Volume (most liquid first)
-    const sorted = data
-      .filter((ticker: any) => ticker.symbol.endsWith('USDT'))
-      .sort((a: any, b: any) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume))
-      .slice(0, limit)
-      .map((ticker: any) => ticker.symbol);
-
-    return sorted;
-  } catch (error) {
-    console.error('Error fetching top symbols:', error);
-    return ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'DOGEUSDT', 'XRPUSDT', 'ADAUSDT', 'AVAXUSDT'];
-  }
-};
-
-/**
- * Fetches all funding rates from premiumIndex endpoint
- */
-export const fetchFundingRates = async (): Promise<Map<string, number>> => {
-  try {
-    const response = await fetch(`${BINANCE_API_URL}/premiumIndex`);
-    if (!response.ok) throw new Error('Failed to fetch funding rates');
-    const data = await response.json();
-    const map = new Map<string, number>();
-    data.forEach((item: any) => {
-      // lastFundingRate is a string, e.g. "0.00010000"
-      map.set(item.symbol, parseFloat(item.lastFundingRate));
-    });
-    return map;
-  } catch (error) {
-    console.error('Error fetching funding rates:', error);
-    return new Map();
-  }
+export const EXCHANGE_ADAPTERS: Record<ExchangeId, ExchangeAdapter> = {
+  binance: binanceAdapter,
 };
 
-/**
- * Fetches candles for a specific time range. 
- */
-export const fetchDailyCandles = async (
-    symbol: string, 
-    startTime: number, 
-    endTime: number,
-    interval: Timeframe = '15m'
-): Promise<Candle[]> => {
-  const allCandles: Candle[] = [];
-  let currentStart = startTime;
-  
-  let timePerCandle = 1000 * 60 * 15; // 15m default
-  if (interval === '5m') timePerCandle = 1000 * 60 * 5;
-  if (interval === '1h') timePerCandle = 1000 * 60 * 60;
-  if (interval === '4h') timePerCandle = 1000 * 60 * 60 * 4;
-  if (interval === '1d') timePerCandle = 1000 * 60 * 60 * 24;
-
-  const CHUNK_SIZE = timePerCandle * 1000; 
-
-  try {
-    while (currentStart < endTime) {
-      const currentEnd = Math.min(currentStart + CHUNK_SIZE, endTime);
-      if (currentStart >= currentEnd) break;
-
-      const response = await fetch(
-        `${BINANCE_API_URL}/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&startTime=${currentStart}&endTime=${currentEnd}&limit=1500`
-      );
-
-      if (!response.ok) throw new Error(`Failed to fetch history: ${response.statusText}`);
-
-      const data = await response.json();
-      if (!Array.isArray(data) || data.length === 0) break;
-
-      const chunkCandles = data.map((d: any) => ({
-        timestamp: d[0],
-        open: parseFloat(d[1]),
-        high: parseFloat(d[2]),
-        low: parseFloat(d[3]),
-        close: parseFloat(d[4]),
-        volume: parseFloat(d[5]),
-        takerBuyVolume: parseFloat(d[9]), 
-        isClosed: true,
-      }));
-
-      allCandles.push(...chunkCandles);
-      const lastTimestamp = chunkCandles[chunkCandles.length - 1].timestamp;
-      currentStart = lastTimestamp + 1; // Advance
-      
-      if (chunkCandles.length < 500 && currentStart < endTime) break;
-    }
+export const DEFAULT_EXCHANGE: ExchangeId = 'binance';
 
-    const uniqueCandles = Array.from(new Map(allCandles.map(c => [c.timestamp, c])).values());
-    return uniqueCandles.sort((a, b) => a.timestamp - b.timestamp);
-  } catch (error) {
-    console.error('Error fetching daily candles:', error);
-    return [];
-  }
-};
+export const getExchangeAdapter = (id: ExchangeId): ExchangeAdapter =>
+  EXCHANGE_ADAPTERS[id] ?? EXCHANGE_ADAPTERS[DEFAULT_EXCHANGE];
 
 /**
  * Helper for batching promises
@@ -130,56 +42,42 @@ const batchPromises = async <T>(
   return results;
 };
 
+// Funding settles every 8h; no point re-downloading history more often
+const FUNDING_HISTORY_TTL = 8 * 60 * 60 * 1000;
+
 /**
  * Fetches metrics for the screener.
  * Optimized batch parameters for faster response.
+ * When `baselines` is given, the fetched history also seeds the volume / funding baselines.
  */
-export const fetchScreenerMetrics = async (symbols: string[], timeframe: ScreenerTimeframe = '15m'): Promise<ScreenerRow[]> => {
+export const fetchScreenerMetrics = async (
+  adapter: ExchangeAdapter,
+  symbols: string[],
+  timeframe: ScreenerTimeframe = '15m',
+  baselines?: BaselineService
+): Promise<ScreenerRow[]> => {
   
-  const fundingMap = await fetchFundingRates();
+  const fundingMap = await adapter.fetchFundingRates();
   
-  let vol24hMap = new Map<string, number>();
-
-  // Fetch 24h Ticker for base Volume and Chg24h (which is always 24h)
-  try {
-     const tRes = await fetch(`${BINANCE_API_URL}/ticker/24hr`);
-     const tData = await tRes.json();
-     tData.forEach((t: any) => {
-         vol24hMap.set(t.symbol, parseFloat(t.quoteVolume));
-     });
-  } catch (e) {
-      console.warn("Failed to fetch 24h volume snapshot", e);
-  }
+  // 24h Ticker for base Volume (which is always 24h)
+  const vol24hMap = await adapter.fetch24hVolumes();
 
   const fetchSymbolMetrics = async (symbol: string): Promise<ScreenerRow | null> => {
     try {
       // 1. Fetch Klines for the Selected Timeframe (Trend, Dynamic Vol, Dynamic Chg)
       // Limit 60 to calculate RSI/Trend. 
-      const klinesRes = await fetch(`${BINANCE_API_URL}/klines?symbol=${symbol}&interval=${timeframe}&limit=60`);
-      const klinesData = await klinesRes.json();
+      const candles: Candle[] = await adapter.fetchKlines(symbol, timeframe, 60);
       
       // 2. Fetch 1d klines for Week Change (Last 7 days)
-      const dailyRes = await fetch(`${BINANCE_API_URL}/klines?symbol=${symbol}&interval=1d&limit=8`);
-      const dailyData = await dailyRes.json();
-
-      if (!Array.isArray(klinesData) || klinesData.length < 2) return null;
-
-      const candles: Candle[] = klinesData.map((d: any) => ({
-        timestamp: d[0],
-        open: parseFloat(d[1]),
-        high: parseFloat(d[2]),
-        low: parseFloat(d[3]),
-        close: parseFloat(d[4]),
-        volume: parseFloat(d[5]),
-        takerBuyVolume: parseFloat(d[9]),
-        isClosed: true,
-      }));
+      const dailyCandles: Candle[] = await adapter.fetchKlines(symbol, '1d', 8);
+
+      if (candles.length < 2) return null;
 
       // Week Change
       let weekChange = 0;
-      if (Array.isArray(dailyData) && dailyData.length >= 7) {
-          const today = parseFloat(dailyData[dailyData.length - 1][4]);
-          const weekAgo = parseFloat(dailyData[0][4]); 
+      if (dailyCandles.length >= 7) {
+          const today = dailyCandles[dailyCandles.length - 1].close;
+          const weekAgo = dailyCandles[0].close; 
           weekChange = ((today - weekAgo) / weekAgo) * 100;
       }
 
@@ -209,6 +107,23 @@ export const fetchScreenerMetrics = async (symbols: string[], timeframe: Screene
       // Overwrite dynamic fields
       row.tfChange = tfChange;
       row.tfVolume = tfVolume;
+
+      // Real closes for the row's sparkline; App keeps extending it from the live ticker
+      row.sparkline = candles.map(c => c.close);
+
+      if (baselines) {
+        // Closed bars only: the forming one is what gets scored against the baseline
+        baselines.seed(symbol, `volume:${timeframe}`, candles.slice(0, -1).map(c => ({ time: c.timestamp, value: c.volume })));
+
+        if (Date.now() - baselines.lastTime(symbol, 'funding') > FUNDING_HISTORY_TTL) {
+          try {
+            const history = await adapter.fetchFundingHistory(symbol);
+            baselines.seed(symbol, 'funding', history.map(f => ({ time: f.time, value: f.rate })));
+          } catch (e) {
+            console.warn(`Funding history unavailable for ${symbol}`, e);
+          }
+        }
+      }
       
       return row;
     } catch (e) {
@@ -217,146 +132,196 @@ export const fetchScreenerMetrics = async (symbols: string[], timeframe: Screene
     }
   };
 
-  // Increased batch size to 25 to fetch faster (Binance limit is generous for public endpoints)
+  // Increased batch size to 25 to fetch faster (public kline endpoints are generous on rate limits)
   return batchPromises(symbols, 25, fetchSymbolMetrics);
 };
 
-export const subscribeToTicker = (
-  symbol: string,
-  onCandle: (candle: Candle) => void,
-  onStatus: (status: ConnectionStatus) => void,
-  interval: string = '15m'
-) => {
-  const ws = new WebSocket(`${BINANCE_WS_URL}/${symbol.toLowerCase()}@kline_${interval}`);
-  
-  ws.onopen = () => onStatus(ConnectionStatus.CONNECTED);
-  ws.onmessage = (event) => {
+/**
+ * Recent 1m klines per symbol, used to seed the radar's rolling delta baselines.
+ */
+export const fetchDeltaHistory = async (
+  adapter: ExchangeAdapter,
+  symbols: string[],
+  limit: number = 120
+): Promise<Map<string, Candle[]>> => {
+  const fetchSymbolHistory = async (symbol: string): Promise<[string, Candle[]] | null> => {
     try {
-      const message = JSON.parse(event.data);
-      if (message.e === 'kline') {
-        const k = message.k;
-        onCandle({
-          timestamp: k.t,
-          open: parseFloat(k.o),
-          high: parseFloat(k.h),
-          low: parseFloat(k.l),
-          close: parseFloat(k.c),
-          volume: parseFloat(k.v),
-          takerBuyVolume: parseFloat(k.V),
-          isClosed: k.x,
-        });
-      }
+      return [symbol, await adapter.fetchKlines(symbol, '1m', limit)];
     } catch (e) {
-      console.error('Ticker WS parse error', e);
+      console.error(`Error fetching 1m history for ${symbol}`, e);
+      return null;
     }
   };
-  ws.onerror = (err) => {
-    console.error('WebSocket error:', err);
-    onStatus(ConnectionStatus.ERROR);
-  };
-  ws.onclose = () => onStatus(ConnectionStatus.DISCONNECTED);
-  return () => ws.close();
+
+  return new Map(await batchPromises(symbols, 25, fetchSymbolHistory));
 };
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
- * Subscribes to the All Market Ticker Stream.
- * Returns a cleanup function.
+ * Makes sure `history` holds the `days` sessions before `date` (YYYY-MM-DD).
+ * Missing ones are rebuilt from 15m candles in a single request; days without data are skipped.
  */
-export const subscribeToAllMarketTicker = (
-  onData: (data: Map<string, { price: number; chg24h: number; vol24h: number }>) => void
-) => {
-  const ws = new WebSocket(`${BINANCE_WS_URL}/!ticker@arr`);
-  
-  ws.onmessage = (event) => {
+export const fetchSessionHistory = async (
+  adapter: ExchangeAdapter,
+  history: SessionHistoryService,
+  config: SessionConfig,
+  date: string,
+  days: number
+): Promise<void> => {
+  const dayStart = new Date(`${date}T00:00:00Z`).getTime();
+  const missing: string[] = [];
+  for (let i = days; i >= 1; i--) {
+    const day = new Date(dayStart - i * DAY_MS).toISOString().slice(0, 10);
+    if (!history.has(config.symbol, config, day, config.tickSize)) missing.push(day);
+  }
+  if (missing.length === 0) return;
+
+  const from = getSessionBounds(missing[0], config.startTime, config.endTime).start;
+  const to = getSessionBounds(missing[missing.length - 1], config.startTime, config.endTime).end;
+  const candles = await adapter.fetchDailyCandles(config.symbol, from, to, '15m');
+
+  missing.forEach(day => {
+    const { start, end } = getSessionBounds(day, config.startTime, config.endTime);
+    const sessionCandles = candles.filter(c =>
+      c.timestamp >= start && c.timestamp <= end && isInSession(c.timestamp, config.startTime, config.endTime)
+    );
+    if (sessionCandles.length === 0) return;
+    history.record(config.symbol, config, buildSessionRecord(day, sessionCandles, config.tickSize));
+  });
+};
+
+// Upper bound on trades pulled over REST for one history request (100 aggTrades pages)
+const MAX_HISTORY_TRADES = 100000;
+
+/**
+ * aggTrades for [from, to], oldest first.
+ * When the window holds more than `maxTrades`, its oldest part is dropped so the most
+ * recent trades are always complete; callers can tell from the first trade's time.
+ * A window reaching into the present ends at the latest trade; live trades take over from there.
+ */
+export const fetchTradeHistory = async (
+  adapter: ExchangeAdapter,
+  symbol: string,
+  from: number,
+  to: number,
+  maxTrades: number = MAX_HISTORY_TRADES
+): Promise<Trade[]> => {
+  // 1. Locate the id range by time
+  const [first] = await adapter.fetchAggTradesSince(symbol, from, 1);
+  if (!first || first.time > to) return [];
+  const endId = await findEndId(adapter, symbol, to);
+  let fromId = Number.isFinite(endId) ? Math.max(first.id, endId - maxTrades) : first.id;
+
+  // 2. Page forward by id
+  const trades: Trade[] = [];
+  while (trades.length < maxTrades) {
+    const page = await adapter.fetchAggTrades(symbol, fromId);
+    for (const t of page) {
+      if (t.id >= endId || t.time > to) return trades;
+      trades.push(t);
+    }
+    if (page.length === 0) break;
+    fromId = page[page.length - 1].id + 1;
+  }
+  return trades;
+};
+
+// First aggTrade id past `to`; for a window reaching into the present, one past the latest trade
+const findEndId = async (adapter: ExchangeAdapter, symbol: string, to: number): Promise<number> => {
+  const now = Date.now();
+  if (to < now) {
+    const [after] = await adapter.fetchAggTradesSince(symbol, to + 1, 1);
+    if (after) return after.id;
+  }
+  const recent = await adapter.fetchAggTradesSince(symbol, now - 2000);
+  return recent.length > 0 ? recent[recent.length - 1].id + 1 : Infinity;
+};
+
+// Recorded trades count as covering a window if they start/end within this of its edges
+const RECORDED_COVERAGE_SLACK_MS = 5000;
+
+/**
+ * Trades for [from, to], from the local recorder when it holds the whole window,
+ * otherwise over REST (subject to fetchTradeHistory's cap).
+ */
+export const fetchSessionTrades = async (
+  adapter: ExchangeAdapter,
+  symbol: string,
+  from: number,
+  to: number,
+  recorder?: MarketRecorder
+): Promise<Trade[]> => {
+  if (recorder) {
     try {
-      const data = JSON.parse(event.data);
-      if (Array.isArray(data)) {
-        const updateMap = new Map<string, { price: number; chg24h: number; vol24h: number }>();
-        data.forEach((t: any) => {
-          if (t.s.endsWith('USDT')) {
-            updateMap.set(t.s, {
-              price: parseFloat(t.c),
-              chg24h: parseFloat(t.P), 
-              vol24h: parseFloat(t.q) 
-            });
-          }
-        });
-        onData(updateMap);
-      }
+      const ranges = await recorder.getRanges(symbol, 'trades');
+      const end = Math.min(to, Date.now());
+      const covered = ranges.some(r => r.start <= from + RECORDED_COVERAGE_SLACK_MS && r.end >= end - RECORDED_COVERAGE_SLACK_MS);
+      if (covered) return await recorder.getTrades(symbol, from, to);
     } catch (e) {
-      // ignore parse errors for keep-alive etc
+      console.warn(`Recorded trades unavailable for ${symbol}`, e);
     }
-  };
-
-  return () => ws.close();
+  }
+  return fetchTradeHistory(adapter, symbol, from, to);
 };
 
-// --- Order Flow Subscriptions ---
+// Live trades arriving this far past the history are bridged over REST, not dropped
+const MAX_BRIDGE_PAGES = 10;
 
-export const subscribeToOrderFlow = (
+/**
+ * Trade history from `from` (recorded when available) followed seamlessly by the live stream.
+ * The live subscription starts first and is held back while history loads; any trades
+ * between the two are fetched by id, so onTrades sees every trade once, in order.
+ */
+export const streamTradesSince = (
+  adapter: ExchangeAdapter,
   symbol: string,
-  onTrade: (trade: Trade) => void,
-  onDepth: (bids: OrderBookLevel[], asks: OrderBookLevel[]) => void
-) => {
-  const lowerSymbol = symbol.toLowerCase();
-  
-  // Use COMBINED STREAM endpoint: /stream?streams=...
-  // NOTE: Combined stream events are wrapped in {"stream": "...", "data": ...}
-  const ws = new WebSocket(`${BINANCE_COMBINED_STREAM_URL}?streams=${lowerSymbol}@aggTrade/${lowerSymbol}@depth20@100ms`);
+  from: number,
+  onTrades: (trades: Trade[]) => void,
+  onStatus?: (status: ConnectionStatus) => void,
+  recorder?: MarketRecorder
+): Unsubscribe => {
+  let isActive = true;
+  let lastId = 0;
+  let pending: Trade[] | null = [];
+
+  const emit = (trades: Trade[]) => {
+    const fresh = trades.filter(t => t.id > lastId);
+    if (fresh.length === 0 || !isActive) return;
+    lastId = fresh[fresh.length - 1].id;
+    onTrades(fresh);
+  };
+
+  const unsubscribe = adapter.subscribeToTrades(symbol, (trade) => {
+    if (pending) pending.push(trade);
+    else emit([trade]);
+  }, onStatus);
 
-  ws.onmessage = (event) => {
+  const load = async () => {
     try {
-      const msg = JSON.parse(event.data);
-      
-      // Valid combined stream message has 'stream' and 'data' properties
-      if (!msg.stream || !msg.data) return;
-
-      const stream = msg.stream;
-      const data = msg.data;
-
-      if (stream.endsWith('@aggTrade')) {
-        const isLarge = parseFloat(data.q) * parseFloat(data.p) > 10000; // > $10k threshold for large
-        onTrade({
-          id: data.a,
-          price: parseFloat(data.p),
-          qty: parseFloat(data.q),
-          time: data.T,
-          isBuyerMaker: data.m, 
-          isLarge
-        });
-      } else if (stream.endsWith('@depth20@100ms')) {
-        // Map Bids
-        const bids: OrderBookLevel[] = data.b.map((item: string[]) => ({
-          price: parseFloat(item[0]),
-          qty: parseFloat(item[1]),
-          total: 0,
-          depthRatio: 0
-        }));
-        
-        // Map Asks
-        const asks: OrderBookLevel[] = data.a.map((item: string[]) => ({
-          price: parseFloat(item[0]),
-          qty: parseFloat(item[1]),
-          total: 0,
-          depthRatio: 0
-        }));
-
-        // Calculate totals for ratio
-        const maxBidQty = Math.max(...bids.map(b => b.qty), 0.0001);
-        const maxAskQty = Math.max(...asks.map(a => a.qty), 0.0001);
-        const globalMax = Math.max(maxBidQty, maxAskQty);
-
-        bids.forEach(b => b.depthRatio = b.qty / globalMax);
-        asks.forEach(a => a.depthRatio = a.qty / globalMax);
-
-        onDepth(bids, asks);
+      emit(await fetchSessionTrades(adapter, symbol, from, Date.now(), recorder));
+
+      // Bridge the gap between the end of history and the first live trade
+      const firstLive = pending?.[0];
+      for (let page = 0; lastId > 0 && firstLive && lastId + 1 < firstLive.id && page < MAX_BRIDGE_PAGES; page++) {
+        const trades = await adapter.fetchAggTrades(symbol, lastId + 1);
+        const before = lastId;
+        emit(trades.filter(t => t.id < firstLive.id));
+        if (lastId === before) break;
       }
     } catch (e) {
-      console.error('OrderFlow WS parse error', e);
+      console.error(`Failed to load trade history for ${symbol}`, e);
+    } finally {
+      const queued = pending || [];
+      pending = null;
+      emit(queued);
     }
   };
 
-  ws.onerror = (e) => console.error('OrderFlow WS Error', e);
+  load();
 
-  return () => ws.close();
-}
\ No newline at end of file
+  return () => {
+    isActive = false;
+    unsubscribe();
+  };
+};
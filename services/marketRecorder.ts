@@ -0,0 +1,496 @@
+import { Candle, ConnectionStatus, OrderBookView, PersistentEvent, Trade } from '../types';
+import { ExchangeAdapter } from './exchangeAdapter';
+import { DepthFrame, FlowRecording, RECORDING_VERSION } from '../utils/flowRecording';
+import { PriceQty } from '../utils/orderBook';
+
+export type RecordKind = 'trades' | 'depth' | 'events' | `klines:${string}`;
+
+// Persistent event snapshot, written whenever its state changes
+export interface RecordedEvent {
+  time: number;
+  event: PersistentEvent;
+}
+
+// Contiguous stretch of stored data for one symbol & kind
+export interface RecordedRange {
+  kind: RecordKind;
+  start: number;
+  end: number;
+  records: number;
+  bytes: number; // Stored (compressed) size
+}
+
+export interface RecorderRetention {
+  maxAgeMs: Record<'trades' | 'depth' | 'events' | 'klines', number>;
+  maxBytes: number; // Oldest chunks are dropped beyond this, whatever their kind
+}
+
+// One time partition of one series, as stored in IndexedDB
+interface StoredChunk {
+  id?: number;
+  symbol: string;
+  kind: RecordKind;
+  start: number;
+  end: number;
+  count: number;
+  size: number;
+  encoding: 'gzip' | 'json';
+  data: Blob | string;
+}
+
+interface SeriesBuffer {
+  symbol: string;
+  kind: RecordKind;
+  partition: number;
+  records: { time: number }[];
+}
+
+const DB_VERSION = 1;
+const STORE = 'chunks';
+
+// Chunks never straddle a partition boundary, which bounds how far back a range query must look
+const PARTITION_MS = 60 * 1000;
+const FLUSH_INTERVAL_MS = 10 * 1000;
+const RETENTION_INTERVAL_MS = 5 * 60 * 1000;
+// Stored chunks closer than this are reported as one range
+const RANGE_GAP_MS = 5 * 1000;
+
+// Depth is stored as throttled top-of-book frames, the same shape replay consumes
+const DEPTH_FRAME_MS = 250;
+const DEPTH_LEVELS = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RETENTION: RecorderRetention = {
+  maxAgeMs: {
+    trades: 3 * DAY_MS,
+    depth: 1 * DAY_MS,
+    events: 14 * DAY_MS,
+    klines: 30 * DAY_MS,
+  },
+  maxBytes: 512 * 1024 * 1024,
+};
+
+const family = (kind: RecordKind): keyof RecorderRetention['maxAgeMs'] =>
+  kind.startsWith('klines') ? 'klines' : (kind as 'trades' | 'depth' | 'events');
+
+const toPairs = (levels: { price: number; qty: number }[]): PriceQty[] => levels.map(l => [l.price, l.qty]);
+
+// --- IndexedDB helpers ---
+
+const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (name: string): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('series', ['symbol', 'kind', 'start']);
+      store.createIndex('end', 'end');
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// --- Compression (gzip where the browser supports it, plain JSON otherwise) ---
+
+const encode = async (records: unknown[]): Promise<Pick<StoredChunk, 'encoding' | 'data' | 'size'>> => {
+  const json = JSON.stringify(records);
+  if (typeof CompressionStream === 'undefined') return { encoding: 'json', data: json, size: json.length };
+  const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+  const blob = await new Response(stream).blob();
+  return { encoding: 'gzip', data: blob, size: blob.size };
+};
+
+const decode = async <T>(chunk: StoredChunk): Promise<T[]> => {
+  if (chunk.encoding === 'json') return JSON.parse(chunk.data as string);
+  const stream = (chunk.data as Blob).stream().pipeThrough(new DecompressionStream('gzip'));
+  return JSON.parse(await new Response(stream).text());
+};
+
+/**
+ * Persists the live market data we already receive (trades, depth frames, klines and
+ * persistent events) to IndexedDB, per symbol, in gzip-compressed one-minute chunks.
+ * Writes are buffered in memory and flushed in the background; reads merge stored
+ * chunks with whatever is still buffered, so queries always see the latest data.
+ * Retention is enforced by age per kind and by total stored size.
+ */
+export class MarketRecorder {
+  private db: Promise<IDBDatabase> | null = null;
+  private buffers: Map<string, SeriesBuffer> = new Map();
+  private eventStates: Map<string, Map<string, string>> = new Map(); // symbol -> event id -> signature
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+  private retentionTimer: ReturnType<typeof setInterval> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+  private enabled = true;
+
+  constructor(private dbName: string, private retention: RecorderRetention = DEFAULT_RETENTION) {
+    if (typeof indexedDB === 'undefined') {
+      console.warn('IndexedDB unavailable, market recorder disabled');
+      this.enabled = false;
+      return;
+    }
+    this.startTimers();
+    this.enforceRetention();
+  }
+
+  public get isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Pauses or resumes recording. Stored data stays queryable either way.
+   */
+  public setEnabled(enabled: boolean) {
+    if (!enabled) this.flush();
+    this.enabled = enabled && typeof indexedDB !== 'undefined';
+  }
+
+  // --- Recording ---
+
+  public recordTrade(symbol: string, trade: Trade) {
+    this.append(symbol, 'trades', trade);
+  }
+
+  public recordDepth(symbol: string, time: number, bids: PriceQty[], asks: PriceQty[]) {
+    this.append(symbol, 'depth', { time, bids, asks } as DepthFrame);
+  }
+
+  /**
+   * Candles are stored once final; callers pass the bar that was just superseded.
+   */
+  public recordKline(symbol: string, interval: string, candle: Candle) {
+    this.append(symbol, `klines:${interval}`, { ...candle, time: candle.timestamp });
+  }
+
+  /**
+   * Stores events that are new or whose state/type changed since the last call.
+   */
+  public recordEvents(symbol: string, events: PersistentEvent[], time: number) {
+    if (!this.enabled) return;
+    const previous = this.eventStates.get(symbol);
+    const current = new Map<string, string>();
+    events.forEach(event => {
+      const signature = `${event.type}|${event.state}|${event.isRetest}`;
+      current.set(event.id, signature);
+      if (previous?.get(event.id) === signature) return;
+      this.append(symbol, 'events', { time, event: { ...event } } as RecordedEvent);
+    });
+    // Replacing the map drops events the engine has expired
+    this.eventStates.set(symbol, current);
+  }
+
+  /**
+   * Writes every buffered partition. Resolves once the writes are committed.
+   */
+  public flush(): Promise<void> {
+    this.buffers.forEach((buffer, key) => {
+      this.buffers.delete(key);
+      this.write(buffer);
+    });
+    return this.writes;
+  }
+
+  /**
+   * Flushes and closes the database. The instance stays usable: the next write or query
+   * reopens it and restarts the timers (StrictMode runs effect cleanups on a live instance).
+   */
+  public dispose() {
+    if (this.flushTimer) clearInterval(this.flushTimer);
+    if (this.retentionTimer) clearInterval(this.retentionTimer);
+    this.flushTimer = null;
+    this.retentionTimer = null;
+    this.flush().finally(() => {
+      // IndexedDB lets transactions already running on the handle finish before it closes
+      const db = this.db;
+      this.db = null;
+      db?.then(d => d.close()).catch(() => {});
+    });
+  }
+
+  // --- Queries ---
+
+  /**
+   * Records of one kind in [from, to], oldest first.
+   */
+  public async query<T extends { time: number }>(symbol: string, kind: RecordKind, from: number, to: number): Promise<T[]> {
+    const chunks = await this.readChunks(symbol, kind, from, to);
+    const stored = (await Promise.all(chunks.map(c => decode<T>(c)))).flat();
+    const buffered = (this.buffers.get(this.key(symbol, kind))?.records || []) as T[];
+    return [...stored, ...buffered]
+      .filter(r => r.time >= from && r.time <= to)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  public async getTrades(symbol: string, from: number, to: number): Promise<Trade[]> {
+    const trades = await this.query<Trade>(symbol, 'trades', from, to);
+    // Two taps on the same symbol (chart + order flow) store the same trades twice
+    const seen = new Set<number>();
+    return trades.filter(t => !seen.has(t.id) && !!seen.add(t.id));
+  }
+
+  public getDepth(symbol: string, from: number, to: number): Promise<DepthFrame[]> {
+    return this.query<DepthFrame>(symbol, 'depth', from, to);
+  }
+
+  public getEvents(symbol: string, from: number, to: number): Promise<RecordedEvent[]> {
+    return this.query<RecordedEvent>(symbol, 'events', from, to);
+  }
+
+  public async getKlines(symbol: string, interval: string, from: number, to: number): Promise<Candle[]> {
+    const rows = await this.query<Candle & { time: number }>(symbol, `klines:${interval}`, from, to);
+    // A bar can be stored twice around a reconnect; the later write wins
+    const byTime = new Map<number, Candle>();
+    rows.forEach(({ time, ...candle }) => byTime.set(time, candle));
+    return Array.from(byTime.values());
+  }
+
+  /**
+   * Trades + depth for [from, to] in the format the replay engine plays.
+   * Null when the window holds too little depth to replay.
+   */
+  public async getRecording(symbol: string, from: number, to: number): Promise<FlowRecording | null> {
+    const [trades, depth] = await Promise.all([this.getTrades(symbol, from, to), this.getDepth(symbol, from, to)]);
+    if (depth.length < 2) return null;
+    const startTime = depth[0].time;
+    const endTime = depth[depth.length - 1].time;
+    return {
+      version: RECORDING_VERSION,
+      symbol,
+      startTime,
+      endTime,
+      trades: trades.filter(t => t.time >= startTime && t.time <= endTime),
+      depth,
+    };
+  }
+
+  /**
+   * Contiguous time ranges stored for a symbol & kind, oldest first.
+   */
+  public async getRanges(symbol: string, kind: RecordKind): Promise<RecordedRange[]> {
+    const chunks = await this.readChunks(symbol, kind, 0, Number.MAX_SAFE_INTEGER);
+    const buffered = this.buffers.get(this.key(symbol, kind))?.records || [];
+    const spans = chunks.map(c => ({ start: c.start, end: c.end, records: c.count, bytes: c.size }));
+    if (buffered.length > 0) {
+      spans.push({ start: buffered[0].time, end: buffered[buffered.length - 1].time, records: buffered.length, bytes: 0 });
+    }
+    spans.sort((a, b) => a.start - b.start);
+
+    const ranges: RecordedRange[] = [];
+    spans.forEach(span => {
+      const last = ranges[ranges.length - 1];
+      if (last && span.start - last.end <= RANGE_GAP_MS) {
+        last.end = Math.max(last.end, span.end);
+        last.records += span.records;
+        last.bytes += span.bytes;
+      } else {
+        ranges.push({ kind, ...span });
+      }
+    });
+    return ranges;
+  }
+
+  /**
+   * Symbols with any stored data.
+   */
+  public async getSymbols(): Promise<string[]> {
+    const db = await this.getDb();
+    const symbols = new Set<string>();
+    await new Promise<void>((resolve, reject) => {
+      const cursorReq = db.transaction(STORE).objectStore(STORE).index('series').openKeyCursor();
+      cursorReq.onerror = () => reject(cursorReq.error);
+      cursorReq.onsuccess = () => {
+        const cursor = cursorReq.result;
+        if (!cursor) return resolve();
+        const [symbol] = cursor.key as [string, string, number];
+        symbols.add(symbol);
+        // Skip the rest of this symbol's chunks
+        cursor.continue([symbol, '\uffff']);
+      };
+    });
+    this.buffers.forEach(b => symbols.add(b.symbol));
+    return Array.from(symbols).sort();
+  }
+
+  // --- Internals ---
+
+  private key(symbol: string, kind: RecordKind): string {
+    return `${symbol}|${kind}`;
+  }
+
+  private startTimers() {
+    if (!this.flushTimer) this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    if (!this.retentionTimer) this.retentionTimer = setInterval(() => this.enforceRetention(), RETENTION_INTERVAL_MS);
+  }
+
+  private append(symbol: string, kind: RecordKind, record: { time: number }) {
+    if (!this.enabled) return;
+    this.startTimers();
+    const key = this.key(symbol, kind);
+    const partition = Math.floor(record.time / PARTITION_MS);
+    let buffer = this.buffers.get(key);
+
+    if (buffer && buffer.partition !== partition) {
+      this.buffers.delete(key);
+      this.write(buffer);
+      buffer = undefined;
+    }
+    if (!buffer) {
+      buffer = { symbol, kind, partition, records: [] };
+      this.buffers.set(key, buffer);
+    }
+    buffer.records.push(record);
+  }
+
+  private getDb(): Promise<IDBDatabase> {
+    if (!this.db) this.db = openDatabase(this.dbName);
+    return this.db;
+  }
+
+  // Writes are chained so chunks land in order and flush() can await all of them
+  private write(buffer: SeriesBuffer) {
+    if (buffer.records.length === 0) return;
+    const records = [...buffer.records].sort((a, b) => a.time - b.time);
+
+    this.writes = this.writes.then(async () => {
+      try {
+        const encoded = await encode(records);
+        const chunk: StoredChunk = {
+          symbol: buffer.symbol,
+          kind: buffer.kind,
+          start: records[0].time,
+          end: records[records.length - 1].time,
+          count: records.length,
+          ...encoded,
+        };
+        const db = await this.getDb();
+        const tx = db.transaction(STORE, 'readwrite');
+        tx.objectStore(STORE).add(chunk);
+        await transactionDone(tx);
+      } catch (e) {
+        console.warn('Failed to persist market data chunk', e);
+      }
+    });
+  }
+
+  private async readChunks(symbol: string, kind: RecordKind, from: number, to: number): Promise<StoredChunk[]> {
+    if (typeof indexedDB === 'undefined') return [];
+    const db = await this.getDb();
+    const range = IDBKeyRange.bound([symbol, kind, Math.max(0, from - PARTITION_MS)], [symbol, kind, to]);
+    const chunks: StoredChunk[] = await request(db.transaction(STORE).objectStore(STORE).index('series').getAll(range));
+    return chunks.filter(c => c.end >= from);
+  }
+
+  private async enforceRetention() {
+    try {
+      const db = await this.getDb();
+      const now = Date.now();
+      const tx = db.transaction(STORE, 'readwrite');
+      const index = tx.objectStore(STORE).index('end');
+
+      // 1. Age limits per kind; `end` ascending, so everything kept is newer than what was dropped
+      const kept: { id: number; size: number }[] = [];
+      let total = 0;
+      await new Promise<void>((resolve, reject) => {
+        const cursorReq = index.openCursor();
+        cursorReq.onerror = () => reject(cursorReq.error);
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) return resolve();
+          const chunk = cursor.value as StoredChunk;
+          if (now - chunk.end > this.retention.maxAgeMs[family(chunk.kind)]) {
+            cursor.delete();
+          } else {
+            kept.push({ id: chunk.id!, size: chunk.size });
+            total += chunk.size;
+          }
+          cursor.continue();
+        };
+      });
+
+      // 2. Size cap, oldest first
+      const store = tx.objectStore(STORE);
+      for (const chunk of kept) {
+        if (total <= this.retention.maxBytes) break;
+        store.delete(chunk.id);
+        total -= chunk.size;
+      }
+      await transactionDone(tx);
+    } catch (e) {
+      console.warn('Market recorder retention sweep failed', e);
+    }
+  }
+}
+
+/**
+ * Adapter decorator that records everything flowing through subscribeToOrderFlow,
+ * subscribeToTrades and subscribeToTicker into `recorder`, without changing what the caller receives.
+ */
+export const withRecorder = (adapter: ExchangeAdapter, recorder: MarketRecorder): ExchangeAdapter => ({
+  ...adapter,
+
+  subscribeToTicker: (
+    symbol: string,
+    onCandle: (candle: Candle) => void,
+    onStatus: (status: ConnectionStatus) => void,
+    interval: string = '15m'
+  ) => {
+    let forming: Candle | null = null;
+    const unsubscribe = adapter.subscribeToTicker(symbol, (candle) => {
+      // The previous bar is final once a newer one starts
+      if (forming && candle.timestamp > forming.timestamp) recorder.recordKline(symbol, interval, forming);
+      if (!forming || candle.timestamp >= forming.timestamp) forming = candle;
+      onCandle(candle);
+    }, onStatus, interval);
+
+    return () => {
+      if (forming?.isClosed) recorder.recordKline(symbol, interval, forming);
+      unsubscribe();
+    };
+  },
+
+  subscribeToTrades: (
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => adapter.subscribeToTrades(symbol, (trade) => {
+    recorder.recordTrade(symbol, trade);
+    onTrade(trade);
+  }, onStatus),
+
+  subscribeToOrderFlow: (
+    symbol: string,
+    onTrade: (trade: Trade) => void,
+    onDepth: (book: OrderBookView) => void,
+    onStatus?: (status: ConnectionStatus) => void
+  ) => {
+    let lastFrame = 0;
+    return adapter.subscribeToOrderFlow(
+      symbol,
+      (trade) => {
+        recorder.recordTrade(symbol, trade);
+        onTrade(trade);
+      },
+      (book) => {
+        const now = Date.now();
+        if (now - lastFrame >= DEPTH_FRAME_MS) {
+          lastFrame = now;
+          recorder.recordDepth(symbol, now, toPairs(book.getBids(DEPTH_LEVELS)), toPairs(book.getAsks(DEPTH_LEVELS)));
+        }
+        onDepth(book);
+      },
+      onStatus
+    );
+  },
+});
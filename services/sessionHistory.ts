@@ -0,0 +1,129 @@
+import { Candle, PriorSessionLevels, ProfileMetrics, SessionConfig, SessionRecord } from '../types';
+import { derivePriorLevels } from '../utils/priorSessions';
+
+// Session hours a record was built for
+export type SessionWindow = Pick<SessionConfig, 'startTime' | 'endTime'>;
+
+interface PersistedSessions {
+  version: number;
+  savedAt: number;
+  series: Record<string, SessionRecord[]>;
+}
+
+const STORAGE_VERSION = 1;
+const SAVE_DEBOUNCE_MS = 2000;
+const MAX_SESSIONS_PER_SERIES = 30;
+const MAX_SESSION_AGE_MS = 60 * 24 * 60 * 60 * 1000;
+
+// Persist ~6 significant digits; full doubles would triple the payload for no gain
+const compact = (v: number): number => Number(v.toPrecision(6));
+
+const compactProfile = (profile: ProfileMetrics): ProfileMetrics => ({
+  ...profile,
+  levels: profile.levels.map(l => ({ price: l.price, volume: compact(l.volume) })),
+  totalVolume: compact(profile.totalVolume),
+});
+
+/**
+ * Completed sessions per symbol and session window, persisted to localStorage so
+ * previous-day value, naked POCs and other prior references survive a reload
+ * without refetching history.
+ */
+export class SessionHistoryService {
+  private series: Map<string, Map<string, SessionRecord>> = new Map(); // key -> date -> record
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private storageKey: string) {
+    this.load();
+  }
+
+  public has(symbol: string, window: SessionWindow, date: string, tickSize: number): boolean {
+    return this.series.get(this.key(symbol, window))?.get(date)?.tickSize === tickSize;
+  }
+
+  public record(symbol: string, window: SessionWindow, record: SessionRecord) {
+    const key = this.key(symbol, window);
+    let sessions = this.series.get(key);
+    if (!sessions) {
+      sessions = new Map();
+      this.series.set(key, sessions);
+    }
+    sessions.set(record.date, { ...record, profile: compactProfile(record.profile) });
+
+    // Keep the newest sessions only
+    const dates = Array.from(sessions.keys()).sort();
+    dates.slice(0, Math.max(0, dates.length - MAX_SESSIONS_PER_SERIES)).forEach(d => sessions!.delete(d));
+    this.scheduleSave();
+  }
+
+  /**
+   * Up to `count` sessions before `date` built with `tickSize`, oldest first.
+   */
+  public getSessions(symbol: string, window: SessionWindow, date: string, tickSize: number, count: number): SessionRecord[] {
+    const sessions = this.series.get(this.key(symbol, window));
+    if (!sessions) return [];
+    return Array.from(sessions.values())
+      .filter(s => s.date < date && s.tickSize === tickSize)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-count);
+  }
+
+  public getPriorLevels(
+    symbol: string,
+    window: SessionWindow,
+    date: string,
+    tickSize: number,
+    lookback: number,
+    currentCandles: Candle[]
+  ): PriorSessionLevels {
+    return derivePriorLevels(this.getSessions(symbol, window, date, tickSize, lookback), currentCandles);
+  }
+
+  public clear() {
+    this.series.clear();
+    this.scheduleSave();
+  }
+
+  private key(symbol: string, window: SessionWindow): string {
+    return `${symbol}|${window.startTime}-${window.endTime}`;
+  }
+
+  // --- Persistence ---
+
+  private load() {
+    try {
+      const raw = localStorage.getItem(this.storageKey);
+      if (!raw) return;
+      const data: PersistedSessions = JSON.parse(raw);
+      if (data.version !== STORAGE_VERSION) return;
+
+      const cutoff = new Date(Date.now() - MAX_SESSION_AGE_MS).toISOString().slice(0, 10);
+      Object.entries(data.series).forEach(([key, records]) => {
+        const fresh = records.filter(r => r.date >= cutoff);
+        if (fresh.length > 0) this.series.set(key, new Map(fresh.map(r => [r.date, r])));
+      });
+    } catch (e) {
+      console.warn('Failed to load session history', e);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private save() {
+    const data: PersistedSessions = { version: STORAGE_VERSION, savedAt: Date.now(), series: {} };
+    this.series.forEach((sessions, key) => {
+      data.series[key] = Array.from(sessions.values());
+    });
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(data));
+    } catch (e) {
+      console.warn('Failed to persist session history', e);
+    }
+  }
+}
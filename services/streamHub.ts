@@ -0,0 +1,185 @@
+import { ConnectionStatus } from '../types';
+import { createManagedSocket, ManagedSocket, ReconnectInfo } from './managedSocket';
+
+export interface StreamListener {
+  onMessage: (stream: string, data: any) => void;
+  onStatus?: (status: ConnectionStatus) => void;
+  onReconnect?: (info: ReconnectInfo) => void; // Once per connection drop, however many of the listener's streams it carried
+}
+
+export interface StreamHubOptions {
+  label?: string;
+  maxStreamsPerConnection?: number;
+  staleAfterMs?: number;
+}
+
+interface HubConnection {
+  id: number;
+  socket: ManagedSocket | null; // Opened on the first flush, so the initial streams go in the URL
+  streams: Set<string>;         // Wanted on this connection
+  live: Set<string>;            // Subscribed on the server, as far as we know
+  status: ConnectionStatus;
+  flushTimer: ReturnType<typeof setTimeout> | null;
+}
+
+interface StreamEntry {
+  connection: HubConnection;
+  listeners: Set<StreamListener>;
+}
+
+const DEFAULT_MAX_STREAMS = 200;
+// Batches subscription changes; two requests per flush stays under the venue's 10 messages/s
+const FLUSH_DELAY_MS = 250;
+
+/**
+ * Shares combined-stream connections between every subscriber:
+ * 1. Streams are reference-counted by name; the first subscriber opens one, the last closes it.
+ * 2. Changes are batched and sent as SUBSCRIBE / UNSUBSCRIBE on an open connection. A connection
+ *    (re)connects with all its wanted streams in the URL, then reconciles whatever changed since.
+ * 3. Events are fanned out by `stream` to its listeners; status and reconnects go to every
+ *    listener on the affected connection.
+ * A connection takes streams until it's full, and closes once it has none left.
+ */
+export class StreamHub {
+  private entries: Map<string, StreamEntry> = new Map();
+  private connections: HubConnection[] = [];
+  private requestId = 0;
+  private connectionSeq = 0;
+  private label: string;
+  private maxStreams: number;
+  private staleAfterMs?: number;
+
+  constructor(private baseUrl: string, options: StreamHubOptions = {}) {
+    this.label = options.label ?? 'Stream hub';
+    this.maxStreams = options.maxStreamsPerConnection ?? DEFAULT_MAX_STREAMS;
+    this.staleAfterMs = options.staleAfterMs;
+  }
+
+  /**
+   * Adds `listener` to each stream. Returns the matching unsubscribe.
+   */
+  public subscribe(streams: string[], listener: StreamListener): () => void {
+    const touched = new Set<HubConnection>();
+    streams.forEach(stream => {
+      let entry = this.entries.get(stream);
+      if (!entry) {
+        const connection = this.pickConnection();
+        connection.streams.add(stream);
+        entry = { connection, listeners: new Set() };
+        this.entries.set(stream, entry);
+        this.scheduleFlush(connection);
+      }
+      entry.listeners.add(listener);
+      touched.add(entry.connection);
+    });
+
+    // Joining a connection that's already up: report where it stands
+    touched.forEach(c => listener.onStatus?.(c.status));
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      streams.forEach(stream => {
+        const entry = this.entries.get(stream);
+        if (!entry || !entry.listeners.delete(listener) || entry.listeners.size > 0) return;
+        this.entries.delete(stream);
+        entry.connection.streams.delete(stream);
+        this.scheduleFlush(entry.connection);
+      });
+    };
+  }
+
+  public dispose() {
+    this.connections.forEach(c => this.closeConnection(c));
+    this.entries.clear();
+  }
+
+  private pickConnection(): HubConnection {
+    const open = this.connections.find(c => c.streams.size < this.maxStreams);
+    if (open) return open;
+    const connection: HubConnection = {
+      id: ++this.connectionSeq,
+      socket: null,
+      streams: new Set(),
+      live: new Set(),
+      status: ConnectionStatus.CONNECTING,
+      flushTimer: null,
+    };
+    this.connections.push(connection);
+    return connection;
+  }
+
+  private scheduleFlush(connection: HubConnection) {
+    if (connection.flushTimer) return;
+    connection.flushTimer = setTimeout(() => {
+      connection.flushTimer = null;
+      this.flush(connection);
+    }, FLUSH_DELAY_MS);
+  }
+
+  private flush(connection: HubConnection) {
+    if (connection.streams.size === 0) {
+      this.closeConnection(connection);
+      return;
+    }
+    if (!connection.socket) {
+      connection.socket = this.openSocket(connection);
+      return;
+    }
+    if (!connection.socket.isOpen()) return; // onOpen flushes
+
+    const unsubscribe = [...connection.live].filter(s => !connection.streams.has(s));
+    const subscribe = [...connection.streams].filter(s => !connection.live.has(s));
+    if (unsubscribe.length > 0) this.request(connection, 'UNSUBSCRIBE', unsubscribe);
+    if (subscribe.length > 0) this.request(connection, 'SUBSCRIBE', subscribe);
+  }
+
+  private request(connection: HubConnection, method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]) {
+    if (!connection.socket?.send({ method, params, id: ++this.requestId })) return;
+    params.forEach(s => {
+      if (method === 'SUBSCRIBE') connection.live.add(s);
+      else connection.live.delete(s);
+    });
+  }
+
+  private openSocket(connection: HubConnection): ManagedSocket {
+    return createManagedSocket({
+      // Every (re)connect starts from the streams wanted right now
+      url: () => {
+        connection.live = new Set(connection.streams);
+        return `${this.baseUrl}?streams=${[...connection.live].join('/')}`;
+      },
+      label: `${this.label} #${connection.id}`,
+      staleAfterMs: this.staleAfterMs,
+      onStatus: (status) => {
+        connection.status = status;
+        this.listenersOf(connection).forEach(l => l.onStatus?.(status));
+      },
+      onOpen: () => this.flush(connection),
+      onReconnect: (info) => this.listenersOf(connection).forEach(l => l.onReconnect?.(info)),
+      onMessage: (msg) => {
+        // Replies to SUBSCRIBE / UNSUBSCRIBE carry an id instead of a stream
+        if (msg.error) console.warn(`${this.label} request ${msg.id} failed`, msg.error);
+        if (!msg.stream || !msg.data) return;
+        this.entries.get(msg.stream)?.listeners.forEach(l => l.onMessage(msg.stream, msg.data));
+      },
+    });
+  }
+
+  private closeConnection(connection: HubConnection) {
+    if (connection.flushTimer) clearTimeout(connection.flushTimer);
+    connection.flushTimer = null;
+    connection.socket?.close();
+    connection.socket = null;
+    this.connections = this.connections.filter(c => c !== connection);
+  }
+
+  private listenersOf(connection: HubConnection): Set<StreamListener> {
+    const listeners = new Set<StreamListener>();
+    this.entries.forEach(entry => {
+      if (entry.connection === connection) entry.listeners.forEach(l => listeners.add(l));
+    });
+    return listeners;
+  }
+}
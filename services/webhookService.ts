@@ -0,0 +1,252 @@
+import { AlertEvent, AlertRule, WebhookDelivery, WebhookDestination } from '../types';
+import { Clock, systemClock } from '../utils/clock';
+import { describeCondition } from '../utils/alertEngine';
+
+export const MOCK_WEBHOOK_URL = '/__webhooks/mock'; // Served by the dev server (vite.config.ts)
+
+export const DEFAULT_WEBHOOK_TEMPLATE = `{
+  "symbol": "{{symbol}}",
+  "message": "{{message}}",
+  "price": {{price}},
+  "time": "{{isoTime}}",
+  "rule": "{{rule}}"
+}`;
+
+export const WEBHOOK_PLACEHOLDERS = ['symbol', 'message', 'price', 'time', 'isoTime', 'rule', 'ruleId', 'alertId'];
+
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 2000; // Doubles per attempt
+const REQUEST_TIMEOUT_MS = 10000;
+const RATE_WINDOW_MS = 60 * 1000;
+const PROCESS_INTERVAL_MS = 500;
+const MAX_QUEUE = 500;
+const MAX_LOG = 100;
+
+interface QueuedDelivery {
+  delivery: WebhookDelivery;
+  url: string;
+  body: string;
+  nextAttempt: number;
+}
+
+type Sender = (url: string, init: RequestInit) => Promise<Response>;
+
+// Inside a JSON string literal: escape quotes / newlines but drop the surrounding quotes
+const escapeJson = (value: string) => JSON.stringify(value).slice(1, -1);
+
+/**
+ * Fills a destination template with an alert's fields. Placeholders are substituted as
+ * JSON-escaped text, so `"{{message}}"` and bare `{{price}}` both produce valid JSON.
+ * Throws when the result isn't valid JSON.
+ */
+export const renderWebhookPayload = (template: string, alert: AlertEvent, rule?: AlertRule): string => {
+  const values: Record<string, string> = {
+    symbol: alert.symbol,
+    message: alert.message,
+    price: String(alert.price),
+    time: String(alert.time),
+    isoTime: new Date(alert.time).toISOString(),
+    rule: rule ? describeCondition(rule.condition) : '',
+    ruleId: alert.ruleId,
+    alertId: alert.id,
+  };
+  const body = template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? escapeJson(values[key]) : match
+  );
+  JSON.parse(body);
+  return body;
+};
+
+/**
+ * Posts alerts to webhook destinations. Every delivery goes through a queue: failed requests
+ * (network errors, non-2xx) are retried with exponential backoff up to MAX_ATTEMPTS, and each
+ * destination is held to its own requests-per-minute limit, excess waiting in the queue.
+ */
+export class WebhookDispatcher {
+  private destinations: WebhookDestination[] = [];
+  private queue: QueuedDelivery[] = [];
+  private inFlight: Set<string> = new Set();
+  private sentTimes: Map<string, number[]> = new Map(); // Request starts per destination, last minute
+  private log: WebhookDelivery[] = [];                   // Newest first
+  private listeners: Set<(log: WebhookDelivery[]) => void> = new Set();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private sequence = 0;
+
+  constructor(
+    private send: Sender = (url, init) => fetch(url, init),
+    private clock: Clock = systemClock
+  ) {}
+
+  public setDestinations(destinations: WebhookDestination[]) {
+    this.destinations = destinations;
+    // Drop queued work for removed or disabled destinations
+    const active = new Set(destinations.filter(d => d.enabled).map(d => d.id));
+    this.queue = this.queue.filter(job => {
+      if (active.has(job.delivery.destinationId)) return true;
+      this.update(job.delivery, 'failed', 'Destination disabled');
+      return false;
+    });
+  }
+
+  /**
+   * Queues the alerts of webhook-enabled rules for every enabled destination.
+   */
+  public dispatch(alerts: AlertEvent[], rules: AlertRule[]) {
+    const byId = new Map(rules.map(r => [r.id, r]));
+    alerts.forEach(alert => {
+      const rule = byId.get(alert.ruleId);
+      if (!rule?.webhook) return;
+      this.destinations.filter(d => d.enabled).forEach(d => this.enqueue(d, alert, rule));
+    });
+  }
+
+  /**
+   * Queues a sample alert for one destination, regardless of its enabled flag.
+   */
+  public test(destination: WebhookDestination) {
+    const now = this.clock.now();
+    this.enqueue(destination, { id: `test-${now}`, ruleId: 'test', symbol: 'TEST', message: 'Webhook test', price: 0, time: now });
+  }
+
+  public getLog(): WebhookDelivery[] {
+    return this.log;
+  }
+
+  public subscribe(listener: (log: WebhookDelivery[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  public dispose() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.queue = [];
+    this.listeners.clear();
+  }
+
+  private enqueue(destination: WebhookDestination, alert: AlertEvent, rule?: AlertRule) {
+    const now = this.clock.now();
+    const delivery: WebhookDelivery = {
+      id: `${now}-${this.sequence++}`,
+      destinationId: destination.id,
+      alertId: alert.id,
+      symbol: alert.symbol,
+      status: 'queued',
+      attempts: 0,
+      error: null,
+      time: now,
+    };
+
+    let body: string;
+    try {
+      body = renderWebhookPayload(destination.template, alert, rule);
+    } catch (e) {
+      this.record(delivery);
+      this.update(delivery, 'failed', `Template: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+
+    if (this.queue.length >= MAX_QUEUE) {
+      const dropped = this.queue.shift()!;
+      this.update(dropped.delivery, 'failed', 'Queue full');
+    }
+    this.queue.push({ delivery, url: destination.url, body, nextAttempt: now });
+    this.record(delivery);
+    this.ensureTimer();
+  }
+
+  private ensureTimer() {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.process(), PROCESS_INTERVAL_MS);
+    this.process();
+  }
+
+  private process() {
+    const now = this.clock.now();
+    if (this.queue.length === 0 && this.inFlight.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      return;
+    }
+
+    this.queue.forEach(job => {
+      if (job.nextAttempt > now || this.inFlight.has(job.delivery.id)) return;
+      const destination = this.destinations.find(d => d.id === job.delivery.destinationId);
+      const limit = destination ? destination.ratePerMinute : Infinity;
+      const times = (this.sentTimes.get(job.delivery.destinationId) || []).filter(t => now - t < RATE_WINDOW_MS);
+      this.sentTimes.set(job.delivery.destinationId, times);
+      if (times.length >= limit) return;
+
+      times.push(now);
+      this.attempt(job);
+    });
+  }
+
+  private async attempt(job: QueuedDelivery) {
+    const { delivery } = job;
+    this.inFlight.add(delivery.id);
+    delivery.attempts++;
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    let error: string | null = null;
+    try {
+      const res = await this.send(job.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: job.body,
+        signal: controller.signal,
+      });
+      if (!res.ok) error = `HTTP ${res.status}`;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      clearTimeout(timeout);
+      this.inFlight.delete(delivery.id);
+    }
+
+    if (error === null || delivery.attempts >= MAX_ATTEMPTS) {
+      this.queue = this.queue.filter(j => j !== job);
+      this.update(delivery, error === null ? 'sent' : 'failed', error);
+      return;
+    }
+    job.nextAttempt = this.clock.now() + RETRY_BASE_MS * 2 ** (delivery.attempts - 1);
+    this.update(delivery, 'retrying', error);
+  }
+
+  private record(delivery: WebhookDelivery) {
+    this.log = [{ ...delivery }, ...this.log].slice(0, MAX_LOG);
+    this.emit();
+  }
+
+  private update(delivery: WebhookDelivery, status: WebhookDelivery['status'], error: string | null) {
+    Object.assign(delivery, { status, error, time: this.clock.now() });
+    // The log holds copies, so subscribers see a new entry rather than a mutated one
+    this.log = this.log.map(d => d.id === delivery.id ? { ...delivery } : d);
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l(this.log));
+  }
+}
+
+// --- Persistence (destinations) ---
+
+export const loadWebhookDestinations = (storageKey: string): WebhookDestination[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Failed to load webhook destinations', e);
+    return [];
+  }
+};
+
+export const saveWebhookDestinations = (storageKey: string, destinations: WebhookDestination[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(destinations));
+  } catch (e) {
+    console.warn('Failed to persist webhook destinations', e);
+  }
+};
@@ -26,6 +26,9 @@ export interface ProfileLevel {
   askVol?: number; // Optional split
 }
 
+// Where a profile's volume-at-price came from: candles (volume spread over each bar's range) or exact trades
+export type ProfileSource = 'candles' | 'trades';
+
 export interface ProfileMetrics {
   levels: ProfileLevel[];
   poc: number; // Point of Control Price
@@ -34,6 +37,91 @@ export interface ProfileMetrics {
   totalVolume: number;
   sessionHigh: number;
   sessionLow: number;
+  source?: ProfileSource;
+}
+
+// POC / value area as they stood at the close of one candle
+export interface DevelopingProfilePoint {
+  timestamp: number;
+  poc: number;
+  vah: number;
+  val: number;
+}
+
+// High / low volume node: local extreme of the (smoothed) volume distribution
+export interface VolumeNode {
+  price: number;
+  volume: number;
+  type: 'HVN' | 'LVN';
+}
+
+export interface CompositeProfile extends ProfileMetrics {
+  startTime: number;
+  endTime: number;
+  days: number;
+  nodes: VolumeNode[];
+}
+
+// --- TPO (Market Profile) ---
+
+// One 30-minute bracket of the session
+export interface TpoPeriod {
+  letter: string;
+  start: number;
+  high: number;
+  low: number;
+}
+
+export interface TpoLevel {
+  price: number;
+  letters: string; // Brackets that traded at this price, in time order
+}
+
+export interface TpoProfile {
+  tickSize: number;
+  periodMs: number;
+  periods: TpoPeriod[];
+  levels: TpoLevel[]; // Ascending by price
+  totalTpo: number;
+  poc: number;
+  vah: number;
+  val: number;
+  ibHigh: number | null; // Initial balance (first two brackets)
+  ibLow: number | null;
+  extensionUp: TpoPeriod | null;   // First bracket to trade above the IB
+  extensionDown: TpoPeriod | null; // First bracket to trade below the IB
+  singlePrints: { low: number; high: number }[]; // Single-TPO runs inside the range (tails excluded)
+}
+
+// A named trading session (Asia, London...); times in UTC, start > end wraps midnight
+export interface SessionDefinition {
+  id: string;
+  name: string;
+  startTime: string; // HH:mm
+  endTime: string;   // HH:mm
+  color: string;
+  enabled: boolean;
+}
+
+// One named session's auction on a given day
+export interface NamedSessionProfile {
+  session: SessionDefinition;
+  start: number;
+  end: number;
+  profile: ProfileMetrics;
+  ibHigh: number | null;
+  ibLow: number | null;
+  vwap: { timestamp: number; value: number }[]; // Anchored at the session open
+  lane: number; // 0, or higher when it overlaps an earlier session
+}
+
+// When cumulative series (VWAP, CVD) start over
+export type ResetPolicy = 'session' | 'daily' | 'weekly' | 'monthly' | 'anchor' | 'none';
+
+export interface ResetOptions {
+  policy: ResetPolicy;
+  sessionStart?: string; // HH:mm (UTC), for 'session'
+  anchorTime?: number;   // For 'anchor'
 }
 
 export interface SessionConfig {
@@ -41,6 +129,9 @@ export interface SessionConfig {
   startTime: string; // HH:mm format (UTC)
   endTime: string;   // HH:mm format (UTC)
   tickSize: number;
+  sessions: SessionDefinition[]; // Named sessions profiled separately within the day
+  resetPolicy: ResetPolicy;      // VWAP / CVD reset boundary
+  resetAnchor?: number;          // Timestamp used by the 'anchor' policy
 }
 
 export interface SessionLevels {
@@ -51,6 +142,31 @@ export interface SessionLevels {
   sessionLow: number;
 }
 
+// A completed session's profile plus the auction "unfinished business" it left behind
+export interface SessionRecord {
+  date: string; // YYYY-MM-DD (UTC) the session belongs to
+  tickSize: number;
+  profile: ProfileMetrics;
+  poorHigh: boolean; // High printed by 2+ TPO periods (no excess)
+  poorLow: boolean;
+  singlePrints: { low: number; high: number }[]; // Ranges touched by a single TPO period
+}
+
+// A prior-session reference price (POC, poor high/low...)
+export interface PriorLevel {
+  date: string;
+  price: number;
+}
+
+// Reference levels from previous sessions that are still relevant to the current one
+export interface PriorSessionLevels {
+  previous: SessionRecord | null; // Last completed session (VAH / VAL / POC)
+  nakedPocs: PriorLevel[];        // POCs not traded through since
+  poorHighs: PriorLevel[];        // Still unrepaired
+  poorLows: PriorLevel[];
+  singlePrints: (PriorLevel & { low: number; high: number })[]; // Gaps not yet filled (price = mid)
+}
+
 export type AuctionMode = 
   | 'BALANCED' 
   | 'ROTATIONAL' 
@@ -113,7 +229,7 @@ export interface ScreenerRow {
   fundingRate: number; 
   fundingZScore: number;
   
-  // Mini Chart Data (Last 20 points)
+  // Mini Chart Data (real closes, one per ScreenerTimeframe bar)
   sparkline: number[]; 
   
   // Legacy fields compatibility
@@ -122,24 +238,105 @@ export interface ScreenerRow {
   trendStrength: number; 
 }
 
+// Order block lifecycle, in the order a block moves through it
+export type OrderBlockStatus = 'FRESH' | 'TESTED' | 'PARTIALLY_MITIGATED' | 'FAILING' | 'BROKEN';
+
 export interface OrderBlock {
   id: string;
   type: 'bullish' | 'bearish';
   top: number;
   bottom: number;
   start: number; // timestamp
-  mitigated: boolean;
+  timeframe: string; // Interval the block was found on
+  mitigated: boolean; // Price has traded back into the zone
+  mitigation: number; // Deepest penetration into the zone, 0-1
   strength: number; // 0-100 confidence based on reaction
-  status: 'FRESH' | 'TESTED' | 'FAILING';
+  status: OrderBlockStatus;
+  history: { status: OrderBlockStatus; time: number }[]; // Every status change, FRESH first
+  brokenAt: number | null;
+}
+
+// --- Market Structure ---
+
+export interface SwingPoint {
+  timestamp: number;
+  price: number;
+  type: 'high' | 'low';
+  label: 'HH' | 'LH' | 'HL' | 'LL' | null; // Relative to the previous swing of the same type
+}
+
+// Close beyond the last swing: BOS continues the trend, CHoCH reverses it
+export interface StructureBreak {
+  type: 'BOS' | 'CHOCH';
+  direction: 'bullish' | 'bearish';
+  price: number;     // Level of the swing that was broken
+  swingTime: number;
+  breakTime: number;
+}
+
+export interface FairValueGap {
+  id: string;
+  type: 'bullish' | 'bearish';
+  top: number;
+  bottom: number;
+  start: number;  // Middle candle of the three-candle pattern
+  fill: number;   // Deepest retrace into the gap, 0-1
+  filledAt: number | null;
+}
+
+// Equal highs / lows: resting liquidity until price trades through it
+export interface LiquidityPool {
+  type: 'equalHighs' | 'equalLows';
+  price: number;
+  points: number[]; // Timestamps of the swings forming the pool
+  sweptAt: number | null;
+  reclaimed: boolean; // Swept by a wick and closed back (a classic sweep) rather than broken
+}
+
+export interface MarketStructure {
+  trend: 'bullish' | 'bearish' | 'neutral';
+  swings: SwingPoint[];
+  breaks: StructureBreak[];
+  fvgs: FairValueGap[];
+  pools: LiquidityPool[];
 }
 
+// --- Anchored VWAP ---
+
+export type VwapAnchorKind = 'candle' | 'swingHigh' | 'swingLow' | 'orderBlock' | 'sessionOpen';
+
+export interface VwapAnchor {
+  id: string;
+  kind: VwapAnchorKind;
+  time: number | null; // Fixed start (clicked candle, order block); null = resolved from the data
+  color: string;
+}
+
+export interface AnchoredVwapPoint {
+  timestamp: number;
+  vwap: number;
+  std: number; // Volume-weighted standard deviation since the anchor
+}
+
+export interface AnchoredVwap {
+  anchor: VwapAnchor;
+  anchorTime: number;
+  points: AnchoredVwapPoint[];
+}
+
+export type DrawingTool = 'trendline' | 'horizontal' | 'rectangle' | 'fibonacci' | 'text';
+
+// A chart drawing in data coordinates, so it follows zoom / pan.
+// Single-point tools (horizontal, text) keep x2/y2 equal to x1/y1.
 export interface DrawingLine {
   id: string;
+  type: DrawingTool;
   x1: number; // timestamp
   y1: number; // price
   x2: number; // timestamp
   y2: number; // price
   color: string;
+  text?: string; // Text notes
 }
 
 export type SortDirection = 'asc' | 'desc';
@@ -156,9 +353,23 @@ export enum ConnectionStatus {
   DISCONNECTED = 'Disconnected',
   CONNECTING = 'Connecting',
   CONNECTED = 'Connected',
+  RECONNECTING = 'Reconnecting',
   ERROR = 'Error',
 }
 
+// Live 24h stats pushed by the all-market ticker stream
+export interface TickerSnapshot {
+  price: number;
+  chg24h: number;
+  vol24h: number; // Quote volume
+}
+
+// Settled funding rate (raw fraction) at its funding time
+export interface FundingRateSample {
+  time: number;
+  rate: number;
+}
+
 // --- Order Flow Types ---
 
 export interface Trade {
@@ -190,6 +401,33 @@ export interface EnrichedLevel extends OrderBookLevel {
   age: number; // How many snapshots this level has persisted > threshold
 }
 
+// Read-only view over a locally reconstructed (full depth) order book
+export interface OrderBookView {
+  readonly lastUpdateId: number;
+  isSynced(): boolean;
+  getBids(limit?: number): OrderBookLevel[]; // Best (highest) first
+  getAsks(limit?: number): OrderBookLevel[]; // Best (lowest) first
+  getRange(side: 'bid' | 'ask', low: number, high: number): OrderBookLevel[];
+  getQty(side: 'bid' | 'ask', price: number): number;
+  bestBid(): number;
+  bestAsk(): number;
+  levelCount(): { bids: number; asks: number };
+}
+
+// Named, ordered symbol list (radar tab, HFT grid source)
+export interface Watchlist {
+  id: string;
+  name: string;
+  symbols: string[];
+}
+
+// Saved HFT Engine grid: card symbols in display order
+export interface HFTLayout {
+  id: string;
+  name: string;
+  symbols: string[];
+}
+
 export interface OrderFlowState {
   trades: Trade[];
   bids: OrderBookLevel[];
@@ -247,3 +485,89 @@ export interface SmartGroupingConfig {
   minLifetime: number; // ms, to avoid spoofs
   adaptive: boolean; // If true, priceGroup adjusts to volatility
 }
+
+// --- Footprint Types ---
+
+export interface FootprintCell {
+  price: number;  // Lower edge of the tick row
+  bidVol: number; // Aggressive sells (hit the bid)
+  askVol: number; // Aggressive buys (lifted the ask)
+  // Diagonal imbalance: ask vs bid one tick below (buy), bid vs ask one tick above (sell)
+  imbalance: 'buy' | 'sell' | null;
+  imbalanceRatio: number; // Ratio behind `imbalance` (Infinity when the other side is empty)
+  stacked: boolean;       // Part of a run of same-side imbalances
+}
+
+export interface StackedImbalance {
+  side: 'buy' | 'sell';
+  low: number;  // Lowest cell price
+  high: number; // Highest cell price
+}
+
+export interface FootprintBar {
+  timestamp: number;
+  tickSize: number;
+  cells: FootprintCell[]; // Ascending price
+  volume: number;
+  delta: number;
+  poc: number;
+  stackedImbalances: StackedImbalance[];
+}
+
+// --- Alerts ---
+
+// Numeric radar columns a rule can threshold
+export type AlertMetric = 'volZScore' | 'deltaZScore' | 'attentionScore' | 'tfChange' | 'fundingZScore' | 'signalConfidence';
+
+export type AlertCondition =
+  | { kind: 'price'; direction: 'above' | 'below'; price: number } // Crossing, not just being beyond
+  | { kind: 'metric'; field: AlertMetric; op: 'gt' | 'lt'; value: number }
+  | { kind: 'signal'; signal: SignalType }
+  | { kind: 'context'; tag: ContextTag }
+  | { kind: 'event'; state: EventState; side: 'bid' | 'ask' | 'any' } // Persistent event entering `state`
+  | { kind: 'level'; level: 'VAH' | 'POC' | 'VAL' }                   // Chart symbol touching its profile
+  | { kind: 'auction'; mode: AuctionMode | 'any' };                    // Chart auction mode changing to `mode`
+
+export interface AlertRule {
+  id: string;
+  symbol: string | null; // null = every symbol the condition can be evaluated for
+  condition: AlertCondition;
+  cooldownMs: number;    // Minimum gap between two alerts of this rule on one symbol
+  enabled: boolean;
+  notify: boolean;       // Browser notification
+  sound: boolean;
+  webhook?: boolean;     // Post to the enabled webhook destinations
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  price: number;
+  time: number;
+}
+
+// --- Webhooks ---
+
+export interface WebhookDestination {
+  id: string;
+  name: string;
+  url: string;
+  template: string;      // JSON body with {{placeholders}} filled from the alert
+  ratePerMinute: number; // Requests beyond this wait in the queue
+  enabled: boolean;
+}
+
+export type WebhookDeliveryStatus = 'queued' | 'retrying' | 'sent' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  destinationId: string;
+  alertId: string;
+  symbol: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  error: string | null; // Last failure (HTTP status or network error)
+  time: number;         // Last status change
+}
@@ -0,0 +1,231 @@
+import { AlertCondition, AlertEvent, AlertMetric, AlertRule, AuctionContext, AuctionMode, EventState, PersistentEvent, ProfileMetrics, ScreenerRow } from '../types';
+import { Clock, systemClock } from './clock';
+
+export const DEFAULT_ALERT_COOLDOWN_MS = 5 * 60 * 1000;
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  volZScore: 'Vol Z',
+  deltaZScore: 'Delta Z',
+  attentionScore: 'Attention',
+  tfChange: 'Chg %',
+  fundingZScore: 'Funding Z',
+  signalConfidence: 'Signal Conf.',
+};
+
+const fmt = (v: number) => Number(v.toPrecision(6)).toString();
+
+/**
+ * Short human description of a condition ("Vol Z > 3", "Crosses above 65000"...).
+ */
+export const describeCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case 'price':
+      return `Crosses ${condition.direction} ${fmt(condition.price)}`;
+    case 'metric':
+      return `${ALERT_METRIC_LABELS[condition.field]} ${condition.op === 'gt' ? '>' : '<'} ${condition.value}`;
+    case 'signal':
+      return `Signal = ${condition.signal}`;
+    case 'context':
+      return `Context = ${condition.tag}`;
+    case 'event':
+      return `${condition.side === 'any' ? '' : `${condition.side.toUpperCase()} `}event -> ${condition.state}`;
+    case 'level':
+      return `Touches ${condition.level}`;
+    case 'auction':
+      return condition.mode === 'any' ? 'Auction mode changes' : `Auction -> ${condition.mode}`;
+  }
+};
+
+const appliesTo = (rule: AlertRule, symbol: string) => rule.enabled && (rule.symbol === null || rule.symbol === symbol);
+
+/**
+ * Evaluates alert rules against the radar rows, the chart profile and auction mode, and
+ * persistent order flow events. Alerts are edge-triggered: a condition fires when it becomes true and has to
+ * clear before it can fire again, and each rule/symbol pair then waits out its cooldown.
+ */
+export class AlertEngine {
+  // Condition result on the previous evaluation, per rule and symbol
+  private conditionState: Map<string, boolean> = new Map();
+  private lastFired: Map<string, number> = new Map();
+  // Previous price per source ("row:BTCUSDT", "level:BTCUSDT") for crossings
+  private lastPrice: Map<string, number> = new Map();
+  // Last seen state of each persistent event, per symbol
+  private eventStates: Map<string, Map<string, EventState>> = new Map();
+  private auctionModes: Map<string, AuctionMode> = new Map();
+  private sequence = 0;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Price crossings and radar column conditions (metrics, signal, context) for every row.
+   */
+  public evaluateRows(rules: AlertRule[], rows: ScreenerRow[]): AlertEvent[] {
+    const fired: AlertEvent[] = [];
+
+    rows.forEach(row => {
+      if (row.status === 'INITIALIZING' || !(row.price > 0)) return;
+      const prevPrice = this.lastPrice.get(`row:${row.symbol}`);
+      this.lastPrice.set(`row:${row.symbol}`, row.price);
+
+      rules.forEach(rule => {
+        if (!appliesTo(rule, row.symbol)) return;
+        const message = this.checkRow(rule.condition, row, prevPrice);
+        if (message === undefined) return;
+        const alert = this.edge(rule, row.symbol, message, row.price);
+        if (alert) fired.push(alert);
+      });
+    });
+
+    return fired;
+  }
+
+  /**
+   * Profile level touches for one symbol: within `tolerance` of the level, or crossed it
+   * since the previous price.
+   */
+  public evaluateLevels(rules: AlertRule[], symbol: string, price: number, profile: ProfileMetrics, tolerance: number): AlertEvent[] {
+    const prevPrice = this.lastPrice.get(`level:${symbol}`);
+    this.lastPrice.set(`level:${symbol}`, price);
+    const levels = { VAH: profile.vah, POC: profile.poc, VAL: profile.val };
+    const fired: AlertEvent[] = [];
+
+    rules.forEach(rule => {
+      if (!appliesTo(rule, symbol) || rule.condition.kind !== 'level') return;
+      const level = levels[rule.condition.level];
+      const crossed = prevPrice !== undefined && (prevPrice - level) * (price - level) < 0;
+      const touching = Math.abs(price - level) <= tolerance || crossed;
+      const alert = this.edge(rule, symbol, touching ? `Touched ${rule.condition.level} ${fmt(level)}` : null, price);
+      if (alert) fired.push(alert);
+    });
+
+    return fired;
+  }
+
+  /**
+   * Persistent event transitions (STACK -> HOLDING -> FAIL...) for one symbol. An event that
+   * first appears already in the target state counts as a transition into it.
+   */
+  public evaluateEvents(rules: AlertRule[], symbol: string, events: PersistentEvent[]): AlertEvent[] {
+    const previous = this.eventStates.get(symbol) || new Map<string, EventState>();
+    const current = new Map<string, EventState>();
+    const fired: AlertEvent[] = [];
+
+    events.forEach(event => {
+      current.set(event.id, event.state);
+      if (previous.get(event.id) === event.state) return;
+
+      rules.forEach(rule => {
+        const condition = rule.condition;
+        if (!appliesTo(rule, symbol) || condition.kind !== 'event') return;
+        if (condition.state !== event.state || (condition.side !== 'any' && condition.side !== event.side)) return;
+        const alert = this.fire(rule, symbol, `${event.type} ${event.side} @ ${fmt(event.price)} -> ${event.state}`, event.price);
+        if (alert) fired.push(alert);
+      });
+    });
+
+    // Replacing the map drops events the engine has expired
+    this.eventStates.set(symbol, current);
+    return fired;
+  }
+
+  /**
+   * Auction mode changes for one symbol. The first mode seen for a symbol is only recorded.
+   */
+  public evaluateAuction(rules: AlertRule[], symbol: string, context: AuctionContext, price: number): AlertEvent[] {
+    const previous = this.auctionModes.get(symbol);
+    this.auctionModes.set(symbol, context.mode);
+    if (previous === undefined || previous === context.mode) return [];
+    const fired: AlertEvent[] = [];
+
+    rules.forEach(rule => {
+      const condition = rule.condition;
+      if (!appliesTo(rule, symbol) || condition.kind !== 'auction') return;
+      if (condition.mode !== 'any' && condition.mode !== context.mode) return;
+      const alert = this.fire(rule, symbol, `Auction ${previous} -> ${context.mode} (${context.confidence}%)`, price);
+      if (alert) fired.push(alert);
+    });
+
+    return fired;
+  }
+
+  /**
+   * Forgets the last auction mode of a symbol, so the next one seen is only recorded.
+   * Call when the chart stops watching it: a change while away was never observed.
+   */
+  public forgetAuction(symbol: string) {
+    this.auctionModes.delete(symbol);
+  }
+
+  /**
+   * Drops the trigger state of a deleted or edited rule.
+   */
+  public forgetRule(ruleId: string) {
+    for (const map of [this.conditionState, this.lastFired]) {
+      for (const key of map.keys()) {
+        if (key.startsWith(`${ruleId}:`)) map.delete(key);
+      }
+    }
+  }
+
+  // Message when the condition holds, null when it doesn't, undefined when it isn't a row condition
+  private checkRow(condition: AlertCondition, row: ScreenerRow, prevPrice: number | undefined): string | null | undefined {
+    switch (condition.kind) {
+      case 'price': {
+        if (prevPrice === undefined) return null;
+        const crossed = condition.direction === 'above'
+          ? prevPrice < condition.price && row.price >= condition.price
+          : prevPrice > condition.price && row.price <= condition.price;
+        return crossed ? `Crossed ${condition.direction} ${fmt(condition.price)}` : null;
+      }
+      case 'metric': {
+        const value = row[condition.field];
+        const holds = condition.op === 'gt' ? value > condition.value : value < condition.value;
+        return holds ? `${ALERT_METRIC_LABELS[condition.field]} ${value.toFixed(2)} ${condition.op === 'gt' ? '>' : '<'} ${condition.value}` : null;
+      }
+      case 'signal':
+        return row.ofSignal === condition.signal ? `Signal ${condition.signal} (${row.signalConfidence.toFixed(0)}%)` : null;
+      case 'context':
+        return row.contextTag === condition.tag ? `Context ${condition.tag}` : null;
+      default:
+        return undefined;
+    }
+  }
+
+  // Fires on a false -> true change of the condition
+  private edge(rule: AlertRule, symbol: string, message: string | null, price: number): AlertEvent | null {
+    const key = `${rule.id}:${symbol}`;
+    const wasActive = this.conditionState.get(key) || false;
+    this.conditionState.set(key, message !== null);
+    if (message === null || wasActive) return null;
+    return this.fire(rule, symbol, message, price);
+  }
+
+  private fire(rule: AlertRule, symbol: string, message: string, price: number): AlertEvent | null {
+    const key = `${rule.id}:${symbol}`;
+    const now = this.clock.now();
+    const last = this.lastFired.get(key);
+    if (last !== undefined && now - last < rule.cooldownMs) return null;
+    this.lastFired.set(key, now);
+    return { id: `${now}-${this.sequence++}`, ruleId: rule.id, symbol, message, price, time: now };
+  }
+}
+
+// --- Persistence (rules) ---
+
+export const loadAlertRules = (storageKey: string): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Failed to load alert rules', e);
+    return [];
+  }
+};
+
+export const saveAlertRules = (storageKey: string, rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(rules));
+  } catch (e) {
+    console.warn('Failed to persist alert rules', e);
+  }
+};
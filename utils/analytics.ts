@@ -1,6 +1,6 @@
 
 
-import { Candle, ProfileLevel, ProfileMetrics, ScreenerRow, OrderBlock, SessionLevels, AuctionMode, AuctionContext, CVDState, ContextTag } from '../types';
+import { Candle, ProfileLevel, ProfileMetrics, ScreenerRow, SessionLevels, AuctionMode, AuctionContext, CVDState, ContextTag, PriorSessionLevels, ResetOptions, ResetPolicy, SessionConfig, MarketStructure } from '../types';
 
 /**
  * Checks if a timestamp falls within the session time range.
@@ -23,15 +23,71 @@ export const isInSession = (timestamp: number, startStr: string, endStr: string)
   }
 };
 
+/**
+ * Time bounds of the session on a given UTC day (YYYY-MM-DD).
+ * A session that wraps midnight spans the whole day; filter with isInSession.
+ */
+export const getSessionBounds = (day: string, startStr: string, endStr: string): { start: number; end: number } => {
+  const dayStart = new Date(`${day}T00:00:00Z`).getTime();
+  const dayEnd = new Date(`${day}T23:59:59.999Z`).getTime();
+  const toMs = (str: string) => {
+    const [h, m] = str.split(':').map(Number);
+    return (h * 60 + m) * 60 * 1000;
+  };
+  const startMs = toMs(startStr);
+  const endMs = toMs(endStr);
+  if (startMs > endMs) return { start: dayStart, end: dayEnd };
+  return { start: dayStart + startMs, end: Math.min(dayEnd, dayStart + endMs) };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const EPOCH_MONDAY_OFFSET_MS = 4 * DAY_MS; // 1970-01-01 was a Thursday
+
+/**
+ * Index of the reset period a timestamp falls in; cumulative series restart whenever it changes.
+ */
+export const getResetPeriod = (timestamp: number, options: ResetOptions): number => {
+  switch (options.policy) {
+    case 'session': {
+      const [h, m] = (options.sessionStart || '00:00').split(':').map(Number);
+      return Math.floor((timestamp - (h * 60 + m) * 60 * 1000) / DAY_MS);
+    }
+    case 'daily':
+      return Math.floor(timestamp / DAY_MS);
+    case 'weekly':
+      return Math.floor((timestamp - EPOCH_MONDAY_OFFSET_MS) / WEEK_MS); // Weeks start Monday 00:00 UTC
+    case 'monthly': {
+      const d = new Date(timestamp);
+      return d.getUTCFullYear() * 12 + d.getUTCMonth();
+    }
+    case 'anchor':
+      return options.anchorTime !== undefined && timestamp >= options.anchorTime ? 1 : 0;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Reset boundaries for the current view. Long-term mode spans months to years of daily bars,
+ * so intraday policies fall back to monthly there.
+ */
+export const resolveResetOptions = (config: SessionConfig, isLongTermMode: boolean): ResetOptions => {
+  const intraday: ResetPolicy[] = ['session', 'daily'];
+  const policy = isLongTermMode && intraday.includes(config.resetPolicy) ? 'monthly' : config.resetPolicy;
+  return { policy, sessionStart: config.startTime, anchorTime: config.resetAnchor };
+};
+
 /**
  * Enriches a list of candles with Order Flow metrics:
+ * delta, CVD and VWAP (typical price) with bands, all restarting per `reset` (UTC day by default).
  */
-export const enrichCandlesWithContext = (candles: Candle[]): Candle[] => {
+export const enrichCandlesWithContext = (candles: Candle[], reset: ResetOptions = { policy: 'daily' }): Candle[] => {
     let cumDelta = 0;
     let cumVol = 0;
     let cumPV = 0;
     let sumSquaredDev = 0; // For VWAP Bands
-    let lastTime = 0;
+    let lastPeriod: number | null = null;
 
     const enriched = candles.map((c, i) => {
         // Delta Calculation
@@ -39,22 +95,22 @@ export const enrichCandlesWithContext = (candles: Candle[]): Candle[] => {
         const aggressiveSell = c.volume - c.takerBuyVolume;
         const delta = aggressiveBuy - aggressiveSell;
         
-        // Reset Logic (New Day UTC)
-        const date = new Date(c.timestamp).getUTCDate();
-        const prevDate = new Date(lastTime).getUTCDate();
+        // Reset Logic (per policy)
+        const period = getResetPeriod(c.timestamp, reset);
         
-        if (lastTime !== 0 && date !== prevDate) {
+        if (lastPeriod !== null && period !== lastPeriod) {
             cumDelta = 0;
             cumVol = 0;
             cumPV = 0;
             sumSquaredDev = 0;
         }
 
+        const typicalPrice = (c.high + c.low + c.close) / 3;
+
         cumDelta += delta;
         cumVol += c.volume;
-        cumPV += (c.close * c.volume); 
+        cumPV += (typicalPrice * c.volume);
         
-        const typicalPrice = (c.high + c.low + c.close) / 3;
         const vwap = cumVol > 0 ? cumPV / cumVol : c.close;
         
         // SD Calc for Bands
@@ -65,7 +121,7 @@ export const enrichCandlesWithContext = (candles: Candle[]): Candle[] => {
         const variance = cumVol > 0 ? sumSquaredDev / cumVol : 0;
         const stdDev = Math.sqrt(variance);
 
-        lastTime = c.timestamp;
+        lastPeriod = period;
 
         return {
             ...c,
@@ -129,7 +185,9 @@ export const calculateAuctionContext = (
     lastPrice: number, 
     profile: ProfileMetrics, 
     vwap: number,
-    recentCandles: Candle[]
+    recentCandles: Candle[],
+    prior?: PriorSessionLevels | null,
+    structure?: MarketStructure | null
 ): AuctionContext => {
     if (recentCandles.length < 5) return { mode: 'BALANCED', confidence: 0, scenario: 'Gathering data...', bias: 'neutral' };
 
@@ -172,6 +230,13 @@ export const calculateAuctionContext = (
     if (mode === 'FAILED_AUCTION_HIGH' && delta < 0) confidence += 30;
     if (mode === 'FAILED_AUCTION_LOW' && delta > 0) confidence += 30;
     if (mode === 'BALANCED' && Math.abs(delta) < (vol * 0.1)) confidence += 20;
+
+    // Outside yesterday's value as well as today's: the move has more behind it
+    const previous = prior?.previous?.profile;
+    if (previous) {
+        if (mode === 'INITIATIVE_BUY' && lastPrice > previous.vah) confidence += 10;
+        if (mode === 'INITIATIVE_SELL' && lastPrice < previous.val) confidence += 10;
+    }
     
     confidence = Math.min(100, Math.max(0, confidence));
 
@@ -210,6 +275,48 @@ export const calculateAuctionContext = (
             bias = 'neutral';
     }
 
+    // 4. Prior-session references: nearest unfinished business in the direction of the bias
+    if (prior) {
+        const targets = [
+            ...prior.nakedPocs.map(l => ({ price: l.price, label: `naked POC (${l.date.slice(5)})` })),
+            ...prior.singlePrints.map(l => ({ price: l.price, label: `single prints (${l.date.slice(5)})` })),
+            ...prior.poorHighs.map(l => ({ price: l.price, label: 'poor high' })),
+            ...prior.poorLows.map(l => ({ price: l.price, label: 'poor low' })),
+        ].filter(t => bias === 'bullish' ? t.price > lastPrice : bias === 'bearish' ? t.price < lastPrice : false);
+
+        if (targets.length > 0) {
+            const nearest = targets.reduce((a, b) => Math.abs(b.price - lastPrice) < Math.abs(a.price - lastPrice) ? b : a);
+            scenario += ` Next: ${nearest.label} at ${nearest.price.toFixed(2)}.`;
+        } else if (previous && mode === 'BALANCED') {
+            scenario += lastPrice <= previous.vah && lastPrice >= previous.val
+                ? " Inside yesterday's value."
+                : " Outside yesterday's value.";
+        }
+    }
+
+    // 5. Market structure within the recent window: breaks and sweeps confirm or contradict the read
+    if (structure) {
+        const windowStart = recentCandles[0].timestamp;
+        const lastBreak = structure.breaks[structure.breaks.length - 1];
+        if (lastBreak && lastBreak.breakTime >= windowStart) {
+            const breakBias = lastBreak.direction;
+            if (bias === breakBias) confidence += 10;
+            else if (lastBreak.type === 'CHOCH' && bias !== 'neutral') {
+                confidence -= 15;
+                scenario += ` ${breakBias === 'bullish' ? 'Bullish' : 'Bearish'} CHoCH: structure turning.`;
+            }
+        }
+
+        const sweep = structure.pools.find(p => p.sweptAt !== null && p.sweptAt >= windowStart && p.reclaimed);
+        if (sweep) {
+            const fadesHigh = sweep.type === 'equalHighs' && mode === 'FAILED_AUCTION_HIGH';
+            const fadesLow = sweep.type === 'equalLows' && mode === 'FAILED_AUCTION_LOW';
+            if (fadesHigh || fadesLow) confidence += 15;
+            scenario += ` ${sweep.type === 'equalHighs' ? 'Equal highs' : 'Equal lows'} swept.`;
+        }
+        confidence = Math.min(100, Math.max(0, confidence));
+    }
+
     return { mode, confidence, scenario, bias };
 };
 
@@ -268,6 +375,23 @@ export const calculateSessionLevels = (candles: Candle[]): SessionLevels => {
     };
 };
 
+/**
+ * Spreads a candle's volume evenly over every tick between its low and high.
+ * `volumeMap` is keyed by tick index (price / tickSize).
+ */
+export const spreadCandleVolume = (candle: Candle, tickSize: number, volumeMap: Map<number, number>) => {
+  const lowTick = Math.floor(candle.low / tickSize);
+  const highTick = Math.floor(candle.high / tickSize);
+  
+  const numTicks = highTick - lowTick + 1;
+  const volumePerTick = candle.volume / numTicks;
+
+  for (let t = lowTick; t <= highTick; t++) {
+    const currentVol = volumeMap.get(t) || 0;
+    volumeMap.set(t, currentVol + volumePerTick);
+  }
+};
+
 export const calculateProfile = (
   candles: Candle[],
   tickSize: number
@@ -292,17 +416,7 @@ export const calculateProfile = (
   candles.forEach((candle) => {
     sessionHigh = Math.max(sessionHigh, candle.high);
     sessionLow = Math.min(sessionLow, candle.low);
-
-    const lowTick = Math.floor(candle.low / tickSize);
-    const highTick = Math.floor(candle.high / tickSize);
-    
-    const numTicks = highTick - lowTick + 1;
-    const volumePerTick = candle.volume / numTicks;
-
-    for (let t = lowTick; t <= highTick; t++) {
-      const currentVol = volumeMap.get(t) || 0;
-      volumeMap.set(t, currentVol + volumePerTick);
-    }
+    spreadCandleVolume(candle, tickSize, volumeMap);
     totalVolume += candle.volume;
   });
 
@@ -313,6 +427,19 @@ export const calculateProfile = (
     }))
     .sort((a, b) => a.price - b.price);
 
+  return { ...buildProfileMetrics(levels, totalVolume, sessionHigh, sessionLow), source: 'candles' };
+};
+
+/**
+ * POC and 70% value area for a set of price levels (sorted ascending by price).
+ * Shared by every profile builder so candle- and trade-based profiles agree on the rules.
+ */
+export const buildProfileMetrics = (
+  levels: ProfileLevel[],
+  totalVolume: number,
+  sessionHigh: number,
+  sessionLow: number
+): ProfileMetrics => {
   let poc = 0;
   let maxVol = -1;
   levels.forEach((l) => {
@@ -455,74 +582,3 @@ const calculateRSI = (candles: Candle[], period: number = 14): number => {
   const rs = avgGain / avgLoss;
   return 100 - (100 / (1 + rs));
 };
-
-export const findOrderBlocks = (candles: Candle[]): OrderBlock[] => {
-  const blocks: OrderBlock[] = [];
-  if (candles.length < 20) return blocks;
-  const lookback = 5;
-
-  for (let i = lookback; i < candles.length - 5; i++) {
-    const current = candles[i];
-    const prev = candles[i - 1];
-    const next = candles[i + 1];
-    
-    const isRed = current.close < current.open;
-    if (isRed) {
-       const moveUp = (next.close - current.high) / current.high;
-       const isExplosive = moveUp > 0.005; 
-       const breaksStructure = next.close > Math.max(...candles.slice(i-lookback, i).map(c => c.high));
-
-       if (isExplosive || breaksStructure) {
-          blocks.push({
-            id: `bull-${current.timestamp}`,
-            type: 'bullish',
-            top: current.high,
-            bottom: current.low,
-            start: current.timestamp,
-            mitigated: false,
-            strength: isExplosive ? 80 : 50,
-            status: 'FRESH'
-          });
-       }
-    }
-
-    const isGreen = current.close > current.open;
-    if (isGreen) {
-       const moveDown = (current.low - next.close) / current.low;
-       const isExplosive = moveDown > 0.005;
-       const breaksStructure = next.close < Math.min(...candles.slice(i-lookback, i).map(c => c.low));
-
-       if (isExplosive || breaksStructure) {
-          blocks.push({
-            id: `bear-${current.timestamp}`,
-            type: 'bearish',
-            top: current.high,
-            bottom: current.low,
-            start: current.timestamp,
-            mitigated: false,
-            strength: isExplosive ? 80 : 50,
-            status: 'FRESH'
-          });
-       }
-    }
-  }
-
-  // Refine Status logic
-  return blocks.filter(ob => {
-      const idx = candles.findIndex(c => c.timestamp === ob.start);
-      if (idx === -1) return false;
-      let broken = false;
-      
-      for(let j = idx + 1; j < candles.length; j++) {
-         const c = candles[j];
-         if (ob.type === 'bullish') {
-            if (c.low <= ob.top && c.close >= ob.bottom) ob.status = 'TESTED';
-            if (c.close < ob.bottom) { broken = true; break; }
-         } else {
-            if (c.high >= ob.bottom && c.close <= ob.top) ob.status = 'TESTED';
-            if (c.close > ob.top) { broken = true; break; }
-         }
-      }
-      return !broken; 
-  }).slice(-10);
-};
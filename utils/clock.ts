@@ -0,0 +1,30 @@
+/**
+ * Time source for the engines. Live code uses the system clock; replay and tests
+ * drive a ManualClock so the same inputs always produce the same event timeline.
+ */
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Clock that only moves when told to.
+ */
+export class ManualClock implements Clock {
+  constructor(private time: number = 0) {}
+
+  public now(): number {
+    return this.time;
+  }
+
+  public set(time: number) {
+    this.time = time;
+  }
+
+  public advance(ms: number) {
+    this.time += ms;
+  }
+}
@@ -0,0 +1,102 @@
+import { Candle } from '../types';
+import { BaselineService } from '../services/baselineService';
+import { calculateZScore } from './screenerUtils';
+
+const MINUTE_MS = 60 * 1000;
+
+interface SymbolDeltaState {
+  current: Candle | null; // Forming 1m candle
+  prevDelta: number; // Delta of the last closed minute
+  lastClosed: number; // Timestamp of the last closed minute
+}
+
+export interface DeltaReading {
+  delta1m: number; // Quote-volume taker delta over the trailing minute
+  deltaZScore: number;
+}
+
+/**
+ * Taker delta of one candle in quote units: (buy - sell) * close.
+ */
+export const candleDelta = (c: Candle): number =>
+  (2 * c.takerBuyVolume - c.volume) * c.close;
+
+/**
+ * Per-symbol 1m taker delta from a kline_1m feed.
+ * Closed minutes feed the 'delta' baseline; the live reading blends the forming
+ * minute with the tail of the previous one so it covers a full trailing 60s.
+ */
+export class DeltaTracker {
+  private states: Map<string, SymbolDeltaState> = new Map();
+
+  constructor(private baselines: BaselineService) {}
+
+  /**
+   * Seeds the baseline from REST 1m history (oldest first).
+   */
+  public seed(symbol: string, candles: Candle[]) {
+    const now = Date.now();
+    candles.forEach(c => {
+      // REST marks every kline closed, including the one still forming
+      this.update(symbol, { ...c, isClosed: c.timestamp + MINUTE_MS <= now });
+    });
+  }
+
+  public update(symbol: string, candle: Candle) {
+    const state = this.getState(symbol);
+
+    // A newer minute started without us seeing the close of the previous one
+    if (state.current && candle.timestamp > state.current.timestamp) {
+      this.close(symbol, state, state.current);
+    }
+
+    if (candle.isClosed) {
+      this.close(symbol, state, candle);
+      state.current = null;
+    } else if (!state.current || candle.timestamp >= state.current.timestamp) {
+      state.current = candle;
+    }
+  }
+
+  public get(symbol: string, now: number = Date.now()): DeltaReading {
+    const state = this.states.get(symbol);
+    if (!state) return { delta1m: 0, deltaZScore: 0 };
+
+    let delta1m = state.prevDelta;
+    if (state.current) {
+      const elapsed = Math.min(Math.max((now - state.current.timestamp) / MINUTE_MS, 0), 1);
+      delta1m = candleDelta(state.current) + state.prevDelta * (1 - elapsed);
+    }
+
+    const stats = this.baselines.stats(symbol, 'delta');
+    return {
+      delta1m,
+      deltaZScore: stats ? calculateZScore(delta1m, stats.center, stats.scale) : 0,
+    };
+  }
+
+  public remove(symbol: string) {
+    this.states.delete(symbol);
+  }
+
+  public clear() {
+    this.states.clear();
+  }
+
+  private getState(symbol: string): SymbolDeltaState {
+    let state = this.states.get(symbol);
+    if (!state) {
+      state = { current: null, prevDelta: 0, lastClosed: 0 };
+      this.states.set(symbol, state);
+    }
+    return state;
+  }
+
+  private close(symbol: string, state: SymbolDeltaState, candle: Candle) {
+    if (candle.timestamp <= state.lastClosed) return;
+    const delta = candleDelta(candle);
+    this.baselines.push(symbol, 'delta', delta, candle.timestamp);
+    state.prevDelta = delta;
+    state.lastClosed = candle.timestamp;
+  }
+}
@@ -1,5 +1,5 @@
 
-import { OrderBookLevel, Trade, EnrichedLevel } from '../types';
+import { OrderBookLevel, Trade, EnrichedLevel, OrderBookView } from '../types';
 
 // Constants for Detection
 const ICEBERG_RELOAD_THRESHOLD = 0.1; // If volume reloads within 10% of previous, suspect iceberg
@@ -9,12 +9,15 @@ const LARGE_ORDER_THRESHOLD = 10000; // USD Value
 
 /**
  * Merges raw depth data with trade data and previous state to detect patterns.
+ * When the full local book is passed, levels that left the analysed window are told apart
+ * from levels that actually left the book: only the latter come back as qty 0 pulls/fills.
  */
 export const analyzeDOM = (
   newLevels: OrderBookLevel[], 
   prevLevels: Map<number, EnrichedLevel>,
   recentTrades: Trade[],
-  side: 'bid' | 'ask'
+  side: 'bid' | 'ask',
+  book?: OrderBookView
 ): EnrichedLevel[] => {
   
   // 1. Aggregate Trades by Price
@@ -96,5 +99,36 @@ export const analyzeDOM = (
     };
   });
 
+  // --- 6. Vanished Levels (Removed vs Slid Out of Window) ---
+  if (newLevels.length > 0) {
+    const windowEdge = newLevels[newLevels.length - 1].price;
+    const currentPrices = new Set(newLevels.map(l => l.price));
+
+    prevLevels.forEach((prev, price) => {
+      if (prev.qty === 0 || currentPrices.has(price)) return;
+      // Beyond the window edge: the level just scrolled out of view
+      const insideWindow = side === 'bid' ? price >= windowEdge : price <= windowEdge;
+      if (!insideWindow) return;
+      // Still resting in the full book (e.g. window re-sliced) -> not a removal
+      if (book && book.getQty(side, price) > 0) return;
+
+      const executedVol = tradeMap.get(price) || 0;
+      const valueRemoved = prev.qty * price;
+
+      result.push({
+        ...prev,
+        qty: 0,
+        total: 0,
+        depthRatio: 0,
+        deltaQty: executedVol - prev.qty,
+        tradeVol: executedVol,
+        absorption: 0,
+        isIceberg: false,
+        isSpoof: executedVol === 0 && valueRemoved > SPOOF_PULL_THRESHOLD,
+        age: prev.age + 1
+      });
+    });
+  }
+
   return result;
 };
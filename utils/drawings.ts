@@ -0,0 +1,51 @@
+import { DrawingLine, DrawingTool } from '../types';
+
+export const FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+export const DRAWING_COLORS: Record<DrawingTool, string> = {
+  trendline: '#60a5fa',
+  horizontal: '#f59e0b',
+  rectangle: '#a78bfa',
+  fibonacci: '#22d3ee',
+  text: '#e5e7eb',
+};
+
+// Tools placed with a single click rather than a drag
+export const isSinglePointTool = (tool: DrawingTool): boolean => tool === 'horizontal' || tool === 'text';
+
+/**
+ * Retracement prices from the end of the move (x2/y2) back to its start (x1/y1).
+ */
+export const getFibLevels = (drawing: DrawingLine): { level: number; price: number }[] =>
+  FIB_LEVELS.map(level => ({ level, price: drawing.y2 - (drawing.y2 - drawing.y1) * level }));
+
+/**
+ * The same drawing shifted by a time / price offset (used when dragging).
+ */
+export const moveDrawing = (drawing: DrawingLine, dt: number, dp: number): DrawingLine => ({
+  ...drawing,
+  x1: drawing.x1 + dt,
+  x2: drawing.x2 + dt,
+  y1: drawing.y1 + dp,
+  y2: drawing.y2 + dp,
+});
+
+// --- Persistence (drawings per symbol) ---
+
+export const loadDrawings = (storageKey: string): Record<string, DrawingLine[]> => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn('Failed to load drawings', e);
+    return {};
+  }
+};
+
+export const saveDrawings = (storageKey: string, drawings: Record<string, DrawingLine[]>) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(drawings));
+  } catch (e) {
+    console.warn('Failed to persist drawings', e);
+  }
+};
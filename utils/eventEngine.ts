@@ -1,5 +1,9 @@
 
 import { EnrichedLevel, PersistentEvent, PersistentEventType, PersistenceWindow, EventState } from '../types';
+import { Clock, systemClock } from './clock';
+
+// Expired FAIL cooldowns are swept on a fixed clock interval, not per call
+const MAINTENANCE_INTERVAL_MS = 10000;
 
 export class EventEngine {
   private events: Map<string, PersistentEvent>;
@@ -7,8 +11,9 @@ export class EventEngine {
   
   // Anti-Thrash: Prevent generating multiple FAILs in the same range quickly
   private failCooldowns: Map<number, number> = new Map(); 
+  private nextMaintenance = 0;
 
-  constructor() {
+  constructor(private clock: Clock = systemClock) {
     this.events = new Map();
     this.windowMinutes = 30; // Default
   }
@@ -26,7 +31,7 @@ export class EventEngine {
     asks: EnrichedLevel[], 
     lastPrice: number
   ): PersistentEvent[] {
-    const now = Date.now();
+    const now = this.clock.now();
     const windowMs = this.windowMinutes * 60 * 1000;
 
     // 1. Process Active Levels (Reinforce or Create)
@@ -135,10 +140,11 @@ export class EventEngine {
     }
 
     // Cleanup Cooldowns
-    if (Math.random() > 0.95) {
+    if (now >= this.nextMaintenance) {
         for (const [k, t] of this.failCooldowns) {
             if (now > t) this.failCooldowns.delete(k);
         }
+        this.nextMaintenance = now + MAINTENANCE_INTERVAL_MS;
     }
 
     // Return only renderable events (Hide BROKEN)
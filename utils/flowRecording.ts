@@ -0,0 +1,111 @@
+import { OrderBookLevel, Trade } from '../types';
+import { PriceQty } from './orderBook';
+
+export const RECORDING_VERSION = 1;
+
+// Top-of-book state as the analysis pipeline saw it at `time`
+export interface DepthFrame {
+  time: number;
+  bids: PriceQty[]; // Best first
+  asks: PriceQty[]; // Best first
+}
+
+export interface FlowRecording {
+  version: number;
+  symbol: string;
+  startTime: number;
+  endTime: number;
+  trades: Trade[];     // Oldest first
+  depth: DepthFrame[]; // Oldest first
+}
+
+const DEFAULT_MAX_DURATION_MS = 15 * 60 * 1000;
+const TRIM_EVERY_MS = 5000;
+// The live book updates every 100ms; replay doesn't need every one of them
+const DEPTH_FRAME_MS = 250;
+
+const toPairs = (levels: OrderBookLevel[]): PriceQty[] => levels.map(l => [l.price, l.qty]);
+
+/**
+ * Rolling in-memory tape of the live order flow (trades + depth frames),
+ * capped to the last `maxDurationMs` so it can run for a whole session.
+ */
+export class FlowRecorder {
+  private trades: Trade[] = [];
+  private depth: DepthFrame[] = [];
+  private lastTrim = 0;
+
+  constructor(public readonly symbol: string, private maxDurationMs: number = DEFAULT_MAX_DURATION_MS) {}
+
+  public recordTrade(trade: Trade) {
+    this.trades.push(trade);
+  }
+
+  public recordDepth(time: number, bids: OrderBookLevel[], asks: OrderBookLevel[]) {
+    const last = this.depth[this.depth.length - 1];
+    if (last && time - last.time < DEPTH_FRAME_MS) return;
+    this.depth.push({ time, bids: toPairs(bids), asks: toPairs(asks) });
+    if (time - this.lastTrim > TRIM_EVERY_MS) this.trim(time);
+  }
+
+  public get durationMs(): number {
+    if (this.depth.length === 0) return 0;
+    return this.depth[this.depth.length - 1].time - this.depth[0].time;
+  }
+
+  /**
+   * Copy of what has been recorded so far, or null if there is nothing to replay.
+   */
+  public snapshot(): FlowRecording | null {
+    if (this.depth.length < 2) return null;
+    const startTime = this.depth[0].time;
+    const endTime = this.depth[this.depth.length - 1].time;
+    return {
+      version: RECORDING_VERSION,
+      symbol: this.symbol,
+      startTime,
+      endTime,
+      trades: this.trades.filter(t => t.time >= startTime && t.time <= endTime),
+      depth: [...this.depth],
+    };
+  }
+
+  public clear() {
+    this.trades = [];
+    this.depth = [];
+  }
+
+  private trim(now: number) {
+    this.lastTrim = now;
+    const cutoff = now - this.maxDurationMs;
+    const depthIdx = this.depth.findIndex(f => f.time >= cutoff);
+    if (depthIdx > 0) this.depth.splice(0, depthIdx);
+    const tradeIdx = this.trades.findIndex(t => t.time >= cutoff);
+    if (tradeIdx > 0) this.trades.splice(0, tradeIdx);
+  }
+}
+
+export const serializeRecording = (recording: FlowRecording): string => JSON.stringify(recording);
+
+/**
+ * Parses an exported recording. Throws with a readable message if the file isn't one.
+ */
+export const parseRecording = (text: string): FlowRecording => {
+  const data = JSON.parse(text);
+  if (!data || data.version !== RECORDING_VERSION) throw new Error('Unsupported recording version');
+  if (typeof data.symbol !== 'string' || !Array.isArray(data.trades) || !Array.isArray(data.depth)) {
+    throw new Error('Not an order flow recording');
+  }
+  if (data.depth.length < 2) throw new Error('Recording has no depth data');
+
+  const trades: Trade[] = [...data.trades].sort((a, b) => a.time - b.time);
+  const depth: DepthFrame[] = [...data.depth].sort((a, b) => a.time - b.time);
+  return {
+    version: RECORDING_VERSION,
+    symbol: data.symbol,
+    startTime: depth[0].time,
+    endTime: depth[depth.length - 1].time,
+    trades,
+    depth,
+  };
+};
@@ -0,0 +1,134 @@
+import { FootprintBar, FootprintCell, StackedImbalance, Trade } from '../types';
+import { floorToInterval } from './time';
+
+// A cell is imbalanced when its side outweighs the diagonal opposite by this ratio
+export const IMBALANCE_RATIO = 3;
+// Consecutive same-side imbalances needed to call it stacked
+export const STACKED_MIN_CELLS = 3;
+
+const DEFAULT_MAX_BARS = 300;
+
+interface RawBar {
+  cells: Map<number, { bidVol: number; askVol: number }>; // Keyed by tick index
+  bar: FootprintBar | null; // Cached result, dropped when a trade lands in the bar
+}
+
+/**
+ * Aggregates trades into per-bar, per-tick bid x ask volume (footprint) bars.
+ * Trades can arrive in any order; only bars touched since the last getBars() are rebuilt,
+ * so feeding the live tape into it stays cheap.
+ */
+export class FootprintBuilder {
+  private bars: Map<number, RawBar> = new Map();
+
+  constructor(
+    public readonly intervalMs: number,
+    public readonly tickSize: number,
+    private maxBars: number = DEFAULT_MAX_BARS
+  ) {}
+
+  public addTrades(trades: Trade[]) {
+    trades.forEach(t => {
+      const time = floorToInterval(t.time, this.intervalMs);
+      let raw = this.bars.get(time);
+      if (!raw) {
+        raw = { cells: new Map(), bar: null };
+        this.bars.set(time, raw);
+      }
+      raw.bar = null;
+
+      const tick = Math.floor(t.price / this.tickSize);
+      const cell = raw.cells.get(tick) || { bidVol: 0, askVol: 0 };
+      if (t.isBuyerMaker) cell.bidVol += t.qty;
+      else cell.askVol += t.qty;
+      raw.cells.set(tick, cell);
+    });
+    this.trim();
+  }
+
+  /**
+   * All bars, oldest first.
+   */
+  public getBars(): FootprintBar[] {
+    return Array.from(this.bars.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([timestamp, raw]) => {
+        if (!raw.bar) raw.bar = buildBar(timestamp, raw.cells, this.tickSize);
+        return raw.bar;
+      });
+  }
+
+  public clear() {
+    this.bars.clear();
+  }
+
+  private trim() {
+    if (this.bars.size <= this.maxBars) return;
+    const times = Array.from(this.bars.keys()).sort((a, b) => a - b);
+    times.slice(0, times.length - this.maxBars).forEach(t => this.bars.delete(t));
+  }
+}
+
+const buildBar = (
+  timestamp: number,
+  raw: Map<number, { bidVol: number; askVol: number }>,
+  tickSize: number
+): FootprintBar => {
+  const ticks = Array.from(raw.keys()).sort((a, b) => a - b);
+
+  // 1. Cells & diagonal imbalances
+  const cells: FootprintCell[] = ticks.map(tick => {
+    const { bidVol, askVol } = raw.get(tick)!;
+    const bidBelow = raw.get(tick - 1)?.bidVol || 0;
+    const askAbove = raw.get(tick + 1)?.askVol || 0;
+    const buyRatio = askVol > 0 ? (bidBelow > 0 ? askVol / bidBelow : Infinity) : 0;
+    const sellRatio = bidVol > 0 ? (askAbove > 0 ? bidVol / askAbove : Infinity) : 0;
+
+    let imbalance: FootprintCell['imbalance'] = null;
+    let imbalanceRatio = 0;
+    if (buyRatio >= IMBALANCE_RATIO && buyRatio >= sellRatio) {
+      imbalance = 'buy';
+      imbalanceRatio = buyRatio;
+    } else if (sellRatio >= IMBALANCE_RATIO) {
+      imbalance = 'sell';
+      imbalanceRatio = sellRatio;
+    }
+
+    return { price: tick * tickSize, bidVol, askVol, imbalance, imbalanceRatio, stacked: false };
+  });
+
+  // 2. Stacked imbalances (runs on adjacent ticks)
+  const stackedImbalances: StackedImbalance[] = [];
+  let runStart = 0;
+  for (let i = 1; i <= cells.length; i++) {
+    const continues = i < cells.length
+      && cells[i].imbalance !== null
+      && cells[i].imbalance === cells[runStart].imbalance
+      && ticks[i] === ticks[i - 1] + 1;
+    if (continues) continue;
+
+    const side = cells[runStart].imbalance;
+    if (side && i - runStart >= STACKED_MIN_CELLS) {
+      for (let j = runStart; j < i; j++) cells[j].stacked = true;
+      stackedImbalances.push({ side, low: cells[runStart].price, high: cells[i - 1].price });
+    }
+    runStart = i;
+  }
+
+  // 3. Totals & POC
+  let volume = 0;
+  let delta = 0;
+  let poc = cells[0]?.price || 0;
+  let pocVol = -1;
+  cells.forEach(c => {
+    const cellVol = c.bidVol + c.askVol;
+    volume += cellVol;
+    delta += c.askVol - c.bidVol;
+    if (cellVol > pocVol) {
+      pocVol = cellVol;
+      poc = c.price;
+    }
+  });
+
+  return { timestamp, tickSize, cells, volume, delta, poc, stackedImbalances };
+};
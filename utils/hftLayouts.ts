@@ -0,0 +1,48 @@
+import { HFTLayout } from '../types';
+
+export const DEFAULT_HFT_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT', 'BNBUSDT'];
+
+// Every card adds two streams and a depth snapshot, so the grid is capped
+export const HFT_MAX_SYMBOLS = 12;
+
+export interface HFTGridState {
+  symbols: string[];     // Cards currently on the grid
+  layouts: HFTLayout[];  // Saved named grids
+}
+
+const DEFAULT_GRID: HFTGridState = { symbols: DEFAULT_HFT_SYMBOLS, layouts: [] };
+
+/**
+ * Appends a symbol unless it's already on the grid or the grid is full.
+ */
+export const addHftSymbol = (symbols: string[], symbol: string): string[] =>
+  symbols.includes(symbol) || symbols.length >= HFT_MAX_SYMBOLS ? symbols : [...symbols, symbol];
+
+/**
+ * Saves the grid under `name`, replacing a layout with the same name.
+ */
+export const saveHftLayout = (layouts: HFTLayout[], name: string, symbols: string[]): HFTLayout[] => {
+  const existing = layouts.find(l => l.name.toLowerCase() === name.toLowerCase());
+  if (existing) return layouts.map(l => l === existing ? { ...l, symbols } : l);
+  return [...layouts, { id: `hft-${Date.now()}`, name, symbols }];
+};
+
+// --- Persistence ---
+
+export const loadHftGrid = (storageKey: string): HFTGridState => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? { ...DEFAULT_GRID, ...JSON.parse(raw) } : DEFAULT_GRID;
+  } catch (e) {
+    console.warn('Failed to load HFT grid', e);
+    return DEFAULT_GRID;
+  }
+};
+
+export const saveHftGrid = (storageKey: string, grid: HFTGridState) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(grid));
+  } catch (e) {
+    console.warn('Failed to persist HFT grid', e);
+  }
+};
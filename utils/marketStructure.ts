@@ -0,0 +1,209 @@
+import { Candle, FairValueGap, LiquidityPool, MarketStructure, StructureBreak, SwingPoint } from '../types';
+import { calculateAtr } from './orderBlocks';
+
+// Bars on each side a pivot needs to count as a swing high / low
+export const SWING_STRENGTH = 3;
+// Gaps smaller than this fraction of ATR are ignored
+const FVG_MIN_ATR = 0.1;
+// Swings within this fraction of ATR of each other count as equal
+const EQUAL_ATR = 0.1;
+// How many previous swings of the same type to look back through for an equal one
+const EQUAL_LOOKBACK = 5;
+const MAX_OPEN_FVGS = 15;
+const MAX_FILLED_FVGS = 5;
+
+interface SwingIndex {
+  index: number;
+  type: 'high' | 'low';
+}
+
+const findSwingIndexes = (candles: Candle[], strength: number): SwingIndex[] => {
+  const swings: SwingIndex[] = [];
+  for (let i = strength; i < candles.length - strength; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - strength; j <= i + strength; j++) {
+      if (j === i) continue;
+      if (candles[j].high >= candles[i].high) isHigh = false;
+      if (candles[j].low <= candles[i].low) isLow = false;
+    }
+    if (isHigh) swings.push({ index: i, type: 'high' });
+    if (isLow) swings.push({ index: i, type: 'low' });
+  }
+  return swings;
+};
+
+/**
+ * Confirmed swing highs / lows (oldest first), labelled HH / LH / HL / LL against the
+ * previous swing of the same type.
+ */
+export const findSwings = (candles: Candle[], strength: number = SWING_STRENGTH): SwingPoint[] => {
+  let lastHigh: number | null = null;
+  let lastLow: number | null = null;
+
+  return findSwingIndexes(candles, strength).map(({ index, type }) => {
+    const c = candles[index];
+    if (type === 'high') {
+      const label = lastHigh === null ? null : c.high > lastHigh ? 'HH' : 'LH';
+      lastHigh = c.high;
+      return { timestamp: c.timestamp, price: c.high, type, label };
+    }
+    const label = lastLow === null ? null : c.low < lastLow ? 'LL' : 'HL';
+    lastLow = c.low;
+    return { timestamp: c.timestamp, price: c.low, type, label };
+  });
+};
+
+/**
+ * Break of structure / change of character: a close beyond the most recent confirmed swing.
+ * A break against the prevailing trend is a CHoCH and flips it.
+ */
+const findStructureBreaks = (candles: Candle[], swings: SwingIndex[], strength: number) => {
+  const breaks: StructureBreak[] = [];
+  let trend: MarketStructure['trend'] = 'neutral';
+  let pendingHigh: SwingIndex | null = null;
+  let pendingLow: SwingIndex | null = null;
+  let next = 0;
+
+  candles.forEach((c, j) => {
+    // A swing only exists once `strength` bars have printed after it
+    while (next < swings.length && swings[next].index + strength <= j) {
+      if (swings[next].type === 'high') pendingHigh = swings[next];
+      else pendingLow = swings[next];
+      next++;
+    }
+
+    if (pendingHigh && c.close > candles[pendingHigh.index].high) {
+      const swing = candles[pendingHigh.index];
+      breaks.push({ type: trend === 'bearish' ? 'CHOCH' : 'BOS', direction: 'bullish', price: swing.high, swingTime: swing.timestamp, breakTime: c.timestamp });
+      trend = 'bullish';
+      pendingHigh = null;
+    }
+    if (pendingLow && c.close < candles[pendingLow.index].low) {
+      const swing = candles[pendingLow.index];
+      breaks.push({ type: trend === 'bullish' ? 'CHOCH' : 'BOS', direction: 'bearish', price: swing.low, swingTime: swing.timestamp, breakTime: c.timestamp });
+      trend = 'bearish';
+      pendingLow = null;
+    }
+  });
+
+  return { breaks, trend };
+};
+
+/**
+ * Three-candle fair value gaps with how far price has since retraced into them.
+ */
+export const findFairValueGaps = (candles: Candle[], atr: number[] = calculateAtr(candles)): FairValueGap[] => {
+  const gaps: FairValueGap[] = [];
+
+  for (let i = 1; i < candles.length - 1; i++) {
+    const before = candles[i - 1];
+    const after = candles[i + 1];
+    const minSize = atr[i] * FVG_MIN_ATR;
+
+    let gap: FairValueGap | null = null;
+    if (after.low - before.high > minSize) {
+      gap = { id: `fvg-bull-${candles[i].timestamp}`, type: 'bullish', top: after.low, bottom: before.high, start: candles[i].timestamp, fill: 0, filledAt: null };
+    } else if (before.low - after.high > minSize) {
+      gap = { id: `fvg-bear-${candles[i].timestamp}`, type: 'bearish', top: before.low, bottom: after.high, start: candles[i].timestamp, fill: 0, filledAt: null };
+    }
+    if (!gap) continue;
+
+    const height = gap.top - gap.bottom;
+    for (let j = i + 2; j < candles.length; j++) {
+      const c = candles[j];
+      const depth = gap.type === 'bullish' ? (gap.top - c.low) / height : (c.high - gap.bottom) / height;
+      if (depth <= 0) continue;
+      gap.fill = Math.max(gap.fill, Math.min(1, depth));
+      if (gap.fill >= 1) {
+        gap.filledAt = c.timestamp;
+        break;
+      }
+    }
+    gaps.push(gap);
+  }
+
+  const open = gaps.filter(g => g.filledAt === null).slice(-MAX_OPEN_FVGS);
+  const filled = gaps.filter(g => g.filledAt !== null).slice(-MAX_FILLED_FVGS);
+  return [...filled, ...open].sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Equal highs / lows (swings within EQUAL_ATR x ATR, nothing traded beyond them in between)
+ * and whether the liquidity resting there has been swept since.
+ */
+const findLiquidityPools = (candles: Candle[], swings: SwingIndex[], atr: number[]): LiquidityPool[] => {
+  const pools: (LiquidityPool & { lastIndex: number })[] = [];
+
+  (['high', 'low'] as const).forEach(type => {
+    const sameType = swings.filter(s => s.type === type);
+    const priceOf = (s: SwingIndex) => type === 'high' ? candles[s.index].high : candles[s.index].low;
+
+    sameType.forEach((swing, k) => {
+      const price = priceOf(swing);
+      const tolerance = atr[swing.index] * EQUAL_ATR;
+
+      for (let m = k - 1; m >= Math.max(0, k - EQUAL_LOOKBACK); m--) {
+        const prev = sameType[m];
+        const prevPrice = priceOf(prev);
+        if (Math.abs(price - prevPrice) > tolerance) continue;
+
+        // Price must not have traded beyond the level between the two swings
+        const level = type === 'high' ? Math.max(price, prevPrice) : Math.min(price, prevPrice);
+        const between = candles.slice(prev.index + 1, swing.index);
+        const intact = type === 'high' ? between.every(c => c.high <= level) : between.every(c => c.low >= level);
+        if (!intact) continue;
+
+        const existing = pools.find(p => p.lastIndex === prev.index && p.type === (type === 'high' ? 'equalHighs' : 'equalLows'));
+        if (existing) {
+          existing.points.push(candles[swing.index].timestamp);
+          existing.price = type === 'high' ? Math.max(existing.price, price) : Math.min(existing.price, price);
+          existing.lastIndex = swing.index;
+        } else {
+          pools.push({
+            type: type === 'high' ? 'equalHighs' : 'equalLows',
+            price: level,
+            points: [candles[prev.index].timestamp, candles[swing.index].timestamp],
+            sweptAt: null,
+            reclaimed: false,
+            lastIndex: swing.index,
+          });
+        }
+        break;
+      }
+    });
+  });
+
+  // Sweeps: first trade beyond the pool after its last swing
+  return pools.map(({ lastIndex, ...pool }) => {
+    for (let j = lastIndex + 1; j < candles.length; j++) {
+      const c = candles[j];
+      const through = pool.type === 'equalHighs' ? c.high > pool.price : c.low < pool.price;
+      if (!through) continue;
+      pool.sweptAt = c.timestamp;
+      pool.reclaimed = pool.type === 'equalHighs' ? c.close < pool.price : c.close > pool.price;
+      break;
+    }
+    return pool;
+  }).sort((a, b) => a.points[0] - b.points[0]);
+};
+
+/**
+ * Swings, BOS / CHoCH, fair value gaps and liquidity pools for a set of candles.
+ */
+export const calculateMarketStructure = (candles: Candle[], strength: number = SWING_STRENGTH): MarketStructure => {
+  if (candles.length < strength * 2 + 1) {
+    return { trend: 'neutral', swings: [], breaks: [], fvgs: [], pools: [] };
+  }
+  const atr = calculateAtr(candles);
+  const swingIndexes = findSwingIndexes(candles, strength);
+  const { breaks, trend } = findStructureBreaks(candles, swingIndexes, strength);
+
+  return {
+    trend,
+    swings: findSwings(candles, strength),
+    breaks,
+    fvgs: findFairValueGaps(candles, atr),
+    pools: findLiquidityPools(candles, swingIndexes, atr),
+  };
+};
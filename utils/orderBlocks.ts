@@ -0,0 +1,134 @@
+import { Candle, OrderBlock, OrderBlockStatus } from '../types';
+
+const ATR_PERIOD = 14;
+// Displacement out of the block, in ATRs, for the move to count as explosive
+const DISPLACEMENT_ATR = 1;
+// Bars whose highs / lows the reaction has to clear to count as a structure break
+const STRUCTURE_LOOKBACK = 5;
+const MAX_ACTIVE_BLOCKS = 10;
+const MAX_BROKEN_BLOCKS = 5;
+
+const STATUS_RANK: Record<OrderBlockStatus, number> = {
+  FRESH: 0,
+  TESTED: 1,
+  PARTIALLY_MITIGATED: 2,
+  FAILING: 3,
+  BROKEN: 4,
+};
+
+/**
+ * Average true range per candle (simple average over `period`, shorter at the start).
+ */
+export const calculateAtr = (candles: Candle[], period: number = ATR_PERIOD): number[] => {
+  const ranges = candles.map((c, i) => {
+    const prevClose = i > 0 ? candles[i - 1].close : c.close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+
+  let sum = 0;
+  return ranges.map((tr, i) => {
+    sum += tr;
+    if (i >= period) sum -= ranges[i - period];
+    return sum / Math.min(i + 1, period);
+  });
+};
+
+/**
+ * Walks the candles after a block's confirmation and moves it through its lifecycle:
+ * TESTED once price trades into the zone, PARTIALLY_MITIGATED past its midpoint,
+ * FAILING when a candle closes in the far half and BROKEN on a close beyond it.
+ * Status never moves backwards; each change is stamped in `history`.
+ */
+const trackLifecycle = (ob: OrderBlock, candles: Candle[], fromIndex: number) => {
+  const height = Math.max(ob.top - ob.bottom, Number.EPSILON);
+  const mid = (ob.top + ob.bottom) / 2;
+  const advance = (status: OrderBlockStatus, time: number) => {
+    if (STATUS_RANK[status] <= STATUS_RANK[ob.status]) return;
+    ob.status = status;
+    ob.history.push({ status, time });
+  };
+
+  for (let j = fromIndex; j < candles.length; j++) {
+    const c = candles[j];
+    const bullish = ob.type === 'bullish';
+    const depth = bullish ? (ob.top - c.low) / height : (c.high - ob.bottom) / height;
+    const broken = bullish ? c.close < ob.bottom : c.close > ob.top;
+    const failing = bullish ? c.close < mid : c.close > mid;
+
+    if (depth > 0) {
+      ob.mitigated = true;
+      ob.mitigation = Math.max(ob.mitigation, Math.min(1, depth));
+    }
+
+    if (broken) {
+      advance('BROKEN', c.timestamp);
+      ob.brokenAt = c.timestamp;
+      return;
+    }
+    if (failing) advance('FAILING', c.timestamp);
+    else if (depth >= 0.5) advance('PARTIALLY_MITIGATED', c.timestamp);
+    else if (depth > 0) advance('TESTED', c.timestamp);
+  }
+};
+
+/**
+ * Order blocks on one timeframe: the last opposite candle before a displacement of at least
+ * DISPLACEMENT_ATR x ATR, or before a move that breaks recent structure. Broken blocks are
+ * kept (most recent MAX_BROKEN_BLOCKS) alongside the most recent active ones.
+ */
+export const findOrderBlocks = (candles: Candle[], timeframe: string = ''): OrderBlock[] => {
+  if (candles.length < 20) return [];
+  const atr = calculateAtr(candles);
+  const blocks: OrderBlock[] = [];
+
+  for (let i = STRUCTURE_LOOKBACK; i < candles.length - 1; i++) {
+    const current = candles[i];
+    const next = candles[i + 1];
+    const range = atr[i];
+    if (!(range > 0)) continue;
+
+    let type: OrderBlock['type'] | null = null;
+    let displacement = 0;
+    let breaksStructure = false;
+    const recent = candles.slice(i - STRUCTURE_LOOKBACK, i);
+
+    if (current.close < current.open) {
+      displacement = next.close - current.high;
+      breaksStructure = next.close > Math.max(...recent.map(c => c.high));
+      if (displacement > range * DISPLACEMENT_ATR || breaksStructure) type = 'bullish';
+    } else if (current.close > current.open) {
+      displacement = current.low - next.close;
+      breaksStructure = next.close < Math.min(...recent.map(c => c.low));
+      if (displacement > range * DISPLACEMENT_ATR || breaksStructure) type = 'bearish';
+    }
+    if (!type) continue;
+
+    const strength = Math.min(100, Math.round(40 + 20 * Math.max(0, displacement) / range + (breaksStructure ? 10 : 0)));
+    const ob: OrderBlock = {
+      id: `${timeframe}-${type === 'bullish' ? 'bull' : 'bear'}-${current.timestamp}`,
+      type,
+      top: current.high,
+      bottom: current.low,
+      start: current.timestamp,
+      timeframe,
+      mitigated: false,
+      mitigation: 0,
+      strength,
+      status: 'FRESH',
+      history: [{ status: 'FRESH', time: next.timestamp }],
+      brokenAt: null,
+    };
+    trackLifecycle(ob, candles, i + 2);
+    blocks.push(ob);
+  }
+
+  const active = blocks.filter(ob => ob.status !== 'BROKEN').slice(-MAX_ACTIVE_BLOCKS);
+  const broken = blocks.filter(ob => ob.status === 'BROKEN').slice(-MAX_BROKEN_BLOCKS);
+  return [...broken, ...active].sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Order blocks from several timeframes, to be projected onto one chart.
+ */
+export const findMultiTimeframeOrderBlocks = (series: { timeframe: string; candles: Candle[] }[]): OrderBlock[] =>
+  series.flatMap(({ timeframe, candles }) => findOrderBlocks(candles, timeframe));
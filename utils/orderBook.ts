@@ -0,0 +1,281 @@
+import { OrderBookLevel, OrderBookView } from '../types';
+
+export type PriceQty = [number, number];
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: PriceQty[];
+  asks: PriceQty[];
+}
+
+export interface DepthDiff {
+  firstUpdateId: number;      // U
+  finalUpdateId: number;      // u
+  prevFinalUpdateId?: number; // pu (futures only). Spot streams chain via U = last u + 1
+  bids: PriceQty[];
+  asks: PriceQty[];
+}
+
+export type DiffResult = 'applied' | 'stale' | 'gap';
+
+// Hard cap per side so far-away diff levels can't grow the book forever
+const MAX_LEVELS_PER_SIDE = 5000;
+
+/**
+ * Index of `price` in `prices` (sorted best first), or where it would be inserted.
+ */
+const searchPrice = (prices: number[], price: number, descending: boolean): number => {
+  let lo = 0;
+  let hi = prices.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (descending ? prices[mid] > price : prices[mid] < price) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * Full-depth local order book rebuilt from a REST snapshot + diff stream.
+ * Levels are stored in price -> qty maps, with each side's prices kept sorted (best first)
+ * by binary-search insert/remove, so reads never re-sort.
+ */
+export class LocalOrderBook implements OrderBookView {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private sortedBids: number[] = [];
+  private sortedAsks: number[] = [];
+  private synced = false;
+  private hasAppliedDiff = false;
+
+  public lastUpdateId = 0;
+
+  public reset() {
+    this.bids.clear();
+    this.asks.clear();
+    this.sortedBids = [];
+    this.sortedAsks = [];
+    this.synced = false;
+    this.hasAppliedDiff = false;
+    this.lastUpdateId = 0;
+  }
+
+  public isSynced(): boolean {
+    return this.synced;
+  }
+
+  public applySnapshot(snapshot: DepthSnapshot) {
+    this.reset();
+    snapshot.bids.forEach(([p, q]) => { if (q > 0) this.bids.set(p, q); });
+    snapshot.asks.forEach(([p, q]) => { if (q > 0) this.asks.set(p, q); });
+    this.sortedBids = Array.from(this.bids.keys()).sort((a, b) => b - a);
+    this.sortedAsks = Array.from(this.asks.keys()).sort((a, b) => a - b);
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.synced = true;
+  }
+
+  /**
+   * Applies one diff event following the exchange sequencing rules:
+   * 1. Drop anything older than the book (u < lastUpdateId).
+   * 2. The first diff after a snapshot must straddle it (U <= lastUpdateId <= u).
+   * 3. Every later diff must chain onto the previous one (pu === last u, or U === last u + 1).
+   * Anything else is a gap and the caller must resync from a fresh snapshot.
+   */
+  public applyDiff(diff: DepthDiff): DiffResult {
+    if (!this.synced) return 'gap';
+    if (diff.finalUpdateId < this.lastUpdateId) return 'stale';
+
+    if (!this.hasAppliedDiff) {
+      if (diff.firstUpdateId > this.lastUpdateId + 1) return 'gap';
+    } else {
+      const chainsOn = diff.prevFinalUpdateId !== undefined
+        ? diff.prevFinalUpdateId === this.lastUpdateId
+        : diff.firstUpdateId === this.lastUpdateId + 1;
+      if (!chainsOn) return 'gap';
+    }
+
+    diff.bids.forEach(([p, q]) => this.setLevel(this.bids, this.sortedBids, true, p, q));
+    diff.asks.forEach(([p, q]) => this.setLevel(this.asks, this.sortedAsks, false, p, q));
+    this.prune();
+
+    this.lastUpdateId = diff.finalUpdateId;
+    this.hasAppliedDiff = true;
+    return 'applied';
+  }
+
+  public getBids(limit: number = Infinity): OrderBookLevel[] {
+    return this.toLevels(this.bidPrices().slice(0, limit), this.bids, this.windowMax(limit));
+  }
+
+  public getAsks(limit: number = Infinity): OrderBookLevel[] {
+    return this.toLevels(this.askPrices().slice(0, limit), this.asks, this.windowMax(limit));
+  }
+
+  /**
+   * All levels of one side with low <= price <= high, best first.
+   */
+  public getRange(side: 'bid' | 'ask', low: number, high: number): OrderBookLevel[] {
+    const prices = (side === 'bid' ? this.bidPrices() : this.askPrices()).filter(p => p >= low && p <= high);
+    const map = side === 'bid' ? this.bids : this.asks;
+    const max = Math.max(...prices.map(p => map.get(p) || 0), 0.0001);
+    return this.toLevels(prices, map, max);
+  }
+
+  public getQty(side: 'bid' | 'ask', price: number): number {
+    return (side === 'bid' ? this.bids : this.asks).get(price) || 0;
+  }
+
+  public bestBid(): number {
+    return this.bidPrices()[0] || 0;
+  }
+
+  public bestAsk(): number {
+    return this.askPrices()[0] || 0;
+  }
+
+  public levelCount(): { bids: number; asks: number } {
+    return { bids: this.bids.size, asks: this.asks.size };
+  }
+
+  // Only a level appearing or disappearing touches the sorted prices
+  private setLevel(map: Map<number, number>, prices: number[], descending: boolean, price: number, qty: number) {
+    const exists = map.has(price);
+    if (qty === 0) {
+      if (!exists) return;
+      map.delete(price);
+      prices.splice(searchPrice(prices, price, descending), 1);
+    } else {
+      if (!exists) prices.splice(searchPrice(prices, price, descending), 0, price);
+      map.set(price, qty);
+    }
+  }
+
+  private bidPrices(): number[] {
+    return this.sortedBids;
+  }
+
+  private askPrices(): number[] {
+    return this.sortedAsks;
+  }
+
+  // Shared max across both sides so bid and ask depth bars are comparable
+  private windowMax(limit: number): number {
+    const bidMax = Math.max(...this.bidPrices().slice(0, limit).map(p => this.bids.get(p) || 0), 0);
+    const askMax = Math.max(...this.askPrices().slice(0, limit).map(p => this.asks.get(p) || 0), 0);
+    return Math.max(bidMax, askMax, 0.0001);
+  }
+
+  private toLevels(prices: number[], map: Map<number, number>, max: number): OrderBookLevel[] {
+    let cumulative = 0;
+    return prices.map(price => {
+      const qty = map.get(price) || 0;
+      cumulative += qty;
+      return { price, qty, total: cumulative, depthRatio: qty / max };
+    });
+  }
+
+  // Drop the levels furthest from the touch once a side exceeds the cap
+  private prune() {
+    if (this.bids.size > MAX_LEVELS_PER_SIDE) {
+      this.sortedBids.splice(MAX_LEVELS_PER_SIDE).forEach(p => this.bids.delete(p));
+    }
+    if (this.asks.size > MAX_LEVELS_PER_SIDE) {
+      this.sortedAsks.splice(MAX_LEVELS_PER_SIDE).forEach(p => this.asks.delete(p));
+    }
+  }
+}
+
+// Cap the pre-snapshot buffer (~10s of 100ms diffs)
+const MAX_BUFFERED_DIFFS = 100;
+const RESYNC_RETRY_MS = 1000;
+
+/**
+ * Drives a LocalOrderBook: buffers diffs while a snapshot is in flight,
+ * replays them on top of it, and starts over whenever a sequence gap shows up.
+ */
+export class OrderBookSync {
+  private buffer: DepthDiff[] = [];
+  private loading = false;
+  private disposed = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    public readonly book: LocalOrderBook,
+    private fetchSnapshot: () => Promise<DepthSnapshot>,
+    private onChange: (book: LocalOrderBook) => void
+  ) {}
+
+  public handleDiff(diff: DepthDiff) {
+    if (this.disposed) return;
+
+    if (!this.book.isSynced() || this.loading) {
+      this.buffer.push(diff);
+      if (this.buffer.length > MAX_BUFFERED_DIFFS) this.buffer.shift();
+      this.resync();
+      return;
+    }
+
+    const result = this.book.applyDiff(diff);
+    if (result === 'gap') {
+      console.warn(`OrderBook gap at ${diff.firstUpdateId} (book @ ${this.book.lastUpdateId}), resyncing`);
+      this.book.reset();
+      this.buffer = [diff];
+      this.resync();
+    } else if (result === 'applied') {
+      this.onChange(this.book);
+    }
+  }
+
+  /**
+   * Forces a fresh snapshot, e.g. after the transport reconnected.
+   */
+  public invalidate() {
+    this.book.reset();
+    this.buffer = [];
+  }
+
+  public dispose() {
+    this.disposed = true;
+    this.buffer = [];
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+  }
+
+  private async resync() {
+    if (this.loading || this.retryTimer || this.disposed) return;
+    this.loading = true;
+
+    try {
+      const snapshot = await this.fetchSnapshot();
+      if (this.disposed) return;
+
+      this.book.applySnapshot(snapshot);
+      const pending = this.buffer;
+      this.buffer = [];
+
+      for (let i = 0; i < pending.length; i++) {
+        if (this.book.applyDiff(pending[i]) === 'gap') {
+          // Snapshot older than our buffer: keep the rest and try again with a newer one
+          this.book.reset();
+          this.buffer = pending.slice(i);
+          this.scheduleRetry();
+          return;
+        }
+      }
+      this.onChange(this.book);
+    } catch (e) {
+      console.error('OrderBook snapshot error', e);
+      this.book.reset();
+      this.scheduleRetry();
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.disposed) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.resync();
+    }, RESYNC_RETRY_MS);
+  }
+}
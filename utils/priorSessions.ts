@@ -0,0 +1,64 @@
+import { Candle, PriorLevel, PriorSessionLevels, SessionRecord } from '../types';
+import { calculateProfile } from './analytics';
+import { calculateTpoProfile } from './tpo';
+
+/**
+ * Summarises a completed session (candles already session-filtered): its volume profile,
+ * poor (flat, un-auctioned) extremes and single-print gaps from the TPO profile.
+ */
+export const buildSessionRecord = (date: string, candles: Candle[], tickSize: number): SessionRecord => {
+  const profile = calculateProfile(candles, tickSize);
+  const tpo = calculateTpoProfile(candles, tickSize);
+
+  if (!tpo || tpo.periods.length < 2) {
+    return { date, tickSize, profile, poorHigh: false, poorLow: false, singlePrints: [] };
+  }
+
+  // Poor extremes: the high / low was printed by more than one bracket
+  const poorHigh = tpo.levels[tpo.levels.length - 1].letters.length >= 2;
+  const poorLow = tpo.levels[0].letters.length >= 2;
+  return { date, tickSize, profile, poorHigh, poorLow, singlePrints: tpo.singlePrints };
+};
+
+/**
+ * Reference levels for the current session from completed sessions (oldest first).
+ * A level stays "open" until a later session, or the current one, trades through it.
+ */
+export const derivePriorLevels = (sessions: SessionRecord[], currentCandles: Candle[]): PriorSessionLevels => {
+  // Ranges traded after each session: every later session plus today so far
+  const ranges = sessions.map(s => ({ low: s.profile.sessionLow, high: s.profile.sessionHigh }));
+  if (currentCandles.length > 0) {
+    ranges.push({
+      low: Math.min(...currentCandles.map(c => c.low)),
+      high: Math.max(...currentCandles.map(c => c.high)),
+    });
+  }
+  const touchedAfter = (index: number, price: number) =>
+    ranges.slice(index + 1).some(r => r.low <= price && r.high >= price);
+  const filledAfter = (index: number, low: number, high: number) =>
+    ranges.slice(index + 1).some(r => r.low <= low && r.high >= high);
+
+  const nakedPocs: PriorLevel[] = [];
+  const poorHighs: PriorLevel[] = [];
+  const poorLows: PriorLevel[] = [];
+  const singlePrints: PriorSessionLevels['singlePrints'] = [];
+
+  sessions.forEach((s, i) => {
+    const { poc, sessionHigh, sessionLow } = s.profile;
+    if (!touchedAfter(i, poc)) nakedPocs.push({ date: s.date, price: poc });
+    // A poor extreme is repaired once price trades beyond it
+    if (s.poorHigh && !ranges.slice(i + 1).some(r => r.high > sessionHigh)) poorHighs.push({ date: s.date, price: sessionHigh });
+    if (s.poorLow && !ranges.slice(i + 1).some(r => r.low < sessionLow)) poorLows.push({ date: s.date, price: sessionLow });
+    s.singlePrints.forEach(gap => {
+      if (!filledAfter(i, gap.low, gap.high)) singlePrints.push({ date: s.date, price: (gap.low + gap.high) / 2, ...gap });
+    });
+  });
+
+  return {
+    previous: sessions[sessions.length - 1] || null,
+    nakedPocs,
+    poorHighs,
+    poorLows,
+    singlePrints,
+  };
+};
@@ -0,0 +1,135 @@
+import { Candle, CompositeProfile, DevelopingProfilePoint, ProfileLevel, VolumeNode } from '../types';
+import { calculateProfile, spreadCandleVolume } from './analytics';
+
+// Node detection: smoothed volume relative to the profile mean
+const HVN_FACTOR = 1.3;
+const LVN_FACTOR = 0.6;
+// Nodes closer than this many levels are merged (the stronger one wins)
+const MIN_NODE_SEPARATION = 5;
+
+/**
+ * POC / VAH / VAL as they developed: one point per candle, each computed from the
+ * session up to and including that candle. Uses the same volume spreading and
+ * value-area rules as calculateProfile, so the last point equals the final profile.
+ * Runs incrementally: level volumes only grow, so the POC is updated from the ticks each
+ * candle touched, and the value area is walked outward from the POC without re-sorting.
+ */
+export const calculateDevelopingProfile = (candles: Candle[], tickSize: number): DevelopingProfilePoint[] => {
+  const volumeMap = new Map<number, number>();
+  let minTick = Infinity;
+  let maxTick = -Infinity;
+  let pocTick = 0;
+  let maxVol = -1;
+  let totalVolume = 0;
+
+  // Nearest tick with volume above / below `from`, or null at the edge of the profile
+  const nextAbove = (from: number): number | null => {
+    for (let t = from + 1; t <= maxTick; t++) if (volumeMap.has(t)) return t;
+    return null;
+  };
+  const nextBelow = (from: number): number | null => {
+    for (let t = from - 1; t >= minTick; t--) if (volumeMap.has(t)) return t;
+    return null;
+  };
+
+  return candles.map(candle => {
+    // 1. Add the candle and move the POC if one of its ticks overtook it (ties go to the lower price)
+    spreadCandleVolume(candle, tickSize, volumeMap);
+    totalVolume += candle.volume;
+    const lowTick = Math.floor(candle.low / tickSize);
+    const highTick = Math.floor(candle.high / tickSize);
+    minTick = Math.min(minTick, lowTick);
+    maxTick = Math.max(maxTick, highTick);
+    for (let t = lowTick; t <= highTick; t++) {
+      const volume = volumeMap.get(t)!;
+      if (volume > maxVol || (volume === maxVol && t < pocTick)) {
+        maxVol = volume;
+        pocTick = t;
+      }
+    }
+
+    // 2. Value area: expand from the POC towards the heavier neighbour until 70% is covered
+    const targetVolume = totalVolume * 0.7;
+    let currentVolume = maxVol;
+    let upperTick = pocTick;
+    let lowerTick = pocTick;
+    let above = nextAbove(upperTick);
+    let below = nextBelow(lowerTick);
+
+    while (currentVolume < targetVolume && (above !== null || below !== null)) {
+      const nextUpper = above !== null ? volumeMap.get(above)! : 0;
+      const nextLower = below !== null ? volumeMap.get(below)! : 0;
+
+      if (below === null || (above !== null && nextUpper > nextLower)) {
+        upperTick = above!;
+        currentVolume += nextUpper;
+        above = nextAbove(upperTick);
+      } else {
+        lowerTick = below;
+        currentVolume += nextLower;
+        below = nextBelow(lowerTick);
+      }
+    }
+
+    const poc = pocTick * tickSize;
+    return { timestamp: candle.timestamp, poc, vah: upperTick * tickSize || poc, val: lowerTick * tickSize || poc };
+  });
+};
+
+/**
+ * High and low volume nodes: local peaks / troughs of the volume distribution after
+ * light smoothing, kept only when well above (HVN) or below (LVN) the mean level volume.
+ */
+export const findVolumeNodes = (levels: ProfileLevel[]): VolumeNode[] => {
+  if (levels.length < 5) return [];
+
+  // 1. Smooth with a window proportional to the number of levels
+  const radius = Math.max(1, Math.round(levels.length / 50));
+  const smoothed = levels.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(levels.length - 1, i + radius); j++) {
+      sum += levels[j].volume;
+      count++;
+    }
+    return sum / count;
+  });
+  const mean = smoothed.reduce((a, b) => a + b, 0) / smoothed.length;
+
+  // 2. Local extremes
+  const candidates: (VolumeNode & { index: number; strength: number })[] = [];
+  for (let i = 1; i < smoothed.length - 1; i++) {
+    const v = smoothed[i];
+    if (v >= smoothed[i - 1] && v > smoothed[i + 1] && v > mean * HVN_FACTOR) {
+      candidates.push({ price: levels[i].price, volume: levels[i].volume, type: 'HVN', index: i, strength: v / mean });
+    } else if (v <= smoothed[i - 1] && v < smoothed[i + 1] && v < mean * LVN_FACTOR) {
+      candidates.push({ price: levels[i].price, volume: levels[i].volume, type: 'LVN', index: i, strength: mean / Math.max(v, 1e-9) });
+    }
+  }
+
+  // 3. Keep the strongest node of each type within MIN_NODE_SEPARATION levels
+  const kept: typeof candidates = [];
+  [...candidates].sort((a, b) => b.strength - a.strength).forEach(c => {
+    const crowded = kept.some(k => k.type === c.type && Math.abs(k.index - c.index) < MIN_NODE_SEPARATION);
+    if (!crowded) kept.push(c);
+  });
+
+  return kept
+    .sort((a, b) => a.price - b.price)
+    .map(({ price, volume, type }) => ({ price, volume, type }));
+};
+
+/**
+ * Volume profile across several sessions (candles already session-filtered), with HVN/LVN marked.
+ */
+export const calculateCompositeProfile = (candles: Candle[], tickSize: number, days: number): CompositeProfile | null => {
+  if (candles.length === 0) return null;
+  const profile = calculateProfile(candles, tickSize);
+  return {
+    ...profile,
+    startTime: candles[0].timestamp,
+    endTime: candles[candles.length - 1].timestamp,
+    days,
+    nodes: findVolumeNodes(profile.levels),
+  };
+};
@@ -0,0 +1,166 @@
+import { Trade } from '../types';
+import { DepthFrame, FlowRecording } from './flowRecording';
+import { ManualClock } from './clock';
+
+export type ReplayStatus = 'paused' | 'playing' | 'ended';
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50];
+
+// Virtual time per pipeline step; matches the live 100ms analytics loop
+export const REPLAY_STEP_MS = 100;
+// Wall-clock tick that drives playback (and rendering)
+const TICK_MS = 100;
+// Seeking re-runs this much history first so persistent events can rebuild
+const SEEK_WARMUP_MS = 5 * 60 * 1000;
+
+export interface ReplayHandlers {
+  onReset: () => void;                 // Pipeline state must be cleared (seek)
+  onTrade: (trade: Trade) => void;
+  onDepth: (frame: DepthFrame) => void;
+  onStep: (now: number) => void;       // One analysis step at virtual time `now`
+  onRender: (now: number) => void;     // Once per wall-clock tick, after all steps
+  onStatus?: (status: ReplayStatus) => void;
+}
+
+/**
+ * Plays a FlowRecording through the same trade/depth → analysis pipeline as the live feed.
+ * Time is virtual: each wall-clock tick advances `clock` by TICK_MS * speed in fixed
+ * REPLAY_STEP_MS steps, so the analysis sees the same cadence at 1x and at 50x.
+ * Engines constructed with `clock` therefore replay with the same timeline as live.
+ */
+export class ReplayEngine {
+  public readonly clock: ManualClock;
+  private speed = 1;
+  private status: ReplayStatus = 'paused';
+  private tradeIdx = 0;
+  private depthIdx = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private recording: FlowRecording, private handlers: ReplayHandlers) {
+    this.clock = new ManualClock(recording.startTime);
+  }
+
+  public get startTime(): number {
+    return this.recording.startTime;
+  }
+
+  public get endTime(): number {
+    return this.recording.endTime;
+  }
+
+  public getTime(): number {
+    return this.clock.now();
+  }
+
+  public getStatus(): ReplayStatus {
+    return this.status;
+  }
+
+  /**
+   * Loads the first frame so the views have something to show before play.
+   */
+  public start() {
+    this.seek(this.recording.startTime);
+  }
+
+  public play() {
+    if (this.status === 'playing') return;
+    if (this.status === 'ended') this.seek(this.recording.startTime);
+    this.setStatus('playing');
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  public pause() {
+    this.stopTimer();
+    if (this.status === 'playing') this.setStatus('paused');
+  }
+
+  public setSpeed(speed: number) {
+    this.speed = Math.min(Math.max(speed, REPLAY_SPEEDS[0]), REPLAY_SPEEDS[REPLAY_SPEEDS.length - 1]);
+  }
+
+  /**
+   * Jumps to `time`: resets the pipeline, fast-forwards through a warm-up window
+   * without rendering, then renders once at the target.
+   */
+  public seek(time: number) {
+    const target = Math.min(Math.max(time, this.recording.startTime), this.recording.endTime);
+    const warmStart = Math.max(this.recording.startTime, target - SEEK_WARMUP_MS);
+
+    this.handlers.onReset();
+    this.tradeIdx = lowerBound(this.recording.trades, warmStart);
+    this.depthIdx = Math.max(0, lowerBound(this.recording.depth, warmStart + 1) - 1);
+    this.clock.set(warmStart);
+
+    // Seed the book with the last frame at/before the warm-up start
+    const seedFrame = this.recording.depth[this.depthIdx];
+    if (seedFrame) {
+      this.handlers.onDepth(seedFrame);
+      this.depthIdx++;
+    }
+
+    this.advanceTo(target);
+    this.handlers.onRender(this.clock.now());
+
+    if (this.status === 'ended' && target < this.recording.endTime) this.setStatus('paused');
+  }
+
+  public dispose() {
+    this.stopTimer();
+  }
+
+  private tick() {
+    this.advanceTo(this.clock.now() + TICK_MS * this.speed);
+    this.handlers.onRender(this.clock.now());
+
+    if (this.clock.now() >= this.recording.endTime) {
+      this.stopTimer();
+      this.setStatus('ended');
+    }
+  }
+
+  private advanceTo(target: number) {
+    const { trades, depth, endTime } = this.recording;
+    const end = Math.min(target, endTime);
+
+    while (this.clock.now() < end) {
+      this.clock.set(Math.min(this.clock.now() + REPLAY_STEP_MS, end));
+      const now = this.clock.now();
+
+      while (this.tradeIdx < trades.length && trades[this.tradeIdx].time <= now) {
+        this.handlers.onTrade(trades[this.tradeIdx++]);
+      }
+
+      // Only the latest frame of a step matters: the book is a snapshot, not a diff
+      let frame: DepthFrame | null = null;
+      while (this.depthIdx < depth.length && depth[this.depthIdx].time <= now) {
+        frame = depth[this.depthIdx++];
+      }
+      if (frame) this.handlers.onDepth(frame);
+
+      this.handlers.onStep(now);
+    }
+  }
+
+  private stopTimer() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private setStatus(status: ReplayStatus) {
+    this.status = status;
+    this.handlers.onStatus?.(status);
+  }
+}
+
+// First index whose `time` is >= t (items sorted by time)
+const lowerBound = (items: { time: number }[], t: number): number => {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (items[mid].time < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
@@ -0,0 +1,103 @@
+// Scales MAD so it estimates the standard deviation for normally distributed data
+const MAD_TO_STD = 1.4826;
+
+/**
+ * Fixed-size rolling window with O(1) mean / standard deviation and
+ * (cached) median / MAD for robust scoring.
+ * Oldest samples fall off once the window is full.
+ */
+export class RollingStats {
+  private buffer: number[] = [];
+  private head = 0;
+  private sum = 0;
+  private sumSq = 0;
+  private sortedCache: number[] | null = null;
+
+  constructor(private capacity: number, initial: number[] = []) {
+    initial.forEach(v => this.push(v));
+  }
+
+  public push(value: number) {
+    if (!Number.isFinite(value)) return;
+
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(value);
+    } else {
+      const old = this.buffer[this.head];
+      this.sum -= old;
+      this.sumSq -= old * old;
+      this.buffer[this.head] = value;
+      this.head = (this.head + 1) % this.capacity;
+    }
+    this.sum += value;
+    this.sumSq += value * value;
+    this.sortedCache = null;
+  }
+
+  public get size(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Samples in insertion order (oldest first).
+   */
+  public values(): number[] {
+    return [...this.buffer.slice(this.head), ...this.buffer.slice(0, this.head)];
+  }
+
+  public mean(): number {
+    return this.buffer.length > 0 ? this.sum / this.buffer.length : 0;
+  }
+
+  public std(): number {
+    const n = this.buffer.length;
+    if (n < 2) return 0;
+    const variance = (this.sumSq - (this.sum * this.sum) / n) / (n - 1);
+    return variance > 0 ? Math.sqrt(variance) : 0;
+  }
+
+  public median(): number {
+    return medianOf(this.sorted());
+  }
+
+  /**
+   * Median absolute deviation, scaled to be comparable with std().
+   */
+  public mad(): number {
+    const sorted = this.sorted();
+    if (sorted.length < 2) return 0;
+    const med = medianOf(sorted);
+    const deviations = sorted.map(v => Math.abs(v - med)).sort((a, b) => a - b);
+    return medianOf(deviations) * MAD_TO_STD;
+  }
+
+  /**
+   * Z-Score of `value` against the window. Returns 0 until `minSamples` are in.
+   */
+  public zScore(value: number, minSamples: number = 2): number {
+    if (this.buffer.length < minSamples) return 0;
+    const std = this.std();
+    if (std === 0) return 0;
+    return (value - this.mean()) / std;
+  }
+
+  public clear() {
+    this.buffer = [];
+    this.head = 0;
+    this.sum = 0;
+    this.sumSq = 0;
+    this.sortedCache = null;
+  }
+
+  private sorted(): number[] {
+    if (!this.sortedCache) this.sortedCache = [...this.buffer].sort((a, b) => a - b);
+    return this.sortedCache;
+  }
+}
+
+const medianOf = (sorted: number[]): number => {
+  const n = sorted.length;
+  if (n === 0) return 0;
+  const mid = Math.floor(n / 2);
+  return n % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
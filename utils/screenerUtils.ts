@@ -68,6 +68,9 @@ export const calculateAttentionScore = (
   // Price Velocity (0-20 pts)
   score += Math.min(Math.abs(priceChg) * 5, 20);
 
+  // Delta Anomaly (0-20 pts)
+  score += Math.min(Math.abs(deltaZ) * 5, 20);
+
   // Funding Extremes (0-20 pts)
   // Funding > 0.05% or < -0.05% is interesting
   const fundingScore = Math.max(0, (Math.abs(fundingRate) - 0.01) * 1000); 
@@ -78,16 +81,3 @@ export const calculateAttentionScore = (
 
   return Math.min(score, 100);
 };
-
-/**
- * Generate a simulated sparkline for demo purposes if real history isn't fully available.
- */
-export const generateSparkline = (lastPrice: number, volatility: number): number[] => {
-    const points = [];
-    let price = lastPrice;
-    for (let i = 0; i < 20; i++) {
-        points.unshift(price);
-        price = price * (1 + (Math.random() - 0.5) * volatility);
-    }
-    return points;
-};
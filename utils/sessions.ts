@@ -0,0 +1,83 @@
+import { Candle, NamedSessionProfile, SessionDefinition } from '../types';
+import { calculateProfile, calculateSessionLevels } from './analytics';
+
+export const DEFAULT_SESSIONS: SessionDefinition[] = [
+  { id: 'asia', name: 'Asia', startTime: '00:00', endTime: '08:00', color: '#eab308', enabled: true },
+  { id: 'london', name: 'London', startTime: '07:00', endTime: '15:30', color: '#3b82f6', enabled: true },
+  { id: 'newyork', name: 'New York', startTime: '13:30', endTime: '20:00', color: '#22c55e', enabled: true },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toMs = (str: string) => {
+  const [h, m] = str.split(':').map(Number);
+  return (h * 60 + m) * 60 * 1000;
+};
+
+/**
+ * Bounds of a named session on a UTC day (YYYY-MM-DD). A session that wraps midnight
+ * belongs to the day it closes on, so it opens the evening before.
+ */
+export const getNamedSessionBounds = (day: string, session: SessionDefinition): { start: number; end: number } => {
+  const dayStart = new Date(`${day}T00:00:00Z`).getTime();
+  const startMs = toMs(session.startTime);
+  const endMs = toMs(session.endTime);
+  return {
+    start: dayStart + startMs - (startMs > endMs ? DAY_MS : 0),
+    end: dayStart + endMs,
+  };
+};
+
+/**
+ * Separate profile, IB and session-anchored VWAP for every enabled named session on `day`.
+ * Sessions may overlap (e.g. London / New York); each gets its own lane so they can be
+ * drawn side by side. Sessions without candles are left out.
+ */
+export const calculateNamedSessions = (
+  candles: Candle[],
+  sessions: SessionDefinition[],
+  tickSize: number,
+  day: string
+): NamedSessionProfile[] => {
+  const result: NamedSessionProfile[] = [];
+
+  sessions.filter(s => s.enabled).forEach(session => {
+    const { start, end } = getNamedSessionBounds(day, session);
+    const sessionCandles = candles.filter(c => c.timestamp >= start && c.timestamp < end);
+    if (sessionCandles.length === 0) return;
+
+    // VWAP resets at the session open
+    let cumPV = 0;
+    let cumVol = 0;
+    const vwap = sessionCandles.map(c => {
+      cumPV += ((c.high + c.low + c.close) / 3) * c.volume;
+      cumVol += c.volume;
+      return { timestamp: c.timestamp, value: cumVol > 0 ? cumPV / cumVol : c.close };
+    });
+
+    const { ibHigh, ibLow } = calculateSessionLevels(sessionCandles);
+    result.push({
+      session,
+      start,
+      end,
+      profile: calculateProfile(sessionCandles, tickSize),
+      ibHigh,
+      ibLow,
+      vwap,
+      lane: 0,
+    });
+  });
+
+  // Overlap: first lane whose previous session has closed
+  const laneEnds: number[] = [];
+  result
+    .sort((a, b) => a.start - b.start)
+    .forEach(s => {
+      let lane = laneEnds.findIndex(end => end <= s.start);
+      if (lane === -1) lane = laneEnds.length;
+      laneEnds[lane] = s.end;
+      s.lane = lane;
+    });
+
+  return result;
+};
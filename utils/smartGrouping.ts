@@ -1,5 +1,6 @@
 
 import { NoiseFilterLevel } from "../types";
+import { Clock, systemClock } from "./clock";
 
 export interface ZoneRaw {
   price: number;
@@ -33,6 +34,8 @@ export interface SmartZone {
 }
 
 export class SmartGroupingEngine {
+
+    constructor(private clock: Clock = systemClock) {}
     
     // Volatility State
     private recentPrices: number[] = [];
@@ -79,7 +82,7 @@ export class SmartGroupingEngine {
         noiseLevel: NoiseFilterLevel,
         lastPrice: number
     ): SmartZone[] {
-        const now = Date.now();
+        const now = this.clock.now();
         const zones = new Map<number, SmartZone>();
         const validStart = now - timeWindow;
 
@@ -0,0 +1,67 @@
+import { floorToInterval } from './time';
+
+export const SPARKLINE_POINTS = 60; // Matches the kline window fetched per radar symbol
+
+interface SparklineSeries {
+  points: number[];
+  bucket: number; // Open time of the bar the last point belongs to
+}
+
+/**
+ * Rolling close series per symbol, one point per screener bar.
+ * Seeded from kline closes, then advanced by live prices: a tick inside the current bar
+ * moves the last point, a tick in a new bar appends and drops the oldest.
+ */
+export class SparklineStore {
+  private series: Map<string, SparklineSeries> = new Map();
+
+  constructor(private intervalMs: number) {}
+
+  /**
+   * Changing the bar interval invalidates every series; callers re-seed from fresh klines.
+   */
+  public setInterval(intervalMs: number) {
+    if (intervalMs === this.intervalMs) return;
+    this.intervalMs = intervalMs;
+    this.series.clear();
+  }
+
+  /**
+   * Seeds from closes (oldest first). The last close is assumed to be the forming bar.
+   */
+  public seed(symbol: string, closes: number[], now: number = Date.now()) {
+    this.series.set(symbol, {
+      points: closes.slice(-SPARKLINE_POINTS),
+      bucket: floorToInterval(now, this.intervalMs),
+    });
+  }
+
+  /**
+   * Applies a live price. Returns the series (a new array when it changed),
+   * or null for symbols that haven't been seeded for the current interval.
+   */
+  public update(symbol: string, price: number, now: number = Date.now()): number[] | null {
+    const series = this.series.get(symbol);
+    if (!series || series.points.length === 0) return null;
+    if (!(price > 0)) return series.points;
+
+    const bucket = floorToInterval(now, this.intervalMs);
+    const last = series.points[series.points.length - 1];
+
+    if (bucket > series.bucket) {
+      series.points = [...series.points, price].slice(-SPARKLINE_POINTS);
+      series.bucket = bucket;
+    } else if (price !== last) {
+      series.points = [...series.points.slice(0, -1), price];
+    }
+    return series.points;
+  }
+
+  public get(symbol: string): number[] {
+    return this.series.get(symbol)?.points || [];
+  }
+
+  public clear() {
+    this.series.clear();
+  }
+}
@@ -0,0 +1,23 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Converts an exchange interval string ('1m', '15m', '4h', '1d', ...) to milliseconds.
+ * Unknown formats fall back to 1 minute.
+ */
+export const intervalToMs = (interval: string): number => {
+  const match = /^(\d+)([smhdw])$/.exec(interval);
+  if (!match) return UNIT_MS.m;
+  return parseInt(match[1], 10) * UNIT_MS[match[2]];
+};
+
+/**
+ * Start of the interval bucket that contains `timestamp`.
+ */
+export const floorToInterval = (timestamp: number, intervalMs: number): number =>
+  Math.floor(timestamp / intervalMs) * intervalMs;
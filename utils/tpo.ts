@@ -0,0 +1,105 @@
+import { Candle, ProfileLevel, TpoLevel, TpoPeriod, TpoProfile } from '../types';
+import { buildProfileMetrics } from './analytics';
+import { floorToInterval } from './time';
+
+// Market profile brackets are 30 minutes, lettered A-Z then a-z
+export const TPO_PERIOD_MS = 30 * 60 * 1000;
+const TPO_LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+// Initial balance = the first two brackets
+const IB_PERIODS = 2;
+// Shorter single-print runs are noise, not a gap worth tracking
+const MIN_SINGLE_PRINT_TICKS = 3;
+
+/**
+ * Time-price opportunities for a session (candles already session-filtered, ideally 30m or finer).
+ * Brackets are aligned to UTC half hours and lettered in the order they traded, so a session
+ * that wraps midnight still reads A, B, C... The POC / value area use the same rules as the
+ * volume profile, with TPO counts in place of volume.
+ */
+export const calculateTpoProfile = (candles: Candle[], tickSize: number): TpoProfile | null => {
+  if (candles.length === 0) return null;
+
+  // 1. Brackets
+  const byStart = new Map<number, { high: number; low: number }>();
+  candles.forEach(c => {
+    const start = floorToInterval(c.timestamp, TPO_PERIOD_MS);
+    const p = byStart.get(start);
+    if (p) {
+      p.high = Math.max(p.high, c.high);
+      p.low = Math.min(p.low, c.low);
+    } else {
+      byStart.set(start, { high: c.high, low: c.low });
+    }
+  });
+  const periods: TpoPeriod[] = Array.from(byStart.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, p], i) => ({ letter: TPO_LETTERS[i % TPO_LETTERS.length], start, high: p.high, low: p.low }));
+
+  // 2. Letters per tick
+  const byTick = new Map<number, string>();
+  periods.forEach(p => {
+    for (let t = Math.floor(p.low / tickSize); t <= Math.floor(p.high / tickSize); t++) {
+      byTick.set(t, (byTick.get(t) || '') + p.letter);
+    }
+  });
+  const ticks = Array.from(byTick.keys()).sort((a, b) => a - b);
+  const levels: TpoLevel[] = ticks.map(t => ({ price: t * tickSize, letters: byTick.get(t)! }));
+
+  // 3. POC & value area on TPO counts
+  const countLevels: ProfileLevel[] = levels.map(l => ({ price: l.price, volume: l.letters.length }));
+  const totalTpo = countLevels.reduce((sum, l) => sum + l.volume, 0);
+  const high = Math.max(...periods.map(p => p.high));
+  const low = Math.min(...periods.map(p => p.low));
+  const { poc, vah, val } = buildProfileMetrics(countLevels, totalTpo, high, low);
+
+  // 4. Initial balance & range extension
+  let ibHigh: number | null = null;
+  let ibLow: number | null = null;
+  let extensionUp: TpoPeriod | null = null;
+  let extensionDown: TpoPeriod | null = null;
+  if (periods.length >= IB_PERIODS) {
+    const ib = periods.slice(0, IB_PERIODS);
+    ibHigh = Math.max(...ib.map(p => p.high));
+    ibLow = Math.min(...ib.map(p => p.low));
+    extensionUp = periods.slice(IB_PERIODS).find(p => p.high > ibHigh!) || null;
+    extensionDown = periods.slice(IB_PERIODS).find(p => p.low < ibLow!) || null;
+  }
+
+  // 5. Single prints inside the range (runs touching an extreme are tails, not gaps)
+  const singlePrints: TpoProfile['singlePrints'] = [];
+  if (periods.length > 1) {
+    let runStart: number | null = null;
+    for (let i = 0; i <= ticks.length; i++) {
+      const single = i < ticks.length && byTick.get(ticks[i])!.length === 1 && (runStart === null || ticks[i] === ticks[i - 1] + 1);
+      if (single && runStart === null) {
+        runStart = i;
+        continue;
+      }
+      if (!single && runStart !== null) {
+        const runEnd = i - 1;
+        if (runEnd - runStart + 1 >= MIN_SINGLE_PRINT_TICKS && runStart > 0 && runEnd < ticks.length - 1) {
+          singlePrints.push({ low: ticks[runStart] * tickSize, high: (ticks[runEnd] + 1) * tickSize });
+        }
+        runStart = null;
+        // This tick may open a new run
+        if (i < ticks.length && byTick.get(ticks[i])!.length === 1) runStart = i;
+      }
+    }
+  }
+
+  return {
+    tickSize,
+    periodMs: TPO_PERIOD_MS,
+    periods,
+    levels,
+    totalTpo,
+    poc,
+    vah,
+    val,
+    ibHigh,
+    ibLow,
+    extensionUp,
+    extensionDown,
+    singlePrints,
+  };
+};
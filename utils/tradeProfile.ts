@@ -0,0 +1,72 @@
+import { ProfileLevel, ProfileMetrics, Trade } from '../types';
+import { buildProfileMetrics } from './analytics';
+
+/**
+ * Exact volume-at-price from individual trades, split by aggressor:
+ * bidVol = sold into the bid, askVol = bought from the ask.
+ * Unlike calculateProfile nothing is smeared across a bar's range, so the POC and
+ * value area sit where volume actually traded. Trades are folded in as they arrive
+ * and the metrics are recomputed lazily.
+ */
+export class TradeProfileBuilder {
+  private levels: Map<number, ProfileLevel> = new Map(); // Keyed by tick index
+  private high = -Infinity;
+  private low = Infinity;
+  private totalVolume = 0;
+  private firstTime = Infinity;
+  private cached: ProfileMetrics | null = null;
+
+  constructor(public readonly tickSize: number) {}
+
+  public get isEmpty(): boolean {
+    return this.totalVolume === 0;
+  }
+
+  /** Time of the oldest trade folded in (Infinity when empty). */
+  public get startTime(): number {
+    return this.firstTime;
+  }
+
+  public addTrades(trades: Trade[]) {
+    if (trades.length === 0) return;
+    trades.forEach(t => {
+      const tick = Math.floor(t.price / this.tickSize);
+      let level = this.levels.get(tick);
+      if (!level) {
+        level = { price: tick * this.tickSize, volume: 0, bidVol: 0, askVol: 0 };
+        this.levels.set(tick, level);
+      }
+      level.volume += t.qty;
+      if (t.isBuyerMaker) level.bidVol! += t.qty;
+      else level.askVol! += t.qty;
+
+      this.totalVolume += t.qty;
+      this.high = Math.max(this.high, t.price);
+      this.low = Math.min(this.low, t.price);
+      this.firstTime = Math.min(this.firstTime, t.time);
+    });
+    this.cached = null;
+  }
+
+  public getProfile(): ProfileMetrics {
+    if (!this.cached) {
+      const levels = Array.from(this.levels.values())
+        .map(l => ({ ...l }))
+        .sort((a, b) => a.price - b.price);
+      const metrics = this.isEmpty
+        ? { levels: [], poc: 0, vah: 0, val: 0, totalVolume: 0, sessionHigh: 0, sessionLow: 0 }
+        : buildProfileMetrics(levels, this.totalVolume, this.high, this.low);
+      this.cached = { ...metrics, source: 'trades' };
+    }
+    return this.cached;
+  }
+
+  public clear() {
+    this.levels.clear();
+    this.high = -Infinity;
+    this.low = Infinity;
+    this.totalVolume = 0;
+    this.firstTime = Infinity;
+    this.cached = null;
+  }
+}
@@ -0,0 +1,100 @@
+import { AnchoredVwap, AnchoredVwapPoint, Candle, OrderBlock, VwapAnchor, VwapAnchorKind } from '../types';
+import { findSwings } from './marketStructure';
+
+export const VWAP_BAND_SIGMAS = [1, 2, 3];
+
+export const VWAP_ANCHOR_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fb923c', '#c084fc', '#facc15'];
+
+export const VWAP_ANCHOR_LABELS: Record<VwapAnchorKind, string> = {
+  candle: 'AVWAP',
+  swingHigh: 'AVWAP SH',
+  swingLow: 'AVWAP SL',
+  orderBlock: 'AVWAP OB',
+  sessionOpen: 'AVWAP Open',
+};
+
+/**
+ * Timestamp of the most recent confirmed swing high / low, or null.
+ */
+export const findLatestSwing = (candles: Candle[], side: 'high' | 'low'): number | null => {
+  const swings = findSwings(candles).filter(s => s.type === side);
+  return swings.length > 0 ? swings[swings.length - 1].timestamp : null;
+};
+
+/**
+ * Where an anchor starts on the current data; null when it can't be placed
+ * (no swing yet, fixed time outside the loaded candles).
+ */
+export const resolveAnchorTime = (anchor: VwapAnchor, candles: Candle[], orderBlocks: OrderBlock[] = []): number | null => {
+  if (candles.length === 0) return null;
+  switch (anchor.kind) {
+    case 'sessionOpen':
+      return candles[0].timestamp;
+    case 'swingHigh':
+      return findLatestSwing(candles, 'high');
+    case 'swingLow':
+      return findLatestSwing(candles, 'low');
+    case 'orderBlock': {
+      if (anchor.time !== null) return anchor.time;
+      const latest = orderBlocks.filter(ob => !ob.mitigated).sort((a, b) => b.start - a.start)[0];
+      return latest ? latest.start : null;
+    }
+    default:
+      return anchor.time;
+  }
+};
+
+/**
+ * VWAP (typical price) and its volume-weighted standard deviation from the candle
+ * containing `anchorTime` onward.
+ */
+export const calculateAnchoredVwap = (candles: Candle[], anchorTime: number): AnchoredVwapPoint[] => {
+  let cumVol = 0;
+  let cumPV = 0;
+  let cumP2V = 0;
+  const points: AnchoredVwapPoint[] = [];
+
+  candles.forEach((c, i) => {
+    const next = candles[i + 1];
+    if (c.timestamp < anchorTime && (!next || next.timestamp <= anchorTime)) return;
+
+    const typicalPrice = (c.high + c.low + c.close) / 3;
+    cumVol += c.volume;
+    cumPV += typicalPrice * c.volume;
+    cumP2V += typicalPrice * typicalPrice * c.volume;
+
+    const vwap = cumVol > 0 ? cumPV / cumVol : typicalPrice;
+    const variance = cumVol > 0 ? cumP2V / cumVol - vwap * vwap : 0;
+    points.push({ timestamp: c.timestamp, vwap, std: Math.sqrt(Math.max(0, variance)) });
+  });
+
+  return points;
+};
+
+export const calculateAnchoredVwaps = (candles: Candle[], anchors: VwapAnchor[], orderBlocks: OrderBlock[] = []): AnchoredVwap[] =>
+  anchors.flatMap(anchor => {
+    const anchorTime = resolveAnchorTime(anchor, candles, orderBlocks);
+    if (anchorTime === null) return [];
+    const points = calculateAnchoredVwap(candles, anchorTime);
+    return points.length > 0 ? [{ anchor, anchorTime, points }] : [];
+  });
+
+// --- Persistence (anchors per symbol) ---
+
+export const loadVwapAnchors = (storageKey: string): Record<string, VwapAnchor[]> => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn('Failed to load VWAP anchors', e);
+    return {};
+  }
+};
+
+export const saveVwapAnchors = (storageKey: string, anchors: Record<string, VwapAnchor[]>) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(anchors));
+  } catch (e) {
+    console.warn('Failed to persist VWAP anchors', e);
+  }
+};
@@ -0,0 +1,100 @@
+import { Watchlist } from '../types';
+
+const EXPORT_VERSION = 1;
+
+export const DEFAULT_WATCHLISTS: Watchlist[] = [
+  { id: 'favorites', name: 'Favorites', symbols: ['BTCUSDT', 'ETHUSDT'] },
+];
+
+const normalizeSymbol = (symbol: string) => symbol.trim().toUpperCase();
+
+/**
+ * Adds the symbol to the end of the list, or removes it if it's already there.
+ */
+export const toggleWatchlistSymbol = (list: Watchlist, symbol: string): Watchlist => ({
+  ...list,
+  symbols: list.symbols.includes(symbol) ? list.symbols.filter(s => s !== symbol) : [...list.symbols, symbol],
+});
+
+/**
+ * Moves `symbol` to the position of `target` (drag and drop); the items in between shift by one.
+ */
+export const moveSymbol = (symbols: string[], symbol: string, target: string): string[] => {
+  const from = symbols.indexOf(symbol);
+  const to = symbols.indexOf(target);
+  if (from === -1 || to === -1 || from === to) return symbols;
+  const moved = [...symbols];
+  moved.splice(from, 1);
+  moved.splice(to, 0, symbol);
+  return moved;
+};
+
+export const moveWatchlistSymbol = (list: Watchlist, symbol: string, target: string): Watchlist => {
+  const symbols = moveSymbol(list.symbols, symbol, target);
+  return symbols === list.symbols ? list : { ...list, symbols };
+};
+
+// --- Import / Export ---
+
+export const serializeWatchlists = (lists: Watchlist[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, lists }, null, 2);
+
+/**
+ * Reads an exported file. Also accepts a bare array of lists or of symbols (one unnamed list).
+ */
+export const parseWatchlists = (text: string): Watchlist[] => {
+  const data = JSON.parse(text);
+  const raw: unknown[] = Array.isArray(data) && data.every(s => typeof s === 'string')
+    ? [{ name: 'Imported', symbols: data }]
+    : Array.isArray(data) ? data : data?.lists;
+  if (!Array.isArray(raw)) throw new Error('Not a watchlist export');
+
+  return raw.map((item, i) => {
+    const list = item as Partial<Watchlist>;
+    if (!list || !Array.isArray(list.symbols)) throw new Error(`List ${i + 1} has no symbols`);
+    const symbols = list.symbols.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(normalizeSymbol);
+    return {
+      id: `list-${Date.now()}-${i}`,
+      name: typeof list.name === 'string' && list.name.trim() ? list.name.trim() : `Imported ${i + 1}`,
+      symbols: Array.from(new Set(symbols)),
+    };
+  });
+};
+
+/**
+ * Imported lists are merged into existing ones with the same name (new symbols appended)
+ * and added as new lists otherwise.
+ */
+export const mergeWatchlists = (current: Watchlist[], imported: Watchlist[]): Watchlist[] => {
+  const merged = [...current];
+  imported.forEach(list => {
+    const index = merged.findIndex(l => l.name.toLowerCase() === list.name.toLowerCase());
+    if (index === -1) {
+      merged.push(list);
+      return;
+    }
+    const existing = merged[index];
+    merged[index] = { ...existing, symbols: [...existing.symbols, ...list.symbols.filter(s => !existing.symbols.includes(s))] };
+  });
+  return merged;
+};
+
+// --- Persistence ---
+
+export const loadWatchlists = (storageKey: string): Watchlist[] => {
+  try {
+    const raw = localStorage.getItem(storageKey);
+    return raw ? JSON.parse(raw) : DEFAULT_WATCHLISTS;
+  } catch (e) {
+    console.warn('Failed to load watchlists', e);
+    return DEFAULT_WATCHLISTS;
+  }
+};
+
+export const saveWatchlists = (storageKey: string, lists: Watchlist[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(lists));
+  } catch (e) {
+    console.warn('Failed to persist watchlists', e);
+  }
+};
@@ -1,7 +1,57 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const MOCK_WEBHOOK_LIMIT = 100;
+
+/**
+ * Dev-only webhook sink for testing alert delivery offline.
+ * POST /__webhooks/mock stores the payload, GET lists what arrived (newest first), DELETE clears it.
+ * ?fail=0.5 rejects that share of requests with a 500 and ?status=429 always answers with that
+ * status, to exercise the retry queue.
+ */
+const mockWebhookReceiver = (): Plugin => {
+  const received: { time: number; body: unknown }[] = [];
+
+  return {
+    name: 'mock-webhook-receiver',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use('/__webhooks/mock', (req, res) => {
+        const query = new URL(req.url || '/', 'http://localhost').searchParams;
+        const reply = (status: number, payload?: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(payload === undefined ? undefined : JSON.stringify(payload));
+        };
+
+        if (req.method === 'GET') return reply(200, received);
+        if (req.method === 'DELETE') {
+          received.length = 0;
+          return reply(204);
+        }
+        if (req.method !== 'POST') return reply(405, { error: 'Method not allowed' });
+
+        let raw = '';
+        req.on('data', chunk => { raw += chunk; });
+        req.on('end', () => {
+          const forced = Number(query.get('status')) || 0;
+          const failRate = Number(query.get('fail')) || 0;
+          const status = forced || (Math.random() < failRate ? 500 : 200);
+          if (status >= 300) return reply(status, { error: 'Simulated failure' });
+
+          let body: unknown = raw;
+          try { body = JSON.parse(raw); } catch { /* Stored as text */ }
+          received.unshift({ time: Date.now(), body });
+          received.splice(MOCK_WEBHOOK_LIMIT);
+          server.config.logger.info(`[webhook mock] ${raw}`);
+          reply(200, { ok: true });
+        });
+      });
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +59,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), mockWebhookReceiver()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)